@@ -0,0 +1,172 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { collectEvents, createTestAgent, fakeTool } from "../testing";
+
+test("streamMessage runs tool calls and yields typed events", async () => {
+  const getPrices = fakeTool({
+    name: "getPrices",
+    schema: z.object({ country: z.string() }),
+    result: ({ country }: { country: string }) => `Price in ${country}: 3.99`,
+  });
+  const { agent } = await createTestAgent({
+    responses: [
+      '["getPrices"]',
+      { toolCalls: [{ name: "getPrices", args: { country: "USA" } }] },
+      "It costs 3.99",
+    ],
+    tools: [getPrices],
+  });
+
+  const events = await collectEvents(agent.streamMessage("Price in the USA?"));
+
+  assert.deepEqual(
+    events.map((event) => event.type),
+    ["orchestration", "tool_call", "tool_result", "token", "final"]
+  );
+  assert.deepEqual(getPrices.calls, [{ country: "USA" }]);
+  assert.deepEqual(
+    events.find((event) => event.type === "tool_result"),
+    {
+      type: "tool_result",
+      id: "call_1",
+      name: "getPrices",
+      content: '{"ok":true,"data":"Price in USA: 3.99"}',
+      result: { ok: true, data: "Price in USA: 3.99" },
+    }
+  );
+  assert.deepEqual(events[events.length - 1], {
+    type: "final",
+    response: "It costs 3.99",
+  });
+});
+
+test("tools requiring approval pause until approved", async () => {
+  const transfer = fakeTool({
+    name: "transfer",
+    schema: z.object({ amount: z.number() }),
+    requiresApproval: true,
+  });
+  const { agent } = await createTestAgent({
+    responses: [
+      '["transfer"]',
+      { toolCalls: [{ id: "call_1", name: "transfer", args: { amount: 100 } }] },
+      "Done",
+    ],
+    tools: [transfer],
+  });
+
+  const events = await collectEvents(agent.streamMessage("Send 100"));
+  const final = events[events.length - 1];
+
+  assert.equal(final?.type, "final");
+  assert.equal(transfer.calls.length, 0);
+  assert.deepEqual(await agent.getPendingApproval(), {
+    threadId: "test-agent",
+    toolCalls: [
+      {
+        id: "call_1",
+        name: "transfer",
+        args: { amount: 100 },
+        requiresApproval: true,
+      },
+    ],
+  });
+
+  const executor = await agent.approve({ call_1: { amount: 1 } });
+  await collectEvents(agent.streamExecutor(executor, null));
+
+  assert.deepEqual(transfer.calls, [{ amount: 1 }]);
+  assert.equal(await agent.getPendingApproval(), null);
+});
+
+test("rejected tool calls are never executed", async () => {
+  const transfer = fakeTool({ name: "transfer", requiresApproval: true });
+  const { agent } = await createTestAgent({
+    responses: [
+      '["transfer"]',
+      { toolCalls: [{ name: "transfer" }] },
+      "Cancelled",
+    ],
+    tools: [transfer],
+  });
+
+  await collectEvents(agent.streamMessage("Send it"));
+  const executor = await agent.reject("Too much");
+  await collectEvents(agent.streamExecutor(executor, null));
+
+  const { messages } = await agent.getHistory();
+  assert.equal(transfer.calls.length, 0);
+  assert.equal(messages[messages.length - 1]?.content, "Cancelled");
+});
+
+test("threads of one agent keep separate histories", async () => {
+  const { agent } = await createTestAgent({
+    responses: ["[]", "one", "[]", "two"],
+  });
+
+  await collectEvents(agent.streamMessage("a", { threadId: "u1" }));
+  await collectEvents(agent.streamMessage("b", { threadId: "u2" }));
+
+  const u1 = await agent.getHistory({ threadId: "u1" });
+  const u2 = await agent.getHistory({ threadId: "u2" });
+
+  assert.deepEqual(
+    u1.messages.map((message) => message.content),
+    ["a", "one"]
+  );
+  assert.deepEqual(
+    u2.messages.map((message) => message.content),
+    ["b", "two"]
+  );
+});
+
+test("forkThread copies history and clearHistory removes it", async () => {
+  const { agent } = await createTestAgent({ responses: ["[]", "hello"] });
+
+  await collectEvents(agent.streamMessage("hi", { threadId: "main" }));
+
+  assert.equal(await agent.forkThread("branch", { threadId: "main" }), 2);
+  assert.equal((await agent.getHistory({ threadId: "branch" })).total, 2);
+
+  assert.equal(await agent.clearHistory("main"), 2);
+  assert.equal((await agent.getHistory({ threadId: "main" })).total, 0);
+  assert.equal((await agent.getHistory({ threadId: "branch" })).total, 2);
+});
+
+test("tools can be added, disabled and removed on a live agent", async () => {
+  const { agent, model } = await createTestAgent({
+    responses: ["[]", "no tools yet"],
+  });
+  await collectEvents(agent.streamMessage("hi"));
+
+  const added = await agent.addTools([
+    fakeTool({ name: "getPrices" }),
+    fakeTool({ name: "getNews" }),
+  ]);
+  assert.deepEqual(added, ["getPrices", "getNews"]);
+  assert.match(await agent.renderPrompt("agent"), /Tool Name: getNews/);
+
+  agent.setToolEnabled("getNews", false);
+  assert.deepEqual(Object.keys(agent.tools), ["getPrices"]);
+  assert.doesNotMatch(await agent.renderPrompt("agent"), /Tool Name: getNews/);
+
+  model.push('["getPrices", "getNews"]', "done");
+  const events = await collectEvents(agent.streamMessage("prices?"));
+  assert.deepEqual(events[0], {
+    type: "orchestration",
+    tools: ["getPrices"],
+    invalidTools: [],
+  });
+
+  assert.deepEqual(agent.removeTools(["getPrices", "getNews", "unknown"]), [
+    "getPrices",
+    "getNews",
+  ]);
+  assert.deepEqual(Object.keys(agent.tools), []);
+  assert.deepEqual(Object.keys(agent.disabledTools), []);
+  assert.throws(() => agent.setToolEnabled("getNews", true), /not found/);
+
+  // Conversation state survives the tool changes
+  assert.equal((await agent.getHistory()).total, 4);
+});
@@ -1,39 +1,167 @@
+import { createHash } from "crypto";
 import { MongoClient } from "mongodb";
-import chalk from "chalk";
-import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import {
+  AIMessage,
+  BaseMessage,
+  isAIMessage,
+  isAIMessageChunk,
+  RemoveMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
 import { MongoDBSaver } from "@langchain/langgraph-checkpoint-mongodb";
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { exportToolsAndSetMetadata } from "../registry";
-import { Tools, toolType } from "../types";
+import { exportToolsAndSetMetadata, formatToolMetadata } from "../registry";
+import { LLMToolRouter } from "../router";
+import {
+  AgentEvent,
+  AgentHooks,
+  AgentLifecycleEventName,
+  AgentLifecycleListener,
+  CheckpointSummary,
+  GuardrailConfig,
+  GuardrailViolation,
+  HistoryConfig,
+  HistoryMessage,
+  KnowledgeConfig,
+  Logger,
+  PendingApproval,
+  PendingToolCall,
+  PromptConfig,
+  PromptKind,
+  ToolRegistryFunction,
+  ToolRouter,
+  Tools,
+  ToolSchema,
+  toolType,
+  UsageConfig,
+  UsageKind,
+  UserMemoryConfig,
+} from "../types";
 import { MemorySaver } from "@langchain/langgraph-checkpoint";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { extractContent, toHistoryMessage } from "../utils/messages";
+import { UsageTracker } from "../usage";
+import { parseToolResult } from "../utils/toolResult";
+import { renderAgentPrompt } from "../prompts";
+import { resolveSecret } from "../secrets";
+import {
+  AgentEventEmitter,
+  ModelEventsHandler,
+  withLifecycle,
+} from "../lifecycle";
+import { logger as defaultLogger, redactLogger } from "../logger";
+import { KnowledgeStore } from "../knowledge";
+import { AgentMemory } from "../memory";
+import { Guardrails } from "../guardrails";
+import {
+  estimateTokens,
+  isSummaryMessage,
+  selectRecentMessages,
+  summarizeMessages,
+  SUMMARY_MESSAGE_NAME,
+  trimHistory,
+} from "../history";
 
 export class Agent {
   public tools: { [key: string]: toolType };
+  // Loaded tools that are currently disabled
+  public disabledTools: { [key: string]: toolType };
+  public toolSchemas: { [key: string]: ToolSchema };
+  // Names of the loaded tools, by the registry function that built them
+  public toolsByRegistry: Map<ToolRegistryFunction, string[]>;
+  public agentId: string;
   public threadId: string;
   toolMetadata: string;
   public model: BaseChatModel;
+  // Agent prompt rendered for the latest turn
   public systemPrompt?: string;
+  public prompts: PromptConfig;
   public mongoClient: any;
   public checkPointSaver: any;
   public config;
   public agent: any;
   public params: any;
   public runtimeParams: any;
+  public router: ToolRouter;
+  public usage: UsageTracker;
+  public logger: Logger;
+  public events: AgentEventEmitter;
+  // Hooks added with use(), run in order around every tool call
+  public hooks: AgentHooks[];
+  // Documents searched for the knowledge added to the prompts
+  public knowledge: KnowledgeStore;
+  // Messages of a thread sent to the model on each call
+  public history: HistoryConfig;
+  // Facts remembered about users across threads
+  public memory: AgentMemory;
+  // Filters of the messages, responses and tool calls
+  public guardrails: Guardrails;
+  // Strings of params.toolKnowledge already indexed
+  private indexedToolKnowledge: Set<string>;
+  private modelEvents: ModelEventsHandler;
+  // Release resources owned by the agent, e.g. MCP server connections.
+  // Handlers owned by tools also run once those tools are all removed
+  private closeHandlers: {
+    handler: () => Promise<void> | void;
+    tools?: Set<string>;
+  }[];
   registry: any;
 
   constructor({
+    agentId,
     threadId,
     params,
     model,
+    router = new LLMToolRouter(),
+    usage,
+    prompts = {},
+    logger = defaultLogger,
+    knowledge,
+    history = { strategy: "all" },
+    memory,
+    guardrails,
   }: {
-    threadId: string;
+    agentId?: string;
+    threadId?: string;
     params: any;
     model: BaseChatModel;
+    router?: ToolRouter;
+    usage?: UsageConfig;
+    prompts?: PromptConfig;
+    // Logger of this agent, the SDK logger (see setLogger) by default
+    logger?: Logger;
+    knowledge?: KnowledgeConfig;
+    history?: HistoryConfig;
+    memory?: UserMemoryConfig;
+    guardrails?: GuardrailConfig;
   }) {
-    this.threadId = threadId;
+    if (!agentId && !threadId) {
+      throw new Error("Either agentId or threadId is required");
+    }
+
+    this.agentId = (agentId || threadId) as string;
+    // Default thread for calls that don't pass a threadId
+    this.threadId = (threadId || agentId) as string;
+    this.router = router;
+    this.usage = new UsageTracker(usage);
+    this.prompts = prompts;
+    // The SDK logger already redacts secrets
+    this.logger = logger === defaultLogger ? logger : redactLogger(logger);
+    this.events = new AgentEventEmitter(logger);
+    this.hooks = [];
+    this.knowledge = new KnowledgeStore(knowledge);
+    this.history = history;
+    this.memory = new AgentMemory(this.agentId, memory);
+    this.guardrails = new Guardrails(guardrails);
+    this.indexedToolKnowledge = new Set();
+    this.modelEvents = new ModelEventsHandler(this);
+    this.closeHandlers = [];
     this.params = params;
     this.tools = {};
+    this.disabledTools = {};
+    this.toolSchemas = {};
+    this.toolsByRegistry = new Map();
     this.toolMetadata = "";
     this.runtimeParams = {};
     this.params.toolKnowledge = [];
@@ -45,23 +173,71 @@ export class Agent {
         this.model = model;
       }
     } catch (error: any) {
-      console.error("Error initializing model:", error);
+      this.logger.error("Error initializing model:", error);
       throw new Error(`Failed to initialize model: ${error.message}`);
     }
 
-    this.config = {
+    this.config = this.configFor(this.threadId);
+  }
+
+  /**
+   *
+   * @param threadId conversation thread, the default thread if omitted
+   * @returns run config of the thread
+   */
+  configFor(threadId: string = this.threadId) {
+    return {
       configurable: {
         thread_id: threadId,
       },
     };
   }
 
+  /**
+   * Subscribes to a lifecycle event
+   *
+   * @returns a function removing the listener
+   */
+  on<K extends AgentLifecycleEventName>(
+    event: K,
+    listener: AgentLifecycleListener<K>
+  ) {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends AgentLifecycleEventName>(
+    event: K,
+    listener: AgentLifecycleListener<K>
+  ) {
+    return this.events.off(event, listener);
+  }
+
+  /**
+   * Adds middleware-style hooks, run after the ones added before. Hooks can
+   * rewrite tool arguments, veto tool calls and replace tool results
+   */
+  use(hooks: AgentHooks) {
+    this.hooks.push(hooks);
+    return this;
+  }
+
+  // Helper function to build the callbacks config of a model call
+  private callbacksFor(threadId: string, kind: UsageKind) {
+    const config = this.usage.configFor(threadId, kind);
+
+    return {
+      ...config,
+      callbacks: [...(config.callbacks as any[]), this.modelEvents],
+    };
+  }
+
   async initialize({
     toolNumbers,
     clients,
     allRegistry,
     checkPointer = "local",
     mongoUri,
+    mongoUriSecret,
   }: {
     toolNumbers: number[];
     clients: ((agent: Agent) =>
@@ -78,6 +254,8 @@ export class Agent {
       | any)[];
     checkPointer?: "local" | "mongo";
     mongoUri?: string;
+    // Secret read when mongoUri isn't given, MONGO_URI is read otherwise
+    mongoUriSecret?: string;
   }) {
     try {
       try {
@@ -88,149 +266,1176 @@ export class Agent {
           allRegistry
         );
       } catch (error: any) {
-        console.error("Failed to load tools:", error);
+        this.logger.error("Failed to load tools:", error);
         throw new Error(`Agent initialization failed: ${error.message}`);
       }
 
-      this.systemPrompt = `
-        Your name is ${this.params.name} (Agent).
-        
-        INSTRUCTIONS:
-        ${this.params.instruction}
-        
-        - Behavioral Guidelines:
-          1. NEVER be rude to user
-          2. NEVER try to be over professional
-          3. ALWAYS be friendly to the user
-          4. NEVER act over politely
-          4. ALWAYS be concise and to the point
-        
-        Response Formatting:
-        - Use proper line breaks between different sections of your response for better readability
-        - Utilize markdown features effectively to enhance the structure of your response
-        - Keep responses concise and well-organized
-        - Use emojis sparingly and only when appropriate for the context
-        - Use an abbreviated format for transaction signatures
-        
-        Realtime knowledge:
-        - { approximateCurrentTime: ${new Date().toISOString()}}
-        
-        Your Available Tools:
-        ${this.toolMetadata}
-        
-        IMPORTANT POINTS:
-        - You are in your developement phase
-        - The development team will update you with more features
-        - Don't use tools when it is not necessary
-        - **Always try to provide short, clear and concise responses**
-
-        ADDITIONAL KNOWLEDGE FROM TOOLS:
-        ${
-          this.params.toolKnowledge &&
-          this.params.toolKnowledge.length > 0 &&
-          this.params.toolKnowledge
-            .filter((item: string) => item !== "")
-            .map((item: string) => `- ${item}`)
-            .join("\n")
-        }
-        `;
+      this.systemPrompt = await this.renderPrompt("agent");
 
       if (checkPointer === "mongo") {
         try {
-          this.mongoClient = new MongoClient(
-            mongoUri || process.env.MONGO_URI!
-          );
+          const uri =
+            mongoUri ||
+            (mongoUriSecret
+              ? await resolveSecret(mongoUriSecret)
+              : process.env.MONGO_URI);
+          if (!uri) {
+            throw new Error(
+              "mongoUri, mongoUriSecret or MONGO_URI is required"
+            );
+          }
+          this.mongoClient = new MongoClient(uri);
           await this.mongoClient.connect(); // Test connection
           this.checkPointSaver = new MongoDBSaver({ client: this.mongoClient });
         } catch (error: any) {
-          console.error("MongoDB connection error:", error);
+          this.logger.error("MongoDB connection error:", error);
           throw new Error(`MongoDB connection failed: ${error.message}`);
         }
       } else {
         this.checkPointSaver = new MemorySaver();
       }
 
-      console.log(chalk.green("Agent initialized successfully"));
+      this.logger.info("Agent initialized successfully");
+      this.events.emit("initialized", {
+        agentId: this.agentId,
+        tools: Object.keys(this.tools),
+      });
     } catch (error: any) {
-      console.error("Agent initialization error:", error);
+      this.logger.error("Agent initialization error:", error);
+      this.events.emit("initialization_failed", {
+        agentId: this.agentId,
+        error,
+      });
     }
   }
 
-  async messageAgent(msg: string) {
+  /**
+   * Registers cleanup to run when the agent is closed
+   *
+   * @param tools names of the tools owning the resource, it's also released
+   * once they are all removed
+   */
+  onClose(handler: () => Promise<void> | void, tools?: string[]) {
+    this.closeHandlers.push({
+      handler,
+      ...(tools ? { tools: new Set(tools) } : {}),
+    });
+  }
+
+  /**
+   * Releases the agent's resources: the connections and subprocesses of its
+   * tools and the MongoDB connection. Failures are logged, not thrown
+   */
+  async close() {
+    const handlers = this.closeHandlers.splice(0);
+
+    await Promise.all(
+      handlers.map(({ handler }) => this.runCloseHandler(handler))
+    );
+
+    if (this.mongoClient) {
+      try {
+        await this.mongoClient.close();
+      } catch (error) {
+        this.logger.error("Error closing MongoDB connection:", error);
+      }
+    }
+  }
+
+  // Helper function to run a close handler, logging its failure
+  private async runCloseHandler(handler: () => Promise<void> | void) {
     try {
-      const tools = await this.orchestrate(msg);
+      await handler();
+    } catch (error) {
+      this.logger.error("Error closing agent resource:", error);
+    }
+  }
+
+  /**
+   * Rebuilds the tool metadata after the tools change. Prompts are rendered
+   * per message, so threads pick up the change on their next message
+   */
+  refreshToolMetadata() {
+    this.toolMetadata = formatToolMetadata(
+      Object.keys(this.tools).map((name) => this.toolSchemas[name]!)
+    );
+  }
+
+  /**
+   * Renders the agent or orchestrator prompt for a turn from the agent's
+   * prompt templates, evaluating the providers the templates reference
+   *
+   * @param kind prompt to render
+   * @param threadId thread of the turn
+   * @param message user message of the turn
+   */
+  async renderPrompt(
+    kind: PromptKind,
+    {
+      threadId = this.threadId,
+      message,
+    }: { threadId?: string; message?: string } = {}
+  ) {
+    await this.indexToolKnowledge();
+    const prompt = await renderAgentPrompt(this, kind, {
+      threadId,
+      ...(message !== undefined ? { message } : {}),
+    });
+
+    if (kind === "agent") {
+      this.systemPrompt = prompt;
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Indexes the strings tools added to `params.toolKnowledge` in the
+   * knowledge store, once per distinct string
+   */
+  private async indexToolKnowledge() {
+    const items: string[] = (this.params.toolKnowledge || []).filter(
+      (item: string) =>
+        typeof item === "string" &&
+        item !== "" &&
+        !this.indexedToolKnowledge.has(item)
+    );
+
+    for (const item of items) {
+      await this.knowledge.add({
+        id: `toolKnowledge-${createHash("sha256")
+          .update(item)
+          .digest("hex")
+          .slice(0, 16)}`,
+        content: item,
+        source: "toolKnowledge",
+      });
+      this.indexedToolKnowledge.add(item);
+    }
+  }
+
+  /**
+   * Loads more tools into the live agent, replacing tools with the same name.
+   * Conversation state is kept
+   *
+   * @param registryFns registry functions of the tools to add
+   * @returns names of the added tools
+   */
+  async addTools(registryFns: ToolRegistryFunction[]) {
+    const loaded = await Promise.all(
+      registryFns.map(async (registry, index) => {
+        try {
+          const result = await registry(this);
+          this.toolsByRegistry.set(
+            registry,
+            result.tools.map((tool) => tool.name)
+          );
+          this.events.emit("tools_loaded", {
+            agentId: this.agentId,
+            index,
+            tools: result.tools.map((tool) => tool.name),
+          });
+          return result;
+        } catch (error: any) {
+          this.events.emit("tools_load_failed", {
+            agentId: this.agentId,
+            index,
+            error,
+          });
+          throw error;
+        }
+      })
+    );
+    const added: string[] = [];
+
+    loaded.forEach(({ tools, schema }) => {
+      Object.values(schema).forEach((item) => {
+        this.toolSchemas[item.name] = item;
+      });
+      tools.forEach((tool) => {
+        delete this.disabledTools[tool.name];
+        this.tools[tool.name] = tool;
+        added.push(tool.name);
+      });
+    });
+
+    this.refreshToolMetadata();
+    return added;
+  }
+
+  /**
+   * Unloads tools from the live agent, enabled or not. Resources owned by the
+   * tools (see `onClose`) are released in the background once all of their
+   * tools are gone
+   *
+   * @param names names of the tools to remove
+   * @returns names of the removed tools, unknown names are ignored
+   */
+  removeTools(names: string[]) {
+    const removed = names.filter(
+      (name) => this.tools[name] || this.disabledTools[name]
+    );
+
+    removed.forEach((name) => {
+      delete this.tools[name];
+      delete this.disabledTools[name];
+      delete this.toolSchemas[name];
+    });
+    this.toolsByRegistry.forEach((names, registry) => {
+      const remaining = names.filter((name) => !removed.includes(name));
+      if (remaining.length > 0) {
+        this.toolsByRegistry.set(registry, remaining);
+      } else {
+        this.toolsByRegistry.delete(registry);
+      }
+    });
+
+    this.closeHandlers = this.closeHandlers.filter(({ handler, tools }) => {
+      if (!tools || !removed.some((name) => tools.has(name))) {
+        return true;
+      }
+      removed.forEach((name) => tools.delete(name));
+      if (tools.size > 0) {
+        return true;
+      }
+      void this.runCloseHandler(handler);
+      return false;
+    });
+
+    this.refreshToolMetadata();
+    return removed;
+  }
+
+  /**
+   * Enables or disables a loaded tool. Disabled tools stay loaded (keeping
+   * their policy state) but are hidden from routing and the system prompt
+   *
+   * @param name tool name
+   * @param enabled whether the tool can be used
+   */
+  setToolEnabled(name: string, enabled: boolean) {
+    const tool = this.tools[name] || this.disabledTools[name];
+    if (!tool) {
+      throw new Error(`Tool ${name} not found`);
+    }
+
+    if (enabled) {
+      delete this.disabledTools[name];
+      this.tools[name] = tool;
+    } else {
+      delete this.tools[name];
+      this.disabledTools[name] = tool;
+    }
+
+    this.refreshToolMetadata();
+  }
 
-      const agent = createReactAgent({
-        llm: this.model,
-        tools: tools,
-        checkpointSaver: this.checkPointSaver,
-        messageModifier: this.systemPrompt as string,
+  async messageAgent(
+    msg: string,
+    threadId: string = this.threadId,
+    userId?: string
+  ) {
+    try {
+      const turn = await this.prepareTurn(msg, {
+        threadId,
+        ...(userId ? { userId } : {}),
       });
+      if (turn.blocked) {
+        throw new Error(
+          `Message blocked by guardrails: ${turn.violations[0]?.reason}`
+        );
+      }
 
-      if (!agent) {
+      if (!turn.agentExecutor) {
         throw new Error("Agent failed");
       }
 
-      return agent;
+      return turn.agentExecutor;
     } catch (error: any) {
-      console.error("Message agent error:", error);
+      this.logger.error("Message agent error:", error);
       return error;
     }
   }
 
-  async orchestrate(msg: string) {
+  /**
+   * Sets up a turn for a message: binds the thread to the user, runs the
+   * input guardrails, selects the tools, compacts the history and builds the
+   * executor with the prompt rendered for the message. Every way of sending
+   * a message goes through it
+   *
+   * @returns the executor and its input, or the blocked response
+   */
+  async prepareTurn(
+    msg: string,
+    {
+      threadId = this.threadId,
+      userId,
+    }: { threadId?: string; userId?: string } = {}
+  ) {
+    if (userId) {
+      await this.memory.bindThread(threadId, userId);
+    }
+
+    const { text, blocked, violations } = await this.checkMessage(
+      msg,
+      threadId
+    );
+    if (blocked) {
+      return { blocked: true as const, response: text, violations };
+    }
+
+    const { tools, invalidTools } = await this.orchestrate(text, threadId);
+    await this.compactHistory(threadId).catch((error) =>
+      this.logger.error("Error summarizing history:", error)
+    );
+
+    const agentExecutor = this.createExecutor(
+      tools,
+      await this.renderPrompt("agent", { threadId, message: text })
+    );
+
+    return {
+      blocked: false as const,
+      agentExecutor,
+      input: { messages: [{ role: "user", content: text }] },
+      tools,
+      invalidTools,
+      violations,
+    };
+  }
+
+  /**
+   * Builds the ReAct executor for a set of tools. When any of the tools
+   * requires approval, or a guardrail can hold its calls for approval, the
+   * run pauses before the tools node so the pending calls can be reviewed
+   * from the checkpoint. Tool calls run through the agent's hooks, guardrails
+   * and lifecycle events. Every model call gets the thread's summary and the
+   * messages kept by the history policy.
+   *
+   * @param systemPrompt prompt rendered for the turn, defaults to the latest
+   */
+  createExecutor(tools: toolType[], systemPrompt = this.systemPrompt) {
+    const requiresApproval = tools.some(
+      (tool) =>
+        tool &&
+        (this.toolSchemas[tool.name]?.requiresApproval ||
+          this.guardrails.mayRequireApproval(tool.name))
+    );
+
+    return createReactAgent({
+      llm: this.model,
+      tools: tools.map((tool) => withLifecycle(tool, this)),
+      checkpointSaver: this.checkPointSaver,
+      messageModifier: async (messages: BaseMessage[]) =>
+        this.prepareMessages(messages, systemPrompt),
+      ...(requiresApproval ? { interruptBefore: ["tools" as const] } : {}),
+    });
+  }
+
+  // Helper function to build the messages of a model call from the thread's
+  // messages
+  private prepareMessages(messages: BaseMessage[], systemPrompt?: string) {
+    const summary = messages.find(isSummaryMessage);
+    const prompt = [
+      systemPrompt,
+      summary &&
+        `Summary of the earlier conversation:\n${extractContent(
+          summary.content
+        )}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    return [
+      ...(prompt ? [new SystemMessage(prompt)] : []),
+      ...trimHistory(
+        messages.filter((message) => !isSummaryMessage(message)),
+        this.history
+      ),
+    ];
+  }
+
+  /**
+   * Replaces the older messages of a thread by a stored summary once the
+   * thread is over the token limit of the "summarize" history policy. Runs
+   * before each message, paused runs are left as they are
+   *
+   * @returns number of summarized messages
+   */
+  async compactHistory(threadId: string = this.threadId) {
+    if (this.history.strategy !== "summarize") {
+      return 0;
+    }
+
+    const {
+      maxTokens,
+      keepTokens = Math.floor(maxTokens / 2),
+      model = this.model,
+      prompt,
+      countTokens = estimateTokens,
+    } = this.history;
+    const config = this.configFor(threadId);
+    const agentExecutor = this.createExecutor(Object.values(this.tools));
+
+    if ((await this.getPendingToolCalls(threadId, agentExecutor)).length > 0) {
+      return 0;
+    }
+
+    const state = await agentExecutor.getState(config);
+    const messages: BaseMessage[] = state.values?.messages || [];
+    if (countTokens(messages) <= maxTokens) {
+      return 0;
+    }
+
+    const previous = messages.find(isSummaryMessage);
+    const conversation = messages.filter(
+      (message) => !isSummaryMessage(message)
+    );
+    const kept = selectRecentMessages(conversation, {
+      maxTokens: keepTokens,
+      countTokens,
+    });
+    const older = conversation.slice(0, conversation.length - kept.length);
+    if (older.length === 0) {
+      return 0;
+    }
+
+    const startedAt = Date.now();
+    const summary = await summarizeMessages(model, older, {
+      ...(previous ? { previous: extractContent(previous.content) } : {}),
+      ...(prompt ? { prompt } : {}),
+      config: this.callbacksFor(threadId, "agent"),
+    });
+
+    // The summary takes the place of the first replaced message
+    const [first, ...rest] = previous ? [previous, ...older] : older;
+    await agentExecutor.updateState(
+      config,
+      {
+        messages: [
+          new SystemMessage({
+            id: first!.id as string,
+            name: SUMMARY_MESSAGE_NAME,
+            content: summary,
+          }),
+          ...rest.map(
+            (message) => new RemoveMessage({ id: message.id as string })
+          ),
+        ],
+      },
+      "agent"
+    );
+
+    this.events.emit("history_summarized", {
+      agentId: this.agentId,
+      threadId,
+      summarizedMessages: older.length,
+      keptMessages: kept.length,
+      durationMs: Date.now() - startedAt,
+    });
+
+    return older.length;
+  }
+
+  /**
+   * Runs the input guardrails on a message before it's orchestrated
+   *
+   * @returns the message to send, or the blocked response when blocked
+   */
+  async checkMessage(msg: string, threadId: string = this.threadId) {
+    const result = await this.guardrails.check("input", msg, {
+      agent: this,
+      threadId,
+    });
+    this.reportViolations(threadId, result.violations);
+
+    return result;
+  }
+
+  /**
+   * Runs the output guardrails on the response of a run. A changed response
+   * replaces the thread's last message, so later turns and the history don't
+   * keep the original
+   */
+  async filterResponse(response: string, threadId: string = this.threadId) {
+    const result = await this.guardrails.check("output", response, {
+      agent: this,
+      threadId,
+    });
+    this.reportViolations(threadId, result.violations);
+
+    if (result.text === response) {
+      return result;
+    }
+
+    const config = this.configFor(threadId);
+    const agentExecutor = this.createExecutor(Object.values(this.tools));
+    const state = await agentExecutor.getState(config);
+    const messages: BaseMessage[] = state.values?.messages || [];
+    const lastMessage = messages[messages.length - 1];
+
+    if (lastMessage && isAIMessage(lastMessage) && lastMessage.id) {
+      await agentExecutor.updateState(
+        config,
+        {
+          messages: [
+            new AIMessage({
+              id: lastMessage.id,
+              content: result.text,
+              response_metadata: lastMessage.response_metadata,
+            }),
+          ],
+        },
+        "agent"
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs the output guardrails on the strings of a value leaving the agent,
+   * e.g. tool call arguments, tool results or history messages. The thread
+   * keeps the original, which the model may need
+   *
+   * @param report whether to report the violations, off for reads of stored
+   * messages
+   */
+  async filterOutput<T>(
+    value: T,
+    threadId: string = this.threadId,
+    { report = true }: { report?: boolean } = {}
+  ): Promise<T> {
+    if (this.guardrails.output.length === 0) {
+      return value;
+    }
+
+    const result = await this.guardrails.checkValue("output", value, {
+      agent: this,
+      threadId,
+    });
+    if (report) {
+      this.reportViolations(threadId, result.violations);
+    }
+
+    return result.value;
+  }
+
+  // Helper function to filter the texts of a streamed event
+  private async filterEvent(
+    event: AgentEvent,
+    threadId: string
+  ): Promise<AgentEvent> {
+    switch (event.type) {
+      case "token":
+        return {
+          ...event,
+          content: await this.filterOutput(event.content, threadId),
+        };
+      case "tool_call":
+        return {
+          ...event,
+          args: await this.filterOutput(event.args, threadId),
+        };
+      case "tool_result": {
+        const content = await this.filterOutput(event.content, threadId);
+        return { ...event, content, result: parseToolResult(content) };
+      }
+      case "final":
+        return {
+          ...event,
+          response: await this.filterOutput(event.response, threadId),
+        };
+      case "delegated":
+        return {
+          ...event,
+          event: await this.filterEvent(event.event, threadId),
+        };
+      default:
+        return event;
+    }
+  }
+
+  // Helper function to report guardrail violations as lifecycle events
+  reportViolations(threadId: string, violations: GuardrailViolation[]) {
+    for (const violation of violations) {
+      this.events.emit("guardrail_violation", {
+        agentId: this.agentId,
+        threadId,
+        violation,
+      });
+    }
+  }
+
+  /**
+   * Streams an executor run, transparently continuing past pauses that only
+   * contain tool calls which don't require approval.
+   */
+  async *streamExecutor(
+    agentExecutor: any,
+    input: any,
+    {
+      threadId = this.threadId,
+      ...options
+    }: { threadId?: string; [key: string]: any } = {}
+  ) {
+    let nextInput = input;
+    const startedAt = Date.now();
+
+    this.events.emit("run_started", { agentId: this.agentId, threadId });
+
     try {
-      // Find out the tools that are required to complete the flow of the message
-      const orchestrationPrompt = new SystemMessage(`
-      You are Axicov Orchestrator, an AI assistant specialized in blockchain and DeFi operations.
-
-      Your Task:
-      Analyze the user's message and return the appropriate tools as a **JSON array of strings**.
-      If the request can be processed with the knowledge provided to you, then return an **empty JSON array []**
-
-      Rules:
-      - Only return the tools in the format: ["tool1", "tool2", ...].  
-      - Do not add any text, explanations, or comments outside the array.
-      - Be complete — include all necessary tools to handle the request, if you're unsure, it's better to include the tool than to leave it out.
-      - If the request cannot be completed with the available tools, return an array describing the unknown tools ["INVALID_TOOL:\${INVALID_TOOL_NAME}"].
-      - If no tools are required to process the request return an empty array [].
-      - If the request can be processed with the knowledge provided to you, then return an empty array []
-
-      Knowledge:
-      ${
-        this.params.toolKnowledge &&
-        this.params.toolKnowledge.length > 0 &&
-        this.params.toolKnowledge
-          .filter((item: string) => item !== "")
-          .map((item: string) => `- ${item}`)
-          .join("\n")
-      }
-
-      Available Tools:
-      ${Object.keys(this.tools)
-        .map((toolName) => `${toolName}: ${this.tools[toolName].description}`)
-        .join("\n")}
-      `);
-
-      const orchestrationResponse = await this.model.invoke([
-        orchestrationPrompt,
-        new HumanMessage(msg.toString()),
-      ]);
-
-      const toolNames: string[] = JSON.parse(
-        orchestrationResponse.content.toString()
+      while (true) {
+        this.usage.assertWithinBudget(threadId);
+
+        const stream = await agentExecutor.stream(nextInput, {
+          ...this.configFor(threadId),
+          ...this.callbacksFor(threadId, "agent"),
+          ...options,
+        });
+
+        for await (const chunk of stream) {
+          yield chunk;
+          // Stop the run between steps once the thread is over budget
+          this.usage.assertWithinBudget(threadId);
+        }
+
+        const pending = await this.getPendingToolCalls(
+          threadId,
+          agentExecutor
+        );
+
+        if (pending.some((toolCall) => toolCall.requiresApproval)) {
+          this.reportViolations(
+            threadId,
+            pending.flatMap((toolCall) =>
+              (toolCall.guardrails || []).map(
+                (reason): GuardrailViolation => ({
+                  guardrail: "toolArguments",
+                  stage: "tool",
+                  action: "requireApproval",
+                  reason,
+                  tool: toolCall.name,
+                  toolCallId: toolCall.id,
+                })
+              )
+            )
+          );
+          this.events.emit("approval_requested", {
+            agentId: this.agentId,
+            threadId,
+            toolCalls: pending,
+          });
+          return;
+        }
+
+        if (pending.length === 0) {
+          const state = await agentExecutor.getState(this.configFor(threadId));
+          const messages: BaseMessage[] = state.values?.messages || [];
+          const lastMessage = messages[messages.length - 1];
+
+          this.events.emit("run_completed", {
+            agentId: this.agentId,
+            threadId,
+            response:
+              lastMessage && isAIMessage(lastMessage)
+                ? extractContent(lastMessage.content)
+                : "",
+            durationMs: Date.now() - startedAt,
+          });
+          return;
+        }
+
+        nextInput = null;
+      }
+    } catch (error: any) {
+      this.events.emit("run_failed", {
+        agentId: this.agentId,
+        threadId,
+        error,
+        durationMs: Date.now() - startedAt,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a message through orchestration and the ReAct loop, yielding typed
+   * events instead of raw LangGraph chunks. Aborting the signal stops the run.
+   * A userId binds the thread to the user whose memories it uses. Guardrail
+   * violations are yielded as they happen; with output guardrails the
+   * response is yielded once filtered instead of token by token, and tool
+   * calls, tool results and delegated events are filtered too.
+   */
+  async *streamMessage(
+    msg: string,
+    {
+      signal,
+      threadId = this.threadId,
+      userId,
+    }: { signal?: AbortSignal; threadId?: string; userId?: string } = {}
+  ): AsyncGenerator<AgentEvent> {
+    let finalResponse = "";
+    let servedBy: string | undefined;
+    const filtersOutput = this.guardrails.output.length > 0;
+    // Violations of the run, tool calls report theirs as they run
+    const violations: GuardrailViolation[] = [];
+    const offViolations = this.on("guardrail_violation", (event) => {
+      if (event.threadId === threadId) {
+        violations.push(event.violation);
+      }
+    });
+    // Helper function to take the violations not yielded yet
+    const guardrailEvents = () =>
+      violations
+        .splice(0)
+        .map((violation): AgentEvent => ({ type: "guardrail", violation }));
+
+    try {
+      const turn = await this.prepareTurn(msg, {
+        threadId,
+        ...(userId ? { userId } : {}),
+      });
+      yield* guardrailEvents();
+      if (turn.blocked) {
+        yield { type: "final", response: turn.response };
+        return;
+      }
+
+      yield {
+        type: "orchestration",
+        tools: turn.tools.map((tool) => tool.name),
+        invalidTools: turn.invalidTools,
+      };
+
+      const stream = this.streamExecutor(
+        turn.agentExecutor,
+        turn.input,
+        {
+          threadId,
+          streamMode: ["updates", "messages", "custom"],
+          ...(signal ? { signal } : {}),
+        }
       );
 
-      // const agent = createReactAgent({
-      //   llm: this.model,
-      //   tools: toolNames.map((name) => this.tools[name]) || [],
-      //   checkpointSaver: this.checkPointSaver,
-      // });
+      for await (const [mode, chunk] of stream) {
+        if (mode === "messages") {
+          const [message, metadata] = chunk;
 
-      return toolNames.map((name) => this.tools[name]) || [];
-    } catch (err) {
-      console.error("Error in orchestration:", err);
+          // Token deltas of the ReAct model
+          if (
+            metadata?.langgraph_node === "agent" &&
+            (isAIMessageChunk(message) || isAIMessage(message))
+          ) {
+            const content = extractContent(message.content);
+            if (content && !filtersOutput) {
+              yield { type: "token", content };
+            }
+          }
+        } else if (mode === "updates") {
+          if (chunk.agent?.messages) {
+            const lastMessage =
+              chunk.agent.messages[chunk.agent.messages.length - 1];
+
+            if (lastMessage.content) {
+              finalResponse = extractContent(lastMessage.content);
+            }
+            // Set by FallbackChatModel
+            if (lastMessage.response_metadata?.servedBy) {
+              servedBy = lastMessage.response_metadata.servedBy;
+            }
+
+            for (const toolCall of lastMessage.tool_calls || []) {
+              yield await this.filterEvent(
+                {
+                  type: "tool_call",
+                  id: toolCall.id,
+                  name: toolCall.name,
+                  args: toolCall.args,
+                },
+                threadId
+              );
+            }
+          }
+
+          for (const toolMessage of chunk.tools?.messages || []) {
+            const content = extractContent(toolMessage.content);
+
+            yield await this.filterEvent(
+              {
+                type: "tool_result",
+                id: toolMessage.tool_call_id,
+                name: toolMessage.name,
+                content,
+                result: parseToolResult(content),
+              },
+              threadId
+            );
+          }
+        } else if (mode === "custom" && chunk?.type === "delegated") {
+          // Events of the agents the tools handed tasks to
+          yield await this.filterEvent(chunk, threadId);
+        }
+
+        yield* guardrailEvents();
+      }
+
+      const pendingApproval = await this.getPendingApproval(threadId);
+
+      if (filtersOutput && finalResponse && !pendingApproval) {
+        finalResponse = (await this.filterResponse(finalResponse, threadId))
+          .text;
+        yield { type: "token", content: finalResponse };
+      }
+      yield* guardrailEvents();
+
+      yield {
+        type: "final",
+        response: finalResponse,
+        ...(servedBy ? { model: servedBy } : {}),
+        ...(pendingApproval ? { pendingApproval } : {}),
+      };
+    } catch (error: any) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      this.logger.error("Stream message error:", error);
+      yield {
+        type: "error",
+        error: error.message || "Failed to process message",
+      };
+    } finally {
+      offViolations();
+    }
+  }
+
+  async getPendingToolCalls(
+    threadId: string = this.threadId,
+    agentExecutor: any = this.createExecutor(Object.values(this.tools))
+  ): Promise<PendingToolCall[]> {
+    const state = await agentExecutor.getState(this.configFor(threadId));
+
+    if (!state.next?.includes("tools")) {
       return [];
     }
+
+    const messages = state.values?.messages || [];
+    const lastMessage = messages[messages.length - 1];
+
+    return (lastMessage?.tool_calls || []).map((toolCall: any) => {
+      const guardrails = this.guardrails
+        .checkToolCall(toolCall.name, toolCall.args)
+        .filter((violation) => violation.action === "requireApproval")
+        .map((violation) => violation.reason);
+
+      return {
+        id: toolCall.id,
+        name: toolCall.name,
+        args: toolCall.args,
+        requiresApproval:
+          this.toolSchemas[toolCall.name]?.requiresApproval ||
+          guardrails.length > 0,
+        ...(guardrails.length > 0 ? { guardrails } : {}),
+      };
+    });
+  }
+
+  async getPendingApproval(
+    threadId: string = this.threadId
+  ): Promise<PendingApproval | null> {
+    const toolCalls = await this.getPendingToolCalls(threadId);
+
+    if (!toolCalls.some((toolCall) => toolCall.requiresApproval)) {
+      return null;
+    }
+
+    return {
+      threadId,
+      toolCalls: await this.filterOutput(toolCalls, threadId, {
+        report: false,
+      }),
+    };
+  }
+
+  /**
+   * Approves the pending tool calls, optionally replacing their arguments
+   * (keyed by tool call id). Returns the executor to resume with a null input.
+   */
+  async approve(
+    editedArgs?: { [toolCallId: string]: Record<string, any> },
+    threadId: string = this.threadId
+  ) {
+    const config = this.configFor(threadId);
+    const agentExecutor = this.createExecutor(
+      Object.values(this.tools),
+      await this.renderPrompt("agent", { threadId })
+    );
+    const pending = await this.getPendingToolCalls(threadId, agentExecutor);
+
+    if (pending.length === 0) {
+      throw new Error("No tool calls are awaiting approval");
+    }
+
+    if (editedArgs && Object.keys(editedArgs).length > 0) {
+      const state = await agentExecutor.getState(config);
+      const messages = state.values.messages;
+      const lastMessage = messages[messages.length - 1];
+
+      await agentExecutor.updateState(
+        config,
+        {
+          messages: [
+            new AIMessage({
+              id: lastMessage.id,
+              content: lastMessage.content,
+              tool_calls: lastMessage.tool_calls.map((toolCall: any) => ({
+                ...toolCall,
+                args: editedArgs[toolCall.id] ?? toolCall.args,
+              })),
+            }),
+          ],
+        },
+        "agent"
+      );
+    }
+
+    return agentExecutor;
+  }
+
+  /**
+   * Rejects the pending tool calls by answering each of them with a
+   * rejection message. Returns the executor to resume with a null input.
+   */
+  async reject(reason?: string, threadId: string = this.threadId) {
+    const agentExecutor = this.createExecutor(
+      Object.values(this.tools),
+      await this.renderPrompt("agent", { threadId })
+    );
+    const pending = await this.getPendingToolCalls(threadId, agentExecutor);
+
+    if (pending.length === 0) {
+      throw new Error("No tool calls are awaiting approval");
+    }
+
+    await agentExecutor.updateState(
+      this.configFor(threadId),
+      {
+        messages: pending.map(
+          (toolCall) =>
+            new ToolMessage({
+              tool_call_id: toolCall.id,
+              name: toolCall.name,
+              content: `Tool call rejected by the user${
+                reason ? `: ${reason}` : ""
+              }`,
+            })
+        ),
+      },
+      "tools"
+    );
+
+    return agentExecutor;
+  }
+
+  /**
+   * Reads the thread's messages, oldest first, with the time each message
+   * was first checkpointed
+   */
+  async getHistory({
+    offset = 0,
+    limit = 50,
+    threadId = this.threadId,
+  }: { offset?: number; limit?: number; threadId?: string } = {}): Promise<{
+    total: number;
+    messages: HistoryMessage[];
+  }> {
+    const config = this.configFor(threadId);
+    const agentExecutor = this.createExecutor(Object.values(this.tools));
+
+    const snapshots: any[] = [];
+    for await (const snapshot of agentExecutor.getStateHistory(config)) {
+      snapshots.push(snapshot);
+    }
+
+    // History is listed newest first, walk it from the oldest checkpoint
+    const timestamps = new Map<string, string>();
+    snapshots.reverse().forEach((snapshot) =>
+      (snapshot.values?.messages || []).forEach((message: BaseMessage) => {
+        if (message.id && !timestamps.has(message.id)) {
+          timestamps.set(message.id, snapshot.createdAt);
+        }
+      })
+    );
+
+    const state = await agentExecutor.getState(config);
+    const messages: BaseMessage[] = state.values?.messages || [];
+
+    return {
+      total: messages.length,
+      messages: await this.filterOutput(
+        messages
+          .slice(offset, offset + limit)
+          .map((message) =>
+            toHistoryMessage(
+              message,
+              message.id ? timestamps.get(message.id) : undefined
+            )
+          ),
+        threadId,
+        { report: false }
+      ),
+    };
+  }
+
+  async listCheckpoints({
+    limit = 50,
+    threadId = this.threadId,
+  }: { limit?: number; threadId?: string } = {}): Promise<
+    CheckpointSummary[]
+  > {
+    const agentExecutor = this.createExecutor(Object.values(this.tools));
+    const checkpoints: CheckpointSummary[] = [];
+
+    for await (const snapshot of agentExecutor.getStateHistory(
+      this.configFor(threadId),
+      {
+        limit,
+      }
+    )) {
+      checkpoints.push({
+        checkpointId: snapshot.config.configurable?.checkpoint_id,
+        createdAt: snapshot.createdAt as string,
+        messageCount: snapshot.values?.messages?.length || 0,
+        next: [...snapshot.next],
+      });
+    }
+
+    return checkpoints;
+  }
+
+  /**
+   * Removes every message from the thread while keeping the agent and the
+   * checkpoint history
+   *
+   * @returns number of removed messages
+   */
+  async clearHistory(threadId: string = this.threadId) {
+    const config = this.configFor(threadId);
+    const agentExecutor = this.createExecutor(Object.values(this.tools));
+    const state = await agentExecutor.getState(config);
+    const messages: BaseMessage[] = state.values?.messages || [];
+
+    if (messages.length === 0) {
+      return 0;
+    }
+
+    await agentExecutor.updateState(
+      config,
+      {
+        messages: messages.map(
+          (message) => new RemoveMessage({ id: message.id as string })
+        ),
+      },
+      "tools"
+    );
+
+    return messages.length;
+  }
+
+  /**
+   * Copies a thread's messages at a checkpoint (latest by default) into a
+   * new, empty thread of this agent, e.g. for "what if" branches
+   *
+   * @returns number of copied messages
+   */
+  async forkThread(
+    newThreadId: string,
+    {
+      threadId = this.threadId,
+      checkpointId,
+    }: { threadId?: string; checkpointId?: string } = {}
+  ) {
+    const agentExecutor = this.createExecutor(Object.values(this.tools));
+    const config = this.configFor(threadId);
+    const state = await agentExecutor.getState(
+      checkpointId
+        ? {
+            configurable: {
+              ...config.configurable,
+              checkpoint_id: checkpointId,
+            },
+          }
+        : config
+    );
+
+    if (checkpointId && !state.createdAt) {
+      throw new Error(`Checkpoint ${checkpointId} not found`);
+    }
+
+    const messages: BaseMessage[] = state.values?.messages || [];
+    const newConfig = this.configFor(newThreadId);
+    const newState = await agentExecutor.getState(newConfig);
+
+    if (newState.values?.messages?.length > 0) {
+      throw new Error(`Thread ${newThreadId} already has messages`);
+    }
+
+    if (messages.length > 0) {
+      const lastMessage = messages[messages.length - 1];
+
+      // Continue from the node that would have produced the last message
+      await agentExecutor.updateState(
+        newConfig,
+        { messages },
+        isAIMessage(lastMessage) ? "agent" : "tools"
+      );
+    }
+
+    return messages.length;
+  }
+
+  /**
+   * Selects the tools needed for a message using the agent's router
+   *
+   * @returns the selected tools and any unmet INVALID_TOOL requests
+   */
+  async orchestrate(
+    msg: string,
+    threadId: string = this.threadId
+  ): Promise<{ tools: toolType[]; invalidTools: string[] }> {
+    this.usage.assertWithinBudget(threadId);
+    const startedAt = Date.now();
+
+    try {
+      const { tools, invalidTools, fallback } = await this.router.route(
+        msg,
+        this,
+        {
+          ...this.configFor(threadId),
+          ...this.callbacksFor(threadId, "orchestrator"),
+        }
+      );
+      const selected = tools.filter((name) => this.tools[name]);
+
+      this.events.emit("orchestrated", {
+        agentId: this.agentId,
+        threadId,
+        message: msg,
+        router: this.router.name,
+        tools: selected,
+        invalidTools,
+        durationMs: Date.now() - startedAt,
+        ...(fallback ? { fallback } : {}),
+      });
+
+      return {
+        tools: selected.map((name) => this.tools[name] as toolType),
+        invalidTools,
+      };
+    } catch (err) {
+      this.logger.error("Error in orchestration:", err);
+      return { tools: [], invalidTools: [] };
+    }
   }
 }
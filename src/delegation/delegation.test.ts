@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectEvents, createTestAgent, fakeTool } from "../testing";
+import { AgentLifecycleEvents } from "../types";
+import { createAgentTool } from ".";
+
+test("runs a task on a sub-thread of a specialist agent", async () => {
+  const { agent: pricing, model: pricingModel } = await createTestAgent({
+    agentId: "pricing",
+    responses: [
+      '["getPrices"]',
+      { toolCalls: [{ name: "getPrices", args: { item: "apples" } }] },
+      "Apples cost 3.99",
+    ],
+    tools: [fakeTool({ name: "getPrices", result: "3.99" })],
+  });
+  const { agent: supervisor } = await createTestAgent({
+    agentId: "supervisor",
+    responses: [
+      '["pricing_agent"]',
+      {
+        toolCalls: [
+          {
+            id: "delegate_1",
+            name: "pricing_agent",
+            args: { task: "Price of apples" },
+          },
+        ],
+      },
+      "Apples cost 3.99",
+    ],
+    tools: [createAgentTool(pricing, { name: "pricing_agent", history: 1 })],
+  });
+
+  const delegations: AgentLifecycleEvents["delegated"][] = [];
+  supervisor.on("delegated", (event) => void delegations.push(event));
+
+  const events = await collectEvents(
+    supervisor.streamMessage("What do apples cost?", { threadId: "t1" })
+  );
+
+  // The specialist's events are streamed as they happen
+  const delegated = events.filter((event) => event.type === "delegated");
+  assert.deepEqual(
+    delegated.map(
+      (event) =>
+        event.type === "delegated" && [
+          event.agent,
+          event.toolCallId,
+          event.event.type,
+        ]
+    ),
+    [
+      ["pricing", "delegate_1", "orchestration"],
+      ["pricing", "delegate_1", "tool_call"],
+      ["pricing", "delegate_1", "tool_result"],
+      ["pricing", "delegate_1", "token"],
+      ["pricing", "delegate_1", "final"],
+    ]
+  );
+
+  const toolResult = events.find((event) => event.type === "tool_result");
+  const nestedCalls = [
+    {
+      id: "call_1",
+      name: "getPrices",
+      args: { item: "apples" },
+      result: { ok: true, data: "3.99" },
+    },
+  ];
+  assert.deepEqual(toolResult?.type === "tool_result" && toolResult.result, {
+    ok: true,
+    data: {
+      agent: "pricing",
+      threadId: "supervisor:t1:pricing_agent",
+      response: "Apples cost 3.99",
+      toolCalls: nestedCalls,
+    },
+  });
+
+  // The task carries the latest message of the supervisor's thread
+  const task = pricingModel.calls[1]!.at(-1)!;
+  assert.equal(
+    task.content,
+    "Conversation so far:\nUser: What do apples cost?\n\nTask: Price of apples"
+  );
+
+  assert.equal(delegations.length, 1);
+  assert.equal(delegations[0]?.depth, 1);
+  assert.equal(delegations[0]?.toolCallId, "delegate_1");
+  assert.deepEqual(delegations[0]?.toolCalls, nestedCalls);
+  assert.equal(
+    (await pricing.getHistory({ threadId: "supervisor:t1:pricing_agent" }))
+      .total,
+    4
+  );
+});
+
+test("refuses delegation loops and chains deeper than maxDepth", async () => {
+  const { agent: first } = await createTestAgent({
+    agentId: "first",
+    responses: [
+      '["ask_second"]',
+      { toolCalls: [{ name: "ask_second", args: { task: "Ask first" } }] },
+      "Done",
+    ],
+  });
+  const { agent: second } = await createTestAgent({
+    agentId: "second",
+    responses: [
+      '["ask_first"]',
+      { toolCalls: [{ name: "ask_first", args: { task: "Loop" } }] },
+      "Couldn't ask first",
+    ],
+  });
+  await first.addTools([createAgentTool(second, { name: "ask_second" })]);
+  await second.addTools([createAgentTool(first, { name: "ask_first" })]);
+
+  const events = await collectEvents(first.streamMessage("Go"));
+  const nestedResult = events.find(
+    (event) =>
+      event.type === "delegated" && event.event.type === "tool_result"
+  );
+  assert.deepEqual(
+    nestedResult?.type === "delegated" &&
+      nestedResult.event.type === "tool_result" &&
+      nestedResult.event.result,
+    {
+      ok: false,
+      error: {
+        code: "TOOL_ERROR",
+        message: "Delegation loop: first -> second -> first",
+        retryable: false,
+      },
+    }
+  );
+
+  const [tool] = (
+    await createAgentTool(second, { name: "ask_second", maxDepth: 0 })(first)
+  ).tools;
+  assert.deepEqual(JSON.parse(await tool!.invoke({ task: "Hi" })), {
+    ok: false,
+    error: {
+      code: "TOOL_ERROR",
+      message: "Delegation depth limit of 0 reached",
+      retryable: false,
+    },
+  });
+});
@@ -0,0 +1,283 @@
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import { z } from "zod";
+import type { Agent } from "../agent";
+import {
+  AgentEvent,
+  AgentToolConfig,
+  DelegatedToolCall,
+  ToolRegistryFunction,
+  Tools,
+} from "../types";
+import { ToolPolicyRunner } from "../utils/toolPolicy";
+import { serializeToolResult, toToolError } from "../utils/toolResult";
+
+const DEFAULT_MAX_DEPTH = 3;
+
+const taskSchema = z.object({
+  task: z
+    .string()
+    .describe("The task for the agent, with every detail it needs"),
+});
+
+// Agents of the delegation chain running each sub-thread, by agent and thread
+const delegationChains = new Map<string, string[]>();
+
+// Latest run of each sub-thread, so calls on the same sub-thread queue up
+const subThreadRuns = new Map<string, Promise<unknown>>();
+
+const threadKey = (agentId: string, threadId: string) =>
+  `${agentId}\u0000${threadId}`;
+
+// Helper function to run the calls of a sub-thread one at a time
+const queued = <T>(key: string, run: () => Promise<T>) => {
+  const next = (subThreadRuns.get(key) || Promise.resolve())
+    .catch(() => undefined)
+    .then(run);
+  subThreadRuns.set(key, next);
+  next
+    .finally(() => {
+      if (subThreadRuns.get(key) === next) {
+        subThreadRuns.delete(key);
+      }
+    })
+    .catch(() => undefined);
+
+  return next;
+};
+
+// Helper function to prefix a task with the parent's conversation
+const withHistory = async (
+  agent: Agent,
+  threadId: string,
+  task: string,
+  history: AgentToolConfig["history"] = "none"
+) => {
+  if (history === "none") {
+    return task;
+  }
+
+  const { messages } = await agent.getHistory({
+    threadId,
+    limit: Number.MAX_SAFE_INTEGER,
+  });
+  const conversation = messages.filter(
+    (message) =>
+      (message.role === "human" || message.role === "ai") && message.content
+  );
+  const shared =
+    history === "all"
+      ? conversation
+      : history > 0
+      ? conversation.slice(-history)
+      : [];
+
+  if (shared.length === 0) {
+    return task;
+  }
+  return `Conversation so far:\n${shared
+    .map(
+      (message) =>
+        `${message.role === "human" ? "User" : "Assistant"}: ${
+          message.content
+        }`
+    )
+    .join("\n")}\n\nTask: ${task}`;
+};
+
+// Helper function to run a task on a sub-thread of the child, collecting its
+// tool calls
+const runTask = async (
+  child: Agent,
+  message: string,
+  {
+    threadId,
+    signal,
+    toolCalls,
+    onEvent,
+  }: {
+    threadId: string;
+    signal: AbortSignal;
+    toolCalls: DelegatedToolCall[];
+    onEvent: (event: AgentEvent) => void;
+  }
+) => {
+  let final: Extract<AgentEvent, { type: "final" }> | undefined;
+
+  for await (const event of child.streamMessage(message, {
+    threadId,
+    signal,
+  })) {
+    onEvent(event);
+
+    if (event.type === "tool_call") {
+      toolCalls.push({ id: event.id, name: event.name, args: event.args });
+    } else if (event.type === "tool_result") {
+      const toolCall = toolCalls.find((call) => call.id === event.id);
+      if (toolCall) {
+        toolCall.result = event.result;
+      }
+    } else if (event.type === "error") {
+      throw new Error(event.error);
+    } else if (event.type === "final") {
+      final = event;
+    }
+  }
+
+  if (!final) {
+    throw new Error(`Task for ${child.agentId} was aborted`);
+  }
+
+  // Nobody can approve the child's calls, answer them so the sub-thread
+  // isn't left paused
+  if (final.pendingApproval) {
+    const names = final.pendingApproval.toolCalls
+      .filter((toolCall) => toolCall.requiresApproval)
+      .map((toolCall) => toolCall.name);
+    await child.reject("Delegated tasks can't wait for approval", threadId);
+    throw new Error(
+      `${child.agentId} needs approval for ${names.join(
+        ", "
+      )}, which delegated tasks can't request`
+    );
+  }
+
+  return {
+    agent: child.agentId,
+    threadId,
+    response: final.response,
+    toolCalls,
+  };
+};
+
+/**
+ * Wraps an initialized agent as a tool of other agents. Each call runs the
+ * agent's own orchestration and tools on a checkpointed sub-thread of the
+ * calling thread, so follow-up tasks keep the child's context. The child's
+ * events are streamed as `delegated` events of the parent, and its tool calls
+ * are returned with its response
+ *
+ * @param child agent the tasks are handed to
+ * @param config tool name, history sharing, depth limit, approval and policy
+ * @returns A registry-compatible tool exporter function
+ */
+export function createAgentTool(
+  child: Agent,
+  config: AgentToolConfig
+): ToolRegistryFunction {
+  const maxDepth = config.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const description =
+    config.description ||
+    `Hands a task to the ${
+      child.params?.name || child.agentId
+    } agent, which can use: ${Object.keys(child.tools).join(", ") || "none"}`;
+
+  return async (agent: Agent) => {
+    const schema: Tools = {
+      [config.name]: {
+        name: config.name,
+        description,
+        schema: taskSchema,
+        requiresApproval: config.requiresApproval,
+        policy: config.policy,
+      },
+    };
+    const policyRunner = new ToolPolicyRunner(config.name, config.policy);
+
+    const tool = new DynamicStructuredTool({
+      name: config.name,
+      description,
+      schema: taskSchema,
+      func: async ({ task }, _runManager, runConfig) => {
+        const threadId: string =
+          runConfig?.configurable?.thread_id ?? agent.threadId;
+        // Set by LangGraph: the custom stream writer and the model's call
+        const { writer, toolCall } = (runConfig || {}) as {
+          writer?: (chunk: AgentEvent) => void;
+          toolCall?: { id?: string };
+        };
+        const toolCallId = toolCall?.id;
+        const chain = delegationChains.get(
+          threadKey(agent.agentId, threadId)
+        ) || [agent.agentId];
+        const childThreadId = `${agent.agentId}:${threadId}:${config.name}`;
+        const childKey = threadKey(child.agentId, childThreadId);
+        const toolCalls: DelegatedToolCall[] = [];
+        const startedAt = Date.now();
+
+        // Helper function to report the delegation to the parent's listeners
+        const emitDelegated = (error?: Error) =>
+          agent.events.emit("delegated", {
+            agentId: agent.agentId,
+            threadId,
+            ...(toolCallId ? { toolCallId } : {}),
+            childAgentId: child.agentId,
+            childThreadId,
+            depth: chain.length,
+            toolCalls,
+            durationMs: Date.now() - startedAt,
+            ...(error ? { error } : {}),
+          });
+
+        try {
+          if (chain.includes(child.agentId)) {
+            throw new Error(
+              `Delegation loop: ${[...chain, child.agentId].join(" -> ")}`
+            );
+          }
+          if (chain.length > maxDepth) {
+            throw new Error(`Delegation depth limit of ${maxDepth} reached`);
+          }
+
+          const message = await withHistory(
+            agent,
+            threadId,
+            task,
+            config.history
+          );
+
+          const data = await policyRunner.run(
+            (context) =>
+              queued(childKey, async () => {
+                toolCalls.length = 0;
+                delegationChains.set(childKey, [...chain, child.agentId]);
+
+                try {
+                  return await runTask(child, message, {
+                    threadId: childThreadId,
+                    signal: context.signal,
+                    toolCalls,
+                    // Streamed by the parent's streamMessage
+                    onEvent: (event) =>
+                      writer?.({
+                        type: "delegated",
+                        agent: child.agentId,
+                        ...(toolCallId ? { toolCallId } : {}),
+                        event,
+                      }),
+                  });
+                } finally {
+                  delegationChains.delete(childKey);
+                }
+              }),
+            {
+              threadId,
+              ...(runConfig?.signal ? { signal: runConfig.signal } : {}),
+            }
+          );
+
+          emitDelegated();
+          return serializeToolResult({ ok: true, data });
+        } catch (error: any) {
+          agent.logger.error(`Error executing tool ${config.name}:`, error);
+          emitDelegated(error);
+          return serializeToolResult({
+            ok: false,
+            error: toToolError(error),
+          });
+        }
+      },
+    });
+
+    return { tools: [tool], schema };
+  };
+}
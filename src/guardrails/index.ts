@@ -0,0 +1,392 @@
+import { redactSecrets } from "../secrets";
+import {
+  GuardrailConfig,
+  GuardrailContext,
+  GuardrailStage,
+  GuardrailViolation,
+  PiiType,
+  TextGuardrail,
+  ToolArgumentPolicy,
+} from "../types";
+
+export const DEFAULT_BLOCKED_RESPONSE = "Sorry, I can't help with that.";
+
+const PII_TYPES: PiiType[] = ["email", "phone", "creditCard", "ssn", "secret"];
+
+// Phrasings of common attempts to override an agent's instructions
+const INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|system|all)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions)\b/i,
+  /\b(reveal|show|print|repeat|leak)\b[^.\n]{0,30}\b(system|hidden|initial|original)\s+(prompt|instructions?|message)\b/i,
+  /\byou are (now|no longer)\b[^.\n]{0,40}\b(unrestricted|unfiltered|jailbroken|bound by)\b/i,
+  /\b(developer|god|jailbreak|DAN)\s+mode\b/i,
+  /<\/?\s*(system|im_start|im_end)\s*>|\[\/?(INST|SYS)\]/i,
+];
+
+const PII_PATTERNS: Record<Exclude<PiiType, "secret">, RegExp> = {
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  // Only grouped like a card (4-4-4-4, 4-4-4-4-3 or 4-6-5), so amounts and
+  // token ids aren't redacted. Matched before phone numbers, which share
+  // their digit groups
+  creditCard:
+    /\b(?:\d{4}([ -])\d{4}\1\d{4}\1\d{4}(?:\1\d{3})?|\d{4}([ -])\d{6}\2\d{5})\b/g,
+  ssn: /\b\d{3}-\d{2}-\d{4}\b/g,
+  phone:
+    /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)|\d{2,4})[ .-]\d{3,4}[ .-]\d{3,4}(?!\w)/g,
+};
+
+const PRIVATE_KEY_PATTERN =
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g;
+
+// Helper function to check a card number with the Luhn checksum
+const isCardNumber = (match: string) => {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+};
+
+// Helper function to escape a phrase for a regular expression
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Blocks messages that try to override the agent's instructions, e.g.
+ * "ignore your previous instructions" or "reveal your system prompt"
+ */
+export function promptInjectionFilter(): TextGuardrail {
+  return {
+    name: "promptInjection",
+    check: (text) =>
+      INJECTION_PATTERNS.some((pattern) => pattern.test(text))
+        ? {
+            action: "block",
+            reason: "The message tries to override the agent's instructions",
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Blocks messages mentioning any of the topics, matched as whole words
+ * regardless of case
+ *
+ * @param topics words or phrases, e.g. ["medical advice", "gambling"]
+ */
+export function blockedTopicsFilter(topics: string[]): TextGuardrail {
+  const patterns = topics.map(
+    (topic) =>
+      [topic, new RegExp(`\\b${escapeRegExp(topic.trim())}\\b`, "i")] as const
+  );
+
+  return {
+    name: "blockedTopics",
+    check: (text) => {
+      const topic = patterns.find(([, pattern]) => pattern.test(text))?.[0];
+
+      return topic
+        ? { action: "block", reason: `The message mentions "${topic}"` }
+        : undefined;
+    },
+  };
+}
+
+/**
+ * Redacts personal data and credentials: emails, phone numbers, card numbers,
+ * US social security numbers, and secrets (resolved secrets, API keys and
+ * private keys)
+ *
+ * @param types kinds of data to redact, all by default
+ */
+export function piiRedactionFilter(
+  types: PiiType[] = PII_TYPES
+): TextGuardrail {
+  return {
+    name: "piiRedaction",
+    check: (text) => {
+      const found: PiiType[] = [];
+      let redacted = text;
+
+      // Helper function to replace the matches of a kind of data
+      const replace = (
+        type: PiiType,
+        pattern: RegExp,
+        label: string,
+        accept: (match: string) => boolean = () => true
+      ) => {
+        redacted = redacted.replace(pattern, (match) => {
+          if (!accept(match)) {
+            return match;
+          }
+          if (!found.includes(type)) {
+            found.push(type);
+          }
+          return label;
+        });
+      };
+
+      if (types.includes("secret")) {
+        replace("secret", PRIVATE_KEY_PATTERN, "[REDACTED]");
+        const withoutSecrets = redactSecrets(redacted);
+        if (withoutSecrets !== redacted) {
+          found.push("secret");
+          redacted = withoutSecrets;
+        }
+      }
+      if (types.includes("email")) {
+        replace("email", PII_PATTERNS.email, "[EMAIL]");
+      }
+      if (types.includes("creditCard")) {
+        replace("creditCard", PII_PATTERNS.creditCard, "[CARD]", isCardNumber);
+      }
+      if (types.includes("ssn")) {
+        replace("ssn", PII_PATTERNS.ssn, "[SSN]");
+      }
+      if (types.includes("phone")) {
+        replace("phone", PII_PATTERNS.phone, "[PHONE]");
+      }
+
+      return found.length > 0
+        ? {
+            action: "redact",
+            reason: `Redacted ${found.join(", ")}`,
+            text: redacted,
+          }
+        : undefined;
+    },
+  };
+}
+
+// Helper function to read a dotted path such as "recipient.address"
+const readArgument = (args: Record<string, any>, path: string) =>
+  path
+    .split(".")
+    .reduce<any>(
+      (value, key) => (value == null ? undefined : value[key]),
+      args
+    );
+
+// Helper function to explain why a value breaks a policy, if it does
+const policyBreak = (
+  policy: ToolArgumentPolicy,
+  value: any,
+  pattern: RegExp | undefined
+) => {
+  const name = policy.argument;
+
+  // A call leaving out or moving the argument can't get past the constraints,
+  // only deny lists accept it
+  if (value === undefined) {
+    return policy.allow ||
+      policy.min !== undefined ||
+      policy.max !== undefined ||
+      policy.pattern !== undefined
+      ? `${name} is required`
+      : undefined;
+  }
+
+  if (policy.min !== undefined || policy.max !== undefined) {
+    const number = Number(value);
+    if (typeof value === "boolean" || value === "" || Number.isNaN(number)) {
+      return `${name} must be a number`;
+    }
+    if (policy.min !== undefined && number < policy.min) {
+      return `${name} must be at least ${policy.min}`;
+    }
+    if (policy.max !== undefined && number > policy.max) {
+      return `${name} must be at most ${policy.max}`;
+    }
+  }
+  if (policy.allow && !policy.allow.includes(value)) {
+    return `${name} must be one of the allowed values`;
+  }
+  if (policy.deny?.includes(value)) {
+    return `${name} can't be ${JSON.stringify(value)}`;
+  }
+  if (pattern && (typeof value !== "string" || !pattern.test(value))) {
+    return `${name} must match ${policy.pattern}`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Filters between the user, the model and the tools of an agent: input
+ * filters run on each message before orchestration, output filters on each
+ * response, and tool argument policies on each tool call
+ */
+export class Guardrails {
+  readonly input: TextGuardrail[];
+  readonly output: TextGuardrail[];
+  readonly toolArguments: ToolArgumentPolicy[];
+  readonly blockedResponse: string;
+  // Compiled patterns of the tool argument policies
+  private readonly patterns: Map<ToolArgumentPolicy, RegExp>;
+
+  constructor(config: GuardrailConfig = {}) {
+    this.input = [
+      ...(config.promptInjection ? [promptInjectionFilter()] : []),
+      ...(config.blockedTopics?.length
+        ? [blockedTopicsFilter(config.blockedTopics)]
+        : []),
+      ...(config.input || []),
+    ];
+    this.output = [
+      ...(config.redactPii
+        ? [
+            piiRedactionFilter(
+              config.redactPii === true ? PII_TYPES : config.redactPii
+            ),
+          ]
+        : []),
+      ...(config.output || []),
+    ];
+    this.toolArguments = config.toolArguments || [];
+    this.patterns = new Map();
+    this.toolArguments.forEach((policy) => {
+      if (policy.pattern === undefined) {
+        return;
+      }
+      try {
+        this.patterns.set(policy, new RegExp(policy.pattern));
+      } catch (error: any) {
+        throw new Error(
+          `Invalid pattern for ${policy.tool} argument ${policy.argument}: ${error.message}`
+        );
+      }
+    });
+    this.blockedResponse = config.blockedResponse || DEFAULT_BLOCKED_RESPONSE;
+  }
+
+  /**
+   * Runs the input or output filters in order. Redactions carry over to the
+   * next filter and a block stops the pipeline
+   *
+   * @returns the filtered text, whether it was blocked and the violations
+   */
+  async check(
+    stage: "input" | "output",
+    text: string,
+    context: GuardrailContext
+  ) {
+    const violations: GuardrailViolation[] = [];
+    let filtered = text;
+
+    for (const guardrail of stage === "input" ? this.input : this.output) {
+      const result = await guardrail.check(filtered, context);
+      if (!result) {
+        continue;
+      }
+
+      violations.push({
+        guardrail: guardrail.name,
+        stage,
+        action: result.action,
+        reason: result.reason,
+      });
+      if (result.action === "block") {
+        return { text: this.blockedResponse, blocked: true, violations };
+      }
+      filtered = result.text;
+    }
+
+    return { text: filtered, blocked: false, violations };
+  }
+
+  /**
+   * Runs the filters of a stage on every string nested in arrays and plain
+   * objects, e.g. the arguments or result of a tool call. Blocked strings are
+   * replaced by the blocked response
+   *
+   * @returns a filtered copy and the violations
+   */
+  async checkValue<T>(
+    stage: "input" | "output",
+    value: T,
+    context: GuardrailContext
+  ): Promise<{ value: T; violations: GuardrailViolation[] }> {
+    const violations: GuardrailViolation[] = [];
+
+    // Helper function to filter a nested value
+    const walk = async (item: any): Promise<any> => {
+      if (typeof item === "string") {
+        const result = await this.check(stage, item, context);
+        violations.push(...result.violations);
+        return result.text;
+      }
+      if (Array.isArray(item)) {
+        return Promise.all(item.map(walk));
+      }
+      if (
+        typeof item === "object" &&
+        item !== null &&
+        [Object.prototype, null].includes(Object.getPrototypeOf(item))
+      ) {
+        return Object.fromEntries(
+          await Promise.all(
+            Object.entries(item).map(async ([key, field]) => [
+              key,
+              await walk(field),
+            ])
+          )
+        );
+      }
+      return item;
+    };
+
+    return { value: await walk(value), violations };
+  }
+
+  /**
+   *
+   * @param tool tool name
+   * @param args arguments of the call
+   * @returns the violations of the tool argument policies
+   */
+  checkToolCall(tool: string, args: Record<string, any>) {
+    return this.toolArguments.flatMap((policy): GuardrailViolation[] => {
+      const broken =
+        policy.tool === tool || policy.tool === "*"
+          ? policyBreak(
+              policy,
+              readArgument(args || {}, policy.argument),
+              this.patterns.get(policy)
+            )
+          : undefined;
+
+      return broken
+        ? [
+            {
+              guardrail: "toolArguments",
+              stage: "tool" as GuardrailStage,
+              action: policy.action || "block",
+              reason: policy.message || broken,
+              tool,
+            },
+          ]
+        : [];
+    });
+  }
+
+  /**
+   *
+   * @returns whether a policy can hold the tool's calls for approval
+   */
+  mayRequireApproval(tool: string) {
+    return this.toolArguments.some(
+      (policy) =>
+        (policy.tool === tool || policy.tool === "*") &&
+        policy.action === "requireApproval"
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AIMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { collectEvents, createTestAgent } from "../testing";
+import { AgentLifecycleEvents, TokenCounter } from "../types";
+import { trimHistory } from ".";
+
+// One token per message keeps the budgets readable
+const countMessages: TokenCounter = (messages) => messages.length;
+
+const MESSAGES = [
+  new HumanMessage("Price of apples?"),
+  new AIMessage({
+    content: "",
+    tool_calls: [
+      { id: "call_1", name: "getPrices", args: {}, type: "tool_call" },
+      { id: "call_2", name: "getStock", args: {}, type: "tool_call" },
+    ],
+  }),
+  new ToolMessage({ tool_call_id: "call_1", content: "3.99" }),
+  new ToolMessage({ tool_call_id: "call_2", content: "12" }),
+  new AIMessage("Apples cost 3.99"),
+];
+
+// The apples turn followed by a short one
+const FOLLOW_UP = [
+  ...MESSAGES,
+  new HumanMessage("And pears?"),
+  new AIMessage("Pears cost 2.49"),
+];
+
+test("trims history without separating tool calls from results", () => {
+  // Helper function to get the contents of the kept messages
+  const kept = (
+    messages: typeof MESSAGES,
+    history: Parameters<typeof trimHistory>[1]
+  ) => trimHistory(messages, history).map((message) => message.content);
+
+  assert.equal(kept(MESSAGES, { strategy: "all" }).length, 5);
+  assert.deepEqual(
+    kept(FOLLOW_UP, {
+      strategy: "tokenBudget",
+      maxTokens: 4,
+      countTokens: countMessages,
+    }),
+    ["And pears?", "Pears cost 2.49"]
+  );
+  // The latest messages are kept even when they're over the budget
+  assert.deepEqual(
+    kept(FOLLOW_UP, { strategy: "tokenBudget", maxTokens: 1 }),
+    ["And pears?", "Pears cost 2.49"]
+  );
+});
+
+test("trimmed history starts on a user message", () => {
+  // A cut inside the tool calling group moves back to the user's question
+  assert.deepEqual(
+    trimHistory(MESSAGES, { strategy: "lastMessages", maxMessages: 3 }).map(
+      (message) => message._getType()
+    ),
+    ["human", "ai", "tool", "tool", "ai"]
+  );
+
+  // Answers left without their question are dropped
+  const kept = trimHistory(FOLLOW_UP, {
+    strategy: "lastMessages",
+    maxMessages: 3,
+  });
+  assert.deepEqual(
+    kept.map((message) => message.content),
+    ["And pears?", "Pears cost 2.49"]
+  );
+});
+
+test("summarizes older messages into a stored summary", async () => {
+  const { agent, model } = await createTestAgent({
+    responses: [
+      "[]",
+      "Hello Ada",
+      "[]",
+      "Noted",
+      "[]",
+      "Ada likes green apples",
+      "Your name is Ada",
+    ],
+    history: {
+      strategy: "summarize",
+      maxTokens: 3,
+      keepTokens: 2,
+      countTokens: countMessages,
+    },
+  });
+  const summarized: AgentLifecycleEvents["history_summarized"][] = [];
+  agent.on("history_summarized", (event) => void summarized.push(event));
+
+  for (const message of ["I'm Ada", "I like green apples", "Who am I?"]) {
+    await collectEvents(agent.streamMessage(message));
+  }
+
+  const summaryCall = model.calls[5]!;
+  assert.equal(summaryCall[1]!.content, "User: I'm Ada\nAssistant: Hello Ada");
+
+  // The model sees the summary in its system prompt and the kept messages
+  const lastCall = model.calls[6]!;
+  assert.match(
+    lastCall[0]!.content as string,
+    /Summary of the earlier conversation:\nAda likes green apples$/
+  );
+  assert.deepEqual(
+    lastCall.slice(1).map((message) => message.content),
+    ["I like green apples", "Noted", "Who am I?"]
+  );
+
+  const { messages } = await agent.getHistory();
+  assert.deepEqual(
+    messages.map((message) => [message.role, message.content]),
+    [
+      ["system", "Ada likes green apples"],
+      ["human", "I like green apples"],
+      ["ai", "Noted"],
+      ["human", "Who am I?"],
+      ["ai", "Your name is Ada"],
+    ]
+  );
+  assert.equal(summarized.length, 1);
+  assert.equal(summarized[0]?.summarizedMessages, 2);
+  assert.equal(summarized[0]?.keptMessages, 2);
+});
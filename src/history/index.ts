@@ -0,0 +1,204 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  BaseMessage,
+  HumanMessage,
+  isAIMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { HistoryConfig, TokenCounter } from "../types";
+import { extractContent } from "../utils/messages";
+
+// Name of the system message holding the summary of a thread's older messages
+export const SUMMARY_MESSAGE_NAME = "conversation_summary";
+
+const DEFAULT_SUMMARY_PROMPT = `Summarize the conversation between a user and an AI assistant below. Keep the facts, names, numbers, decisions, tool results and open questions the assistant needs to continue the conversation. Write the summary only, in the third person.`;
+
+// Per-message overhead of roles and separators
+const MESSAGE_TOKENS = 4;
+
+/**
+ * Estimates the tokens of messages at 4 characters per token, tool calls
+ * included
+ */
+export const estimateTokens: TokenCounter = (messages) =>
+  messages.reduce((total, message) => {
+    const toolCalls = isAIMessage(message) ? message.tool_calls || [] : [];
+    const characters =
+      extractContent(message.content).length +
+      (toolCalls.length > 0 ? JSON.stringify(toolCalls).length : 0);
+
+    return total + MESSAGE_TOKENS + Math.ceil(characters / 4);
+  }, 0);
+
+/**
+ *
+ * @returns whether the message is the stored summary of a thread
+ */
+export const isSummaryMessage = (message: BaseMessage) =>
+  message._getType() === "system" && message.name === SUMMARY_MESSAGE_NAME;
+
+// Helper function to group messages so that an AI message calling tools
+// stays with the tool messages answering it
+const groupMessages = (messages: BaseMessage[]) => {
+  const groups: BaseMessage[][] = [];
+
+  messages.forEach((message) => {
+    const last = groups[groups.length - 1];
+    if (message._getType() === "tool" && last) {
+      last.push(message);
+    } else {
+      groups.push([message]);
+    }
+  });
+
+  return groups;
+};
+
+/**
+ * Selects the latest messages within the limits, without separating tool
+ * calls from their results. The latest group of messages is always kept, and
+ * the selection starts on a user message: messages before the first one in
+ * the window are dropped, or the window moves back to the nearest one when
+ * it has none (e.g. in the middle of a long tool calling run)
+ *
+ * @param messages thread messages, oldest first
+ * @returns the selected messages, oldest first
+ */
+export function selectRecentMessages(
+  messages: BaseMessage[],
+  {
+    maxMessages = Infinity,
+    maxTokens = Infinity,
+    countTokens = estimateTokens,
+  }: {
+    maxMessages?: number;
+    maxTokens?: number;
+    countTokens?: TokenCounter;
+  }
+) {
+  const groups = groupMessages(messages);
+  let start = groups.length;
+  let count = 0;
+  let tokens = 0;
+
+  for (let index = groups.length - 1; index >= 0; index--) {
+    const group = groups[index]!;
+    const groupTokens = countTokens(group);
+
+    if (
+      start < groups.length &&
+      (count + group.length > maxMessages || tokens + groupTokens > maxTokens)
+    ) {
+      break;
+    }
+
+    start = index;
+    count += group.length;
+    tokens += groupTokens;
+  }
+
+  const humans = groups
+    .map((group, index) => (group[0]!._getType() === "human" ? index : -1))
+    .filter((index) => index !== -1);
+  const first =
+    humans.find((index) => index >= start) ??
+    humans.filter((index) => index < start).pop() ??
+    start;
+
+  return groups.slice(first).flat();
+}
+
+/**
+ * Applies a history policy to the messages of a model call
+ *
+ * @param messages thread messages without the summary, oldest first
+ * @param history the agent's history policy
+ * @returns the messages sent to the model
+ */
+export function trimHistory(messages: BaseMessage[], history: HistoryConfig) {
+  const countTokens = history.countTokens || estimateTokens;
+
+  switch (history.strategy) {
+    case "lastMessages":
+      return selectRecentMessages(messages, {
+        maxMessages: history.maxMessages,
+        countTokens,
+      });
+    case "tokenBudget":
+    case "summarize":
+      // Summaries are written between runs, a long run is still trimmed
+      return selectRecentMessages(messages, {
+        maxTokens: history.maxTokens,
+        countTokens,
+      });
+    default:
+      return messages;
+  }
+}
+
+// Helper function to write messages as a plain text transcript
+const toTranscript = (messages: BaseMessage[]) =>
+  messages
+    .flatMap((message) => {
+      const content = extractContent(message.content);
+
+      switch (message._getType()) {
+        case "human":
+          return [`User: ${content}`];
+        case "ai":
+          return [
+            ...(content ? [`Assistant: ${content}`] : []),
+            ...((isAIMessage(message) && message.tool_calls) || []).map(
+              (toolCall) =>
+                `Assistant called ${toolCall.name}(${JSON.stringify(
+                  toolCall.args
+                )})`
+            ),
+          ];
+        case "tool":
+          return [`Result of ${message.name || "tool"}: ${content}`];
+        default:
+          return [`System: ${content}`];
+      }
+    })
+    .join("\n");
+
+/**
+ * Summarizes messages into a text that replaces them in the thread
+ *
+ * @param model model writing the summary
+ * @param messages messages to summarize, oldest first
+ * @param previous summary of the messages before them
+ * @param prompt instructions for the model
+ * @param config run config of the model call, e.g. usage callbacks
+ * @returns the summary
+ */
+export async function summarizeMessages(
+  model: BaseChatModel,
+  messages: BaseMessage[],
+  {
+    previous,
+    prompt = DEFAULT_SUMMARY_PROMPT,
+    config,
+  }: { previous?: string; prompt?: string; config?: RunnableConfig } = {}
+) {
+  const transcript = toTranscript(messages);
+  const response = await model.invoke(
+    [
+      new SystemMessage(prompt),
+      new HumanMessage(
+        previous
+          ? `Summary of the earlier conversation:\n${previous}\n\nConversation since:\n${transcript}`
+          : transcript
+      ),
+    ],
+    config
+  );
+
+  const summary = extractContent(response.content).trim();
+  if (!summary) {
+    throw new Error("The model returned an empty summary");
+  }
+  return summary;
+}
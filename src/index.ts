@@ -2,6 +2,28 @@ import dotenv from "dotenv";
 dotenv.config();
 
 export * from "./agent";
+export * from "./models";
 export * from "./types";
 export * from "./registry";
+export * from "./prompts";
+export * from "./delegation";
+export * from "./guardrails";
+export * from "./history";
+export * from "./knowledge";
+export * from "./lifecycle";
+export * from "./logger";
+export * from "./memory";
+export * from "./mcp";
+export * from "./metrics";
+export * from "./openapi";
+export * from "./router";
+export * from "./secrets";
+export * from "./store";
+export * from "./server/app";
+export * from "./server/auth";
+export * from "./usage";
 export * from "./utils/createTool";
+export * from "./utils/toolPolicy";
+export * from "./utils/toolResult";
+export * from "./testing";
+export * from "./tracing";
@@ -0,0 +1,312 @@
+import { randomUUID } from "crypto";
+import { BM25Index } from "../utils/bm25";
+import {
+  KnowledgeChunk,
+  KnowledgeConfig,
+  KnowledgeDocument,
+  KnowledgeDocumentInput,
+  KnowledgeFormat,
+  KnowledgeSearchResult,
+} from "../types";
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_TOP_K = 5;
+const DEFAULT_MIN_SIMILARITY = 0.3;
+
+// Dampens the weight of the top ranks in reciprocal rank fusion
+const RRF_K = 60;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+// Helper function to pack parts into chunks of at most `size` characters,
+// cutting parts that are longer on their own
+const pack = (parts: string[], size: number, separator: string) => {
+  const chunks: string[] = [];
+  let current = "";
+
+  parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .flatMap((part) => {
+      const pieces: string[] = [];
+      for (let start = 0; start < part.length; start += size) {
+        pieces.push(part.slice(start, start + size));
+      }
+      return pieces;
+    })
+    .forEach((part) => {
+      if (current && current.length + separator.length + part.length > size) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}${separator}${part}` : part;
+    });
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+// Helper function to split plain text on paragraphs
+const chunkText = (text: string, size: number) =>
+  pack(text.split(/\n\s*\n/), size, "\n\n");
+
+// Helper function to split markdown on headings, titling each chunk with the
+// headings above it
+const chunkMarkdown = (text: string, size: number) => {
+  const sections: { headings: string[]; lines: string[] }[] = [
+    { headings: [], lines: [] },
+  ];
+  let headings: string[] = [];
+  let fenced = false;
+
+  text.split("\n").forEach((line) => {
+    if (line.trimStart().startsWith("```")) {
+      fenced = !fenced;
+    }
+
+    const heading = fenced ? null : line.match(HEADING_PATTERN);
+    if (heading) {
+      headings = [...headings.slice(0, heading[1]!.length - 1), heading[2]!];
+      sections.push({ headings: headings.filter(Boolean), lines: [] });
+    } else {
+      sections[sections.length - 1]!.lines.push(line);
+    }
+  });
+
+  return sections.flatMap(({ headings, lines }) =>
+    chunkText(lines.join("\n"), size).map((text) => ({
+      heading: headings.join(" > "),
+      text,
+    }))
+  );
+};
+
+// Helper function to flatten JSON into "path: value" lines
+const flattenJson = (value: any, path = ""): string[] => {
+  if (value !== null && typeof value === "object") {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [`${path}[${index}]`, item] as const)
+      : Object.entries(value).map(
+          ([key, item]) => [path ? `${path}.${key}` : key, item] as const
+        );
+    return entries.flatMap(([itemPath, item]) => flattenJson(item, itemPath));
+  }
+
+  return [`${path || "value"}: ${String(value)}`];
+};
+
+// Helper function to split a document into titled chunks
+const chunkDocument = (
+  content: KnowledgeDocumentInput["content"],
+  format: KnowledgeFormat,
+  size: number
+): { heading: string; text: string }[] => {
+  switch (format) {
+    case "markdown":
+      return chunkMarkdown(String(content), size);
+    case "json":
+      return pack(
+        flattenJson(
+          typeof content === "string" ? JSON.parse(content) : content
+        ),
+        size,
+        "\n"
+      ).map((text) => ({ heading: "", text }));
+    default:
+      return chunkText(String(content), size).map((text) => ({
+        heading: "",
+        text,
+      }));
+  }
+};
+
+// Helper function to compute the cosine similarity of two vectors
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  a.forEach((value, index) => {
+    dot += value * (b[index] || 0);
+    normA += value * value;
+    normB += (b[index] || 0) * (b[index] || 0);
+  });
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Documents of an agent, chunked and indexed locally so only the chunks
+ * relevant to a message are added to its prompts. Chunks are ranked with
+ * BM25, fused with embedding similarity when `embeddings` is configured
+ */
+export class KnowledgeStore {
+  private documents = new Map<string, KnowledgeDocument>();
+  private chunks = new Map<string, KnowledgeChunk & { vector?: number[] }>();
+  private index = new BM25Index();
+  // The orchestrator and agent prompts of a message search the same query
+  private lastQuery: { query: string; vector: Promise<number[]> } | undefined;
+  readonly topK: number;
+  private chunkSize: number;
+  private minSimilarity: number;
+
+  constructor(private config: KnowledgeConfig = {}) {
+    this.topK = config.topK ?? DEFAULT_TOP_K;
+    this.chunkSize = config.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.minSimilarity = config.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  }
+
+  get size() {
+    return this.documents.size;
+  }
+
+  /**
+   * Chunks and indexes a document, replacing the document with the same id
+   *
+   * @param input content (text, markdown or JSON), id, title and source
+   * @returns the indexed document
+   */
+  async add(input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+    const id = input.id || randomUUID();
+    const format =
+      input.format || (typeof input.content === "string" ? "text" : "json");
+
+    const chunks: (KnowledgeChunk & { vector?: number[] })[] = chunkDocument(
+      input.content,
+      format,
+      this.chunkSize
+    ).map(({ heading, text }, index) => {
+      const title = [input.title, heading].filter(Boolean).join(" > ");
+      return {
+        id: `${id}#${index}`,
+        documentId: id,
+        ...(title ? { title } : {}),
+        text,
+      };
+    });
+
+    // Embedded before indexing so a failure leaves the store unchanged
+    if (this.config.embeddings && chunks.length > 0) {
+      const vectors = await this.config.embeddings.embedDocuments(
+        chunks.map((chunk) => this.indexedText(chunk))
+      );
+      chunks.forEach((chunk, index) => (chunk.vector = vectors[index]));
+    }
+
+    this.delete(id);
+    chunks.forEach((chunk) => {
+      this.chunks.set(chunk.id, chunk);
+      this.index.add(chunk.id, this.indexedText(chunk));
+    });
+
+    const document: KnowledgeDocument = {
+      id,
+      ...(input.title ? { title: input.title } : {}),
+      format,
+      ...(input.source ? { source: input.source } : {}),
+      chunks: chunks.length,
+      createdAt: new Date().toISOString(),
+    };
+    this.documents.set(id, document);
+
+    return document;
+  }
+
+  get(id: string) {
+    return this.documents.get(id);
+  }
+
+  /**
+   *
+   * @returns the indexed documents, oldest first
+   */
+  list() {
+    return Array.from(this.documents.values());
+  }
+
+  delete(id: string) {
+    const document = this.documents.get(id);
+    if (!document) {
+      return false;
+    }
+
+    for (let index = 0; index < document.chunks; index++) {
+      this.chunks.delete(`${id}#${index}`);
+      this.index.remove(`${id}#${index}`);
+    }
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   *
+   * @param query free text query, e.g. the user's message
+   * @param limit maximum number of chunks, `topK` by default
+   * @returns the most relevant chunks, best first
+   */
+  async search(
+    query: string,
+    limit = this.topK
+  ): Promise<KnowledgeSearchResult[]> {
+    if (this.chunks.size === 0 || limit <= 0) {
+      return [];
+    }
+
+    const lexical = this.index.search(query, this.chunks.size);
+    if (!this.config.embeddings) {
+      return lexical.slice(0, limit).map(({ id, score }) => ({
+        ...this.toChunk(id),
+        score,
+      }));
+    }
+
+    if (this.lastQuery?.query !== query) {
+      this.lastQuery = {
+        query,
+        vector: this.config.embeddings.embedQuery(query),
+      };
+      // Allow a later retry if the embedding fails
+      this.lastQuery.vector.catch(() => (this.lastQuery = undefined));
+    }
+    const vector = await this.lastQuery.vector;
+
+    const semantic = Array.from(this.chunks.values())
+      .filter((chunk) => chunk.vector)
+      .map((chunk) => ({
+        id: chunk.id,
+        score: cosineSimilarity(vector, chunk.vector!),
+      }))
+      .filter(({ score }) => score >= this.minSimilarity)
+      .sort((a, b) => b.score - a.score);
+
+    // Reciprocal rank fusion of both rankings. Only chunks matching a query
+    // term or similar enough to it are ranked, so unrelated chunks don't fill
+    // the top results
+    const scores = new Map<string, number>();
+    [lexical, semantic].forEach((ranking) =>
+      ranking.forEach(({ id }, rank) =>
+        scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + rank + 1))
+      )
+    );
+
+    return Array.from(scores, ([id, score]) => ({
+      ...this.toChunk(id),
+      score,
+    }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Helper function to read a chunk without its vector
+  private toChunk(id: string): KnowledgeChunk {
+    const { vector: _vector, ...chunk } = this.chunks.get(id)!;
+    return chunk;
+  }
+
+  // Helper function to get the text a chunk is indexed by
+  private indexedText(chunk: KnowledgeChunk) {
+    return chunk.title ? `${chunk.title}\n${chunk.text}` : chunk.text;
+  }
+}
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectEvents, createTestAgent } from "../testing";
+import { KnowledgeStore } from ".";
+
+const GUIDE = `# Store guide
+
+Welcome to the store.
+
+## Shipping
+
+Orders ship within 2 business days.
+
+## Returns
+
+Items can be returned within 30 days.
+
+\`\`\`
+# not a heading
+\`\`\`
+`;
+
+test("chunks documents and ranks chunks with BM25", async () => {
+  const knowledge = new KnowledgeStore({ chunkSize: 100 });
+
+  const guide = await knowledge.add({
+    id: "guide",
+    title: "Guide",
+    content: GUIDE,
+    format: "markdown",
+  });
+  assert.equal(guide.chunks, 3);
+
+  const plans = await knowledge.add({
+    content: { plans: [{ name: "Pro", price: 20 }] },
+  });
+  assert.equal(plans.format, "json");
+
+  const [returns] = await knowledge.search(
+    "How long do I have to return items?"
+  );
+  assert.equal(returns?.id, "guide#2");
+  assert.equal(returns?.title, "Guide > Store guide > Returns");
+  assert.match(returns!.text, /# not a heading/);
+
+  const [price] = await knowledge.search("Pro plan price");
+  assert.equal(price?.text, "plans[0].name: Pro\nplans[0].price: 20");
+
+  // Adding a document with the same id replaces it
+  await knowledge.add({ id: "guide", content: "Returns are free" });
+  assert.equal(knowledge.size, 2);
+  assert.deepEqual(
+    (await knowledge.search("returns")).map((result) => result.text),
+    ["Returns are free"]
+  );
+
+  assert.equal(knowledge.delete("guide"), true);
+  assert.deepEqual(await knowledge.search("returns"), []);
+});
+
+test("fuses embedding similarity with BM25", async () => {
+  const topics = ["shipping", "refund"];
+  const embedQueries: string[] = [];
+  // Helper function to embed texts by the topics they mention
+  const embed = (text: string) =>
+    topics.map((topic) => (text.toLowerCase().includes(topic) ? 1 : 0));
+
+  const knowledge = new KnowledgeStore({
+    topK: 1,
+    embeddings: {
+      embedDocuments: async (texts) => texts.map(embed),
+      embedQuery: async (text) => {
+        embedQueries.push(text);
+        // "money back" has no words in common with the refund document
+        return text.includes("money back") ? [0, 1] : embed(text);
+      },
+    },
+  });
+  await knowledge.add({ content: "Shipping takes 2 days" });
+  await knowledge.add({ content: "A refund is issued within a week" });
+
+  const [result] = await knowledge.search("When do I get my money back?");
+  assert.equal(result?.text, "A refund is issued within a week");
+
+  await knowledge.search("When do I get my money back?");
+  assert.equal(embedQueries.length, 1);
+
+  // Unrelated chunks don't fill the results
+  assert.deepEqual(await knowledge.search("Opening hours", 5), []);
+});
+
+test("adds the knowledge relevant to the message to the prompts", async () => {
+  const { agent, model } = await createTestAgent({
+    responses: ["[]", "Orders ship within 2 business days"],
+  });
+  agent.params.toolKnowledge.push("Prices are listed in USD");
+  await agent.knowledge.add({
+    title: "Guide",
+    content: GUIDE,
+    format: "markdown",
+  });
+
+  await collectEvents(agent.streamMessage("When will my order ship?"));
+
+  const [orchestratorPrompt, agentPrompt] = model.calls.map(
+    (messages) => messages[0]!.content as string
+  );
+  for (const prompt of [orchestratorPrompt!, agentPrompt!]) {
+    assert.match(
+      prompt,
+      /- Guide > Store guide > Shipping: Orders ship within 2 business days./
+    );
+    assert.doesNotMatch(prompt, /returned within 30 days/);
+    assert.doesNotMatch(prompt, /Prices are listed in USD/);
+  }
+
+  // Knowledge added by tools is indexed too
+  const indexed = agent.knowledge
+    .list()
+    .filter((document) => document.source === "toolKnowledge");
+  assert.equal(indexed.length, 1);
+});
@@ -0,0 +1,300 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import {
+  AIMessage,
+  BaseMessage,
+  isBaseMessage,
+} from "@langchain/core/messages";
+import { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { Serialized } from "@langchain/core/load/serializable";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import type { Agent } from "../agent";
+import { FALLBACK_ATTEMPT_TAG } from "../models";
+import { USAGE_KIND_KEY, USAGE_THREAD_KEY } from "../usage";
+import { extractContent } from "../utils/messages";
+import {
+  parseToolResult,
+  serializeToolResult,
+  toToolError,
+} from "../utils/toolResult";
+import {
+  AgentLifecycleEventName,
+  AgentLifecycleEvents,
+  AgentLifecycleListener,
+  Logger,
+  ToolArgumentsSchema,
+  ToolResult,
+  toolType,
+  UsageKind,
+} from "../types";
+
+/**
+ * Typed emitter of agent lifecycle events. Listener errors (and rejections
+ * of async listeners) are logged and never interrupt the run
+ */
+export class AgentEventEmitter {
+  private listeners = new Map<AgentLifecycleEventName, Set<Function>>();
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * @returns a function removing the listener
+   */
+  on<K extends AgentLifecycleEventName>(
+    event: K,
+    listener: AgentLifecycleListener<K>
+  ) {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  off<K extends AgentLifecycleEventName>(
+    event: K,
+    listener: AgentLifecycleListener<K>
+  ) {
+    return this.listeners.get(event)?.delete(listener) || false;
+  }
+
+  emit<K extends AgentLifecycleEventName>(
+    event: K,
+    payload: AgentLifecycleEvents[K]
+  ) {
+    for (const listener of this.listeners.get(event) || []) {
+      try {
+        Promise.resolve(listener(payload)).catch((error) =>
+          this.logger.error(`Error in ${event} listener:`, error)
+        );
+      } catch (error) {
+        this.logger.error(`Error in ${event} listener:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Callback handler emitting model_start, model_end and model_error for the
+ * model calls attributed to a thread (see UsageTracker.configFor)
+ */
+export class ModelEventsHandler extends BaseCallbackHandler {
+  name = "axicov_model_events";
+  private runs = new Map<
+    string,
+    { threadId: string; kind: UsageKind; model: string; startedAt: number }
+  >();
+
+  constructor(private agent: Agent) {
+    super();
+  }
+
+  override handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    const threadId = metadata?.[USAGE_THREAD_KEY] as string | undefined;
+
+    // Attempts inside a FallbackChatModel are reported by the outer call
+    if (!threadId || tags?.includes(FALLBACK_ATTEMPT_TAG)) {
+      return;
+    }
+
+    const provider = metadata?.ls_provider;
+    const modelName = metadata?.ls_model_name;
+    const run = {
+      threadId,
+      kind: (metadata?.[USAGE_KIND_KEY] as UsageKind) || "agent",
+      model:
+        provider && modelName
+          ? `${provider}:${modelName}`
+          : llm.id[llm.id.length - 1] || "unknown",
+      startedAt: Date.now(),
+    };
+    this.runs.set(runId, run);
+
+    this.agent.events.emit("model_start", {
+      agentId: this.agent.agentId,
+      threadId,
+      kind: run.kind,
+      runId,
+      model: run.model,
+    });
+  }
+
+  override handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+    this.runs.delete(runId);
+
+    const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+    const message = generation?.message as AIMessage | undefined;
+
+    this.agent.events.emit("model_end", {
+      agentId: this.agent.agentId,
+      threadId: run.threadId,
+      kind: run.kind,
+      runId,
+      model: message?.response_metadata?.servedBy || run.model,
+      durationMs: Date.now() - run.startedAt,
+      inputTokens: message?.usage_metadata?.input_tokens ?? 0,
+      outputTokens: message?.usage_metadata?.output_tokens ?? 0,
+    });
+  }
+
+  override handleLLMError(error: any, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+    this.runs.delete(runId);
+
+    this.agent.events.emit("model_error", {
+      agentId: this.agent.agentId,
+      threadId: run.threadId,
+      kind: run.kind,
+      runId,
+      model: run.model,
+      durationMs: Date.now() - run.startedAt,
+      error,
+    });
+  }
+}
+
+/**
+ * Wraps a tool so its calls run through the agent's hooks and emit
+ * tool_start and tool_end. Vetoed calls answer the model with a VETOED
+ * tool error instead of running, and calls breaking a blocking tool argument
+ * policy of the agent's guardrails with a BLOCKED one
+ *
+ * @param tool tool to wrap
+ * @param agent agent owning the hooks and the event emitter
+ */
+export function withLifecycle(tool: toolType, agent: Agent): toolType {
+  const schema: ToolArgumentsSchema = tool.schema;
+
+  return new DynamicStructuredTool({
+    name: tool.name,
+    description: tool.description,
+    schema,
+    func: async (input: Record<string, any>, runManager, config) => {
+      const threadId = config?.configurable?.thread_id ?? agent.threadId;
+      const toolCallId = config?.configurable?.tool_call_id;
+      const context = {
+        agent,
+        threadId,
+        ...(toolCallId ? { toolCallId } : {}),
+        name: tool.name,
+        args: input,
+      };
+
+      for (const hooks of agent.hooks) {
+        const decision = await hooks.beforeToolCall?.(context);
+        if (decision?.veto) {
+          const result: ToolResult = {
+            ok: false,
+            error: { code: "VETOED", message: decision.veto, retryable: false },
+          };
+          agent.events.emit("tool_end", {
+            ...withoutAgent(context),
+            durationMs: 0,
+            result,
+          });
+          return serializeToolResult(result);
+        }
+        if (decision?.args) {
+          context.args = decision.args;
+        }
+      }
+
+      // Checked after the hooks, which may have rewritten the arguments
+      const violations = agent.guardrails
+        .checkToolCall(tool.name, context.args)
+        .filter((violation) => violation.action === "block")
+        .map((violation) => ({
+          ...violation,
+          ...(toolCallId ? { toolCallId } : {}),
+        }));
+      if (violations.length > 0) {
+        agent.reportViolations(threadId, violations);
+        const result: ToolResult = {
+          ok: false,
+          error: {
+            code: "BLOCKED",
+            message: violations.map((violation) => violation.reason).join("; "),
+            retryable: false,
+          },
+        };
+        agent.events.emit("tool_end", {
+          ...withoutAgent(context),
+          durationMs: 0,
+          result,
+        });
+        return serializeToolResult(result);
+      }
+
+      agent.events.emit("tool_start", withoutAgent(context));
+      const startedAt = Date.now();
+
+      let content: string;
+      let result: ToolResult;
+      try {
+        // The inner tool answers with its content, the wrapper builds the
+        // tool message
+        const output = await tool.invoke(context.args, {
+          ...config,
+          configurable: { ...config?.configurable, tool_call_id: undefined },
+          ...(runManager ? { callbacks: runManager.getChild() } : {}),
+        });
+        content = isBaseMessage(output)
+          ? extractContent(output.content)
+          : typeof output === "string"
+          ? output
+          : JSON.stringify(output);
+        result = parseToolResult(content);
+      } catch (error: any) {
+        agent.events.emit("tool_end", {
+          ...withoutAgent(context),
+          durationMs: Date.now() - startedAt,
+          result: { ok: false, error: toToolError(error) },
+        });
+        throw error;
+      }
+
+      const durationMs = Date.now() - startedAt;
+      let replaced = false;
+      for (const hooks of agent.hooks) {
+        const replacement = await hooks.afterToolCall?.({
+          ...context,
+          result,
+          durationMs,
+        });
+        if (replacement) {
+          result = replacement;
+          replaced = true;
+        }
+      }
+
+      agent.events.emit("tool_end", {
+        ...withoutAgent(context),
+        durationMs,
+        result,
+      });
+
+      // Plain text results reach the model unchanged unless a hook replaced
+      // them
+      return replaced ? serializeToolResult(result) : content;
+    },
+  });
+}
+
+// Helper function to drop the agent reference from a hook context
+const withoutAgent = ({ agent: _agent, ...rest }: { agent: Agent } & any) =>
+  rest;
@@ -0,0 +1,198 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { Logger } from "../types";
+import { collectEvents, createTestAgent, fakeTool } from "../testing";
+
+test("lifecycle events are emitted in order for a run", async () => {
+  const getPrices = fakeTool({
+    name: "getPrices",
+    schema: z.object({ country: z.string() }),
+    result: "3.99",
+  });
+  const { agent } = await createTestAgent({
+    responses: [
+      '["getPrices"]',
+      { toolCalls: [{ name: "getPrices", args: { country: "USA" } }] },
+      "It costs 3.99",
+    ],
+    tools: [getPrices],
+  });
+
+  const emitted: { name: string; payload: any }[] = [];
+  const names = [
+    "orchestrated",
+    "model_start",
+    "model_end",
+    "tool_start",
+    "tool_end",
+    "run_completed",
+  ] as const;
+  names.forEach((name) =>
+    agent.on(name, (payload: any) => {
+      emitted.push({ name, payload });
+    })
+  );
+
+  await collectEvents(
+    agent.streamMessage("Price in the USA?", { threadId: "t1" })
+  );
+
+  assert.deepEqual(
+    emitted.map(({ name }) => name),
+    [
+      "model_start",
+      "model_end",
+      "orchestrated",
+      "model_start",
+      "model_end",
+      "tool_start",
+      "tool_end",
+      "model_start",
+      "model_end",
+      "run_completed",
+    ]
+  );
+  const { durationMs, ...orchestrated } = emitted[2]?.payload;
+  assert.equal(typeof durationMs, "number");
+  assert.deepEqual(orchestrated, {
+    agentId: "test-agent",
+    threadId: "t1",
+    message: "Price in the USA?",
+    router: "llm",
+    tools: ["getPrices"],
+    invalidTools: [],
+  });
+  assert.equal(emitted[0]?.payload.kind, "orchestrator");
+  assert.equal(emitted[3]?.payload.kind, "agent");
+
+  const toolEnd = emitted.find(({ name }) => name === "tool_end")?.payload;
+  assert.equal(toolEnd.name, "getPrices");
+  assert.equal(toolEnd.toolCallId, "call_1");
+  assert.deepEqual(toolEnd.args, { country: "USA" });
+  assert.deepEqual(toolEnd.result, { ok: true, data: "3.99" });
+  assert.equal(typeof toolEnd.durationMs, "number");
+
+  assert.equal(emitted[emitted.length - 1]?.payload.response, "It costs 3.99");
+});
+
+test("hooks rewrite tool arguments and replace results", async () => {
+  const getPrices = fakeTool({
+    name: "getPrices",
+    schema: z.object({ country: z.string() }),
+    result: ({ country }: { country: string }) => `Price in ${country}`,
+  });
+  const { agent } = await createTestAgent({
+    responses: [
+      '["getPrices"]',
+      { toolCalls: [{ name: "getPrices", args: { country: "usa" } }] },
+      "Done",
+    ],
+    tools: [getPrices],
+  });
+
+  agent
+    .use({
+      beforeToolCall: ({ args }) => ({ args: { country: args.country + "!" } }),
+    })
+    .use({
+      beforeToolCall: ({ args }) => ({
+        args: { country: args.country.toUpperCase() },
+      }),
+      afterToolCall: ({ result }) =>
+        result.ok ? { ok: true, data: `${result.data} (cached)` } : undefined,
+    });
+
+  const events = await collectEvents(agent.streamMessage("Price?"));
+
+  assert.deepEqual(getPrices.calls, [{ country: "USA!" }]);
+  assert.deepEqual(
+    events.find((event) => event.type === "tool_result"),
+    {
+      type: "tool_result",
+      id: "call_1",
+      name: "getPrices",
+      content: '{"ok":true,"data":"Price in USA! (cached)"}',
+      result: { ok: true, data: "Price in USA! (cached)" },
+    }
+  );
+});
+
+test("vetoed tool calls don't run and answer with a VETOED error", async () => {
+  const transfer = fakeTool({
+    name: "transfer",
+    schema: z.object({ amount: z.number() }),
+  });
+  const { agent } = await createTestAgent({
+    responses: [
+      '["transfer"]',
+      { toolCalls: [{ name: "transfer", args: { amount: 5000 } }] },
+      "The transfer was blocked",
+    ],
+    tools: [transfer],
+  });
+
+  const started: string[] = [];
+  agent.on("tool_start", ({ name }) => {
+    started.push(name);
+  });
+  agent.use({
+    beforeToolCall: ({ name, args }) =>
+      name === "transfer" && args.amount > 1000
+        ? { veto: "Transfers above 1000 are not allowed" }
+        : undefined,
+  });
+
+  const events = await collectEvents(agent.streamMessage("Send 5000"));
+
+  assert.deepEqual(transfer.calls, []);
+  assert.deepEqual(started, []);
+  const toolResult = events.find((event) => event.type === "tool_result");
+  assert.deepEqual(toolResult?.type === "tool_result" && toolResult.result, {
+    ok: false,
+    error: {
+      code: "VETOED",
+      message: "Transfers above 1000 are not allowed",
+      retryable: false,
+    },
+  });
+});
+
+test("listener errors go to the agent logger without failing the run", async () => {
+  const logged: string[] = [];
+  const logger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: (message) => logged.push(message),
+  };
+  const { agent } = await createTestAgent({
+    responses: ["[]", "Hi", "[]", "Again"],
+    tools: [fakeTool({ name: "noop" })],
+    logger,
+  });
+
+  const unsubscribe = agent.on("run_completed", () => {
+    throw new Error("listener failed");
+  });
+  agent.on("orchestrated", async () => {
+    throw new Error("async listener failed");
+  });
+
+  const events = await collectEvents(agent.streamMessage("Hello"));
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.deepEqual(events[events.length - 1], {
+    type: "final",
+    response: "Hi",
+  });
+  assert.deepEqual(logged.sort(), [
+    "Error in orchestrated listener:",
+    "Error in run_completed listener:",
+  ]);
+
+  unsubscribe();
+  await collectEvents(agent.streamMessage("Hello again"));
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(logged.length, 3);
+});
@@ -0,0 +1,60 @@
+import { Logger } from "../types";
+import { redactSecrets, redactValue } from "../secrets";
+
+export const consoleLogger: Logger = {
+  debug: (message, ...meta) => console.debug(message, ...meta),
+  info: (message, ...meta) => console.log(message, ...meta),
+  warn: (message, ...meta) => console.warn(message, ...meta),
+  error: (message, ...meta) => console.error(message, ...meta),
+};
+
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+let currentLogger: Logger = consoleLogger;
+
+/**
+ * Replaces the logger used by the SDK and the server, e.g. with pino or
+ * winston (both match the Logger shape). Agents created with their own
+ * `logger` keep it
+ */
+export const setLogger = (logger: Logger) => {
+  currentLogger = logger;
+};
+
+export const getLogger = () => currentLogger;
+
+// Helper function to build a logger redacting its calls before forwarding
+// them to the target
+const forwardRedacted = (target: () => Logger): Logger => {
+  // Helper function to forward the calls of a level
+  const forward =
+    (level: keyof Logger) =>
+    (message: string, ...meta: any[]) =>
+      target()[level](
+        redactSecrets(message),
+        ...meta.map((item) => redactValue(item))
+      );
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+};
+
+/**
+ * Wraps a logger so resolved secrets and known credential formats are
+ * redacted from messages, errors and object metadata before they reach it
+ */
+export const redactLogger = (target: Logger): Logger =>
+  forwardRedacted(() => target);
+
+// Forwards to the current logger, so modules can hold it before setLogger.
+// Custom loggers never see unredacted secrets
+export const logger: Logger = forwardRedacted(() => currentLogger);
@@ -0,0 +1,518 @@
+import { ChildProcess, spawn } from "child_process";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import type { Agent } from "../agent";
+import { logger } from "../logger";
+import {
+  JsonRpcMessage,
+  McpServerConfig,
+  McpTool,
+  McpToolCallResult,
+  McpTransport,
+  McpTransportConfig,
+  ToolRegistryFunction,
+  Tools,
+  toolType,
+} from "../types";
+import { ToolPolicyRunner } from "../utils/toolPolicy";
+import { serializeToolResult, toToolError } from "../utils/toolResult";
+
+const PROTOCOL_VERSION = "2025-03-26";
+const CLIENT_INFO = { name: "axicov-sdk", version: "1.2.2" };
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+// Variables of the parent's environment a stdio server gets by default
+const INHERITED_ENV = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "LANG",
+  "LC_ALL",
+  "TERM",
+  "TMPDIR",
+  "TEMP",
+  "TMP",
+  "SYSTEMROOT",
+  "USERPROFILE",
+  "APPDATA",
+];
+
+// Helper function to pick the environment of a stdio server, keeping
+// secrets of the parent away from third-party subprocesses
+const serverEnv = (
+  config: Extract<McpTransportConfig, { type: "stdio" }>
+) => {
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(process.env)) {
+    if (
+      value !== undefined &&
+      (config.inheritEnv || INHERITED_ENV.includes(name.toUpperCase()))
+    ) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...config.env };
+};
+
+/**
+ * Runs an MCP server as a subprocess, exchanging newline delimited JSON-RPC
+ * messages over its stdin and stdout
+ */
+export class StdioMcpTransport implements McpTransport {
+  onMessage?: (message: JsonRpcMessage) => void;
+  onClose?: (error: Error) => void;
+  private child: ChildProcess | undefined;
+  private buffer = "";
+
+  constructor(
+    private config: Extract<McpTransportConfig, { type: "stdio" }>,
+    private serverName: string
+  ) {}
+
+  async start() {
+    const child = spawn(this.config.command, this.config.args || [], {
+      env: serverEnv(this.config),
+      ...(this.config.cwd ? { cwd: this.config.cwd } : {}),
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.child = child;
+
+    child.stdout!.setEncoding("utf8").on("data", (chunk: string) => {
+      this.buffer += chunk;
+
+      let newline: number;
+      while ((newline = this.buffer.indexOf("\n")) !== -1) {
+        const line = this.buffer.slice(0, newline).trim();
+        this.buffer = this.buffer.slice(newline + 1);
+        if (!line) {
+          continue;
+        }
+
+        try {
+          this.onMessage?.(JSON.parse(line));
+        } catch {
+          logger.warn(
+            `Invalid message from MCP server ${this.serverName}:`,
+            line
+          );
+        }
+      }
+    });
+    child.stderr!.setEncoding("utf8").on("data", (chunk: string) =>
+      logger.debug(`[mcp:${this.serverName}] ${chunk.trimEnd()}`)
+    );
+    // Errors of a running server (e.g. EPIPE once it died) are reported
+    // through onClose, failing its pending requests, instead of crashing
+    // the process. A server that can't be written to anymore is stopped
+    const fail = (error: Error) => {
+      if (this.child !== child) {
+        return;
+      }
+      this.child = undefined;
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGTERM");
+      }
+      this.onClose?.(error);
+    };
+    child.stdin!.on("error", (error) =>
+      fail(
+        new Error(`MCP server ${this.serverName} stdin: ${error.message}`)
+      )
+    );
+    child.on("error", (error) =>
+      fail(new Error(`MCP server ${this.serverName}: ${error.message}`))
+    );
+    child.on("exit", (code, signal) =>
+      fail(
+        new Error(
+          `MCP server ${this.serverName} exited (${signal || `code ${code}`})`
+        )
+      )
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      child.once("spawn", resolve);
+      child.once("error", reject);
+    });
+  }
+
+  async send(message: JsonRpcMessage) {
+    const stdin = this.child?.stdin;
+    if (!stdin || !stdin.writable) {
+      throw new Error(`MCP server ${this.serverName} is not running`);
+    }
+    await new Promise<void>((resolve, reject) =>
+      stdin.write(JSON.stringify(message) + "\n", (error) =>
+        error ? reject(error) : resolve()
+      )
+    );
+  }
+
+  async close() {
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+
+    // Closing stdin asks the server to exit, it's killed if it doesn't
+    const exited = new Promise((resolve) => child.once("exit", resolve));
+    child.stdin!.end();
+    const timer = setTimeout(() => child.kill("SIGTERM"), 2000);
+    await exited;
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Talks to an MCP server over the Streamable HTTP transport. Responses may
+ * come back as JSON or as a Server-Sent Events stream
+ */
+export class HttpMcpTransport implements McpTransport {
+  onMessage?: (message: JsonRpcMessage) => void;
+  onClose?: (error: Error) => void;
+  private sessionId: string | undefined;
+
+  constructor(private config: Extract<McpTransportConfig, { type: "http" }>) {}
+
+  async start() {}
+
+  // Helper function to build the request headers
+  private headers(): Record<string, string> {
+    return {
+      ...this.config.headers,
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+    };
+  }
+
+  async send(message: JsonRpcMessage) {
+    const response = await fetch(this.config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...this.headers(),
+      },
+      body: JSON.stringify(message),
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      throw new Error(
+        `MCP request to ${this.config.url} failed with ${response.status} ${response.statusText}`
+      );
+    }
+
+    // Notifications are accepted without a body
+    if (response.status === 202) {
+      return;
+    }
+
+    const body = await response.text();
+    const messages = response.headers
+      .get("content-type")
+      ?.includes("text/event-stream")
+      ? parseEventStream(body)
+      : body
+      ? [JSON.parse(body)].flat()
+      : [];
+
+    messages.forEach((received) => this.onMessage?.(received));
+  }
+
+  async close() {
+    if (!this.sessionId) {
+      return;
+    }
+
+    // Ends the session, servers without session support may refuse
+    await fetch(this.config.url, {
+      method: "DELETE",
+      headers: this.headers(),
+    }).catch(() => undefined);
+    this.sessionId = undefined;
+  }
+}
+
+// Helper function to read the JSON-RPC messages of an SSE body
+function parseEventStream(body: string): JsonRpcMessage[] {
+  return body
+    .split(/\r?\n\r?\n/)
+    .map((event) =>
+      event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice("data:".length).trimStart())
+        .join("\n")
+    )
+    .filter(Boolean)
+    .map((data) => JSON.parse(data));
+}
+
+/**
+ * Minimal MCP client: initializes the session, lists tools and calls them
+ */
+export class McpClient {
+  private transport: McpTransport;
+  private nextId = 1;
+  private pending = new Map<
+    number | string,
+    { resolve: (result: any) => void; reject: (error: Error) => void }
+  >();
+  public serverInfo: { name: string; version: string } | undefined;
+
+  constructor(private config: McpServerConfig) {
+    this.transport =
+      config.transport.type === "stdio"
+        ? new StdioMcpTransport(config.transport, config.name)
+        : new HttpMcpTransport(config.transport);
+
+    this.transport.onMessage = (message) => this.handleMessage(message);
+    this.transport.onClose = (error) => {
+      this.pending.forEach(({ reject }) => reject(error));
+      this.pending.clear();
+    };
+  }
+
+  async connect() {
+    await this.transport.start();
+
+    const result = await this.request("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.serverInfo = result.serverInfo;
+
+    await this.transport.send({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+  }
+
+  /**
+   *
+   * @returns every tool of the server, following pagination
+   */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.request(
+        "tools/list",
+        cursor ? { cursor } : {}
+      );
+      tools.push(...result.tools);
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  /**
+   * Calls a tool. Aborting the signal cancels the request on the server
+   *
+   * @param name MCP name of the tool
+   */
+  callTool(
+    name: string,
+    args: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<McpToolCallResult> {
+    return this.request("tools/call", { name, arguments: args }, signal);
+  }
+
+  async close() {
+    await this.transport.close();
+  }
+
+  // Helper function to send a request and wait for its response
+  private request(method: string, params: any, signal?: AbortSignal) {
+    const id = this.nextId++;
+    const timeoutMs =
+      this.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    return new Promise<any>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(id);
+      };
+      const cancel = (reason: Error) => {
+        settle();
+        this.transport
+          .send({
+            jsonrpc: "2.0",
+            method: "notifications/cancelled",
+            params: { requestId: id, reason: reason.message },
+          })
+          .catch(() => undefined);
+        reject(reason);
+      };
+      const onAbort = () => cancel(new Error(`MCP ${method} was aborted`));
+      const timer = setTimeout(
+        () =>
+          cancel(new Error(`MCP ${method} timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+
+      if (signal?.aborted) {
+        return onAbort();
+      }
+      signal?.addEventListener("abort", onAbort);
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      this.transport
+        .send({ jsonrpc: "2.0", id, method, params })
+        .catch((error) => this.pending.get(id)?.reject(error));
+    });
+  }
+
+  // Helper function to dispatch a message from the server
+  private handleMessage(message: JsonRpcMessage) {
+    // Requests from the server, only pings are supported
+    if (message.method && message.id !== undefined) {
+      this.transport
+        .send(
+          message.method === "ping"
+            ? { jsonrpc: "2.0", id: message.id, result: {} }
+            : {
+                jsonrpc: "2.0",
+                id: message.id,
+                error: { code: -32601, message: "Method not found" },
+              }
+        )
+        .catch(() => undefined);
+      return;
+    }
+
+    const pending =
+      message.id !== undefined ? this.pending.get(message.id) : undefined;
+    if (!pending) {
+      return;
+    }
+
+    if (message.error) {
+      pending.reject(
+        new Error(`MCP error ${message.error.code}: ${message.error.message}`)
+      );
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+}
+
+// Helper function to read the data of a tool call result
+const toolCallData = (result: McpToolCallResult) => {
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  const content = result.content || [];
+  return content.every((item) => item.type === "text")
+    ? content.map((item) => item.text).join("\n")
+    : content;
+};
+
+/**
+ * Creates a registry function loading the tools of an MCP server. Each agent
+ * gets its own connection (and subprocess for stdio servers), closed with
+ * `agent.close()` or when all of its tools are removed
+ *
+ * @param config server connection, tool selection, approval and policy
+ * @returns A registry-compatible tool exporter function
+ */
+export function createMcpTools(config: McpServerConfig): ToolRegistryFunction {
+  return async (agent: Agent) => {
+    const client = new McpClient(config);
+
+    let listed: McpTool[];
+    try {
+      await client.connect();
+      listed = await client.listTools();
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      throw error;
+    }
+
+    const tools: toolType[] = [];
+    const schema: Tools = {};
+
+    listed
+      .filter((tool) => !config.tools || config.tools.includes(tool.name))
+      .forEach((mcpTool) => {
+        const name = config.toolPrefix
+          ? `${config.toolPrefix}_${mcpTool.name}`
+          : mcpTool.name;
+        const description =
+          mcpTool.description || mcpTool.title || `${mcpTool.name} tool`;
+        const policyRunner = new ToolPolicyRunner(name, config.policy);
+
+        schema[name] = {
+          name,
+          description,
+          schema: mcpTool.inputSchema,
+          requiresApproval: Array.isArray(config.requiresApproval)
+            ? config.requiresApproval.includes(mcpTool.name)
+            : config.requiresApproval || false,
+          policy: config.policy,
+        };
+
+        tools.push(
+          new DynamicStructuredTool({
+            name,
+            description,
+            schema: mcpTool.inputSchema,
+            func: async (args: Record<string, any>, _runManager, config) => {
+              try {
+                const data = await policyRunner.run(
+                  async (context) => {
+                    const result = await client.callTool(
+                      mcpTool.name,
+                      args,
+                      context.signal
+                    );
+                    if (result.isError) {
+                      throw new Error(String(toolCallData(result)));
+                    }
+                    return toolCallData(result);
+                  },
+                  {
+                    threadId: config?.configurable?.thread_id,
+                    ...(config?.signal ? { signal: config.signal } : {}),
+                  }
+                );
+
+                return serializeToolResult({ ok: true, data });
+              } catch (error: any) {
+                agent.logger.error(`Error executing tool ${name}:`, error);
+                return serializeToolResult({
+                  ok: false,
+                  error: toToolError(error),
+                });
+              }
+            },
+          })
+        );
+      });
+
+    // Closed with the agent or once its tools are removed
+    agent.onClose(() => client.close(), Object.keys(schema));
+
+    return { tools, schema };
+  };
+}
@@ -0,0 +1,277 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { collectEvents, createTestAgent } from "../testing";
+import { createMcpTools, McpClient } from ".";
+
+// Answers requests like a small MCP server with paged "add" and "fail" tools
+const HANDLER = `
+const tools = [
+  {
+    name: "add",
+    description: "Adds two numbers",
+    inputSchema: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+    },
+  },
+  { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+];
+
+function handle(message) {
+  switch (message.method) {
+    case "initialize":
+      return {
+        protocolVersion: message.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "fake", version: "1.0.0" },
+      };
+    case "tools/list":
+      return message.params.cursor
+        ? { tools: [tools[1]] }
+        : { tools: [tools[0]], nextCursor: "page-2" };
+    case "tools/call":
+      return message.params.name === "add"
+        ? {
+            content: [
+              {
+                type: "text",
+                text: String(message.params.arguments.a + message.params.arguments.b),
+              },
+            ],
+          }
+        : { content: [{ type: "text", text: "Boom" }], isError: true };
+  }
+}
+`;
+
+// Runs the handler over stdin and stdout
+const STDIO_SERVER = `${HANDLER}
+require("readline")
+  .createInterface({ input: process.stdin })
+  .on("line", (line) => {
+    const message = JSON.parse(line);
+    if (message.id !== undefined) {
+      const result = handle(message);
+      process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, result }) + "\\n");
+    }
+  })
+  .on("close", () => process.exit(0));
+`;
+
+test("loads and calls the tools of a stdio MCP server", async () => {
+  const script = path.join(
+    mkdtempSync(path.join(tmpdir(), "axicov-mcp-")),
+    "server.js"
+  );
+  writeFileSync(script, STDIO_SERVER);
+
+  const { agent } = await createTestAgent({
+    responses: [
+      '["math_add", "math_fail"]',
+      {
+        toolCalls: [
+          { name: "math_add", args: { a: 2, b: 3 } },
+          { name: "math_fail", args: {} },
+        ],
+      },
+      "2 + 3 = 5",
+    ],
+    tools: [
+      createMcpTools({
+        name: "math",
+        transport: { type: "stdio", command: process.execPath, args: [script] },
+        toolPrefix: "math",
+      }),
+    ],
+  });
+
+  // Both pages of the listing are loaded
+  assert.deepEqual(Object.keys(agent.tools).sort(), ["math_add", "math_fail"]);
+  assert.match(agent.toolMetadata, /Tool Description: Adds two numbers/);
+
+  const events = await collectEvents(agent.streamMessage("What is 2 + 3?"));
+
+  assert.deepEqual(
+    events
+      .filter((event) => event.type === "tool_result")
+      .map((event) => event.type === "tool_result" && event.result),
+    [
+      { ok: true, data: "5" },
+      {
+        ok: false,
+        error: { code: "TOOL_ERROR", message: "Boom", retryable: false },
+      },
+    ]
+  );
+
+  await agent.close();
+});
+
+test("fails pending requests when a stdio server dies", async () => {
+  const script = path.join(
+    mkdtempSync(path.join(tmpdir(), "axicov-mcp-")),
+    "server.js"
+  );
+  writeFileSync(
+    script,
+    STDIO_SERVER.replace(
+      "const message = JSON.parse(line);",
+      'const message = JSON.parse(line);\n    if (message.method === "tools/call") process.exit(3);'
+    )
+  );
+
+  const client = new McpClient({
+    name: "crashing",
+    transport: { type: "stdio", command: process.execPath, args: [script] },
+  });
+  await client.connect();
+  assert.equal((await client.listTools()).length, 2);
+
+  await assert.rejects(
+    client.callTool("add", { a: 1, b: 2 }),
+    /MCP server crashing exited \(code 3\)/
+  );
+  await assert.rejects(client.callTool("add", { a: 1, b: 2 }), /not running/);
+  await client.close();
+});
+
+test("keeps the parent's environment from stdio servers", async () => {
+  const script = path.join(
+    mkdtempSync(path.join(tmpdir(), "axicov-mcp-")),
+    "server.js"
+  );
+  writeFileSync(
+    script,
+    STDIO_SERVER.replace(
+      "String(message.params.arguments.a + message.params.arguments.b)",
+      "JSON.stringify([process.env.JWT_SECRET, process.env.MCP_TOKEN, !!process.env.PATH])"
+    )
+  );
+  const secret = process.env.JWT_SECRET;
+  process.env.JWT_SECRET = "server-secret";
+
+  // Helper function to read the environment a server was started with
+  const envOf = async (inheritEnv: boolean) => {
+    const client = new McpClient({
+      name: "env",
+      transport: {
+        type: "stdio",
+        command: process.execPath,
+        args: [script],
+        env: { MCP_TOKEN: "token" },
+        inheritEnv,
+      },
+    });
+    await client.connect();
+    try {
+      const result = await client.callTool("add", {});
+      return JSON.parse(result.content[0]!.text!);
+    } finally {
+      await client.close();
+    }
+  };
+
+  try {
+    assert.deepEqual(await envOf(false), [null, "token", true]);
+    assert.deepEqual(await envOf(true), ["server-secret", "token", true]);
+  } finally {
+    if (secret === undefined) {
+      delete process.env.JWT_SECRET;
+    } else {
+      process.env.JWT_SECRET = secret;
+    }
+  }
+});
+
+test("talks to Streamable HTTP servers with sessions and SSE responses", async () => {
+  const handle = new Function(`${HANDLER}; return handle;`)();
+  const sessions: (string | undefined)[] = [];
+  const methods: string[] = [];
+
+  const server = createServer((req, res) => {
+    sessions.push(req.headers["mcp-session-id"] as string | undefined);
+    methods.push(req.method!);
+    if (req.method === "DELETE") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const message = JSON.parse(body);
+      if (message.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+
+      const response = JSON.stringify({
+        jsonrpc: "2.0",
+        id: message.id,
+        result: handle(message),
+      });
+      if (message.method === "tools/call") {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.end(`event: message\ndata: ${response}\n\n`);
+      } else {
+        res.writeHead(200, {
+          "Content-Type": "application/json",
+          "Mcp-Session-Id": "session-1",
+        });
+        res.end(response);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const { agent } = await createTestAgent({
+      responses: [
+        '["add"]',
+        { toolCalls: [{ name: "add", args: { a: 1, b: 1 } }] },
+        "2",
+      ],
+      tools: [
+        createMcpTools({
+          name: "remote",
+          transport: { type: "http", url: `http://127.0.0.1:${port}/mcp` },
+          requiresApproval: ["fail"],
+        }),
+      ],
+    });
+
+    assert.equal(agent.toolSchemas.add?.requiresApproval, false);
+    assert.equal(agent.toolSchemas.fail?.requiresApproval, true);
+
+    const events = await collectEvents(agent.streamMessage("1 + 1?"));
+    const toolResult = events.find((event) => event.type === "tool_result");
+    assert.deepEqual(toolResult?.type === "tool_result" && toolResult.result, {
+      ok: true,
+      data: "2",
+    });
+
+    // The session ends once the last tool of the server is removed
+    agent.removeTools(["add"]);
+    assert.equal(methods.includes("DELETE"), false);
+    agent.removeTools(["fail"]);
+    for (let i = 0; i < 100 && !methods.includes("DELETE"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.ok(methods.includes("DELETE"));
+
+    await agent.close();
+    assert.equal(methods.filter((method) => method === "DELETE").length, 1);
+    // Only the initialize request goes without a session
+    assert.deepEqual(sessions.slice(0, 2), [undefined, "session-1"]);
+    assert.ok(sessions.slice(1).every((id) => id === "session-1"));
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,572 @@
+import { randomUUID } from "crypto";
+import { mkdirSync, promises as fs } from "fs";
+import path from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import { z } from "zod";
+import { createTool } from "../utils/createTool";
+import { BM25Index } from "../utils/bm25";
+import {
+  Paging,
+  ToolBundle,
+  ToolRegistryFunction,
+  UserMemory,
+  UserMemoryConfig,
+  UserMemoryStore,
+} from "../types";
+
+const DEFAULT_TOP_K = 10;
+
+const byCreatedAt = (a: UserMemory, b: UserMemory) =>
+  a.createdAt.localeCompare(b.createdAt);
+
+const paginate = <T>(items: T[], { offset = 0, limit }: Paging = {}) => ({
+  total: items.length,
+  items: items.slice(offset, limit === undefined ? undefined : offset + limit),
+});
+
+// Helper function to key a thread of an agent
+const threadKey = (agentId: string, threadId: string) =>
+  JSON.stringify([agentId, threadId]);
+
+/**
+ * Keeps user memories and thread users in the process memory. They are lost
+ * on restart, use the file or SQLite store to keep them
+ */
+export class MemoryUserMemoryStore implements UserMemoryStore {
+  private memories = new Map<string, UserMemory>();
+  private threadUsers = new Map<string, string>();
+
+  async save(memory: UserMemory) {
+    this.memories.set(memory.id, memory);
+  }
+
+  async list(agentId: string, userId: string, options?: Paging) {
+    const { total, items } = paginate(
+      Array.from(this.memories.values())
+        .filter(
+          (memory) => memory.agentId === agentId && memory.userId === userId
+        )
+        .sort(byCreatedAt),
+      options
+    );
+    return { total, memories: items };
+  }
+
+  async delete(agentId: string, userId: string, id: string) {
+    const memory = this.memories.get(id);
+    if (!memory || memory.agentId !== agentId || memory.userId !== userId) {
+      return false;
+    }
+    return this.memories.delete(id);
+  }
+
+  async deleteUser(agentId: string, userId: string) {
+    const { memories } = await this.list(agentId, userId);
+    memories.forEach((memory) => this.memories.delete(memory.id));
+    return memories.length;
+  }
+
+  async bindThread(agentId: string, threadId: string, userId: string) {
+    const key = threadKey(agentId, threadId);
+    if (!this.threadUsers.has(key)) {
+      this.threadUsers.set(key, userId);
+    }
+    return this.threadUsers.get(key)!;
+  }
+
+  async getThreadUser(agentId: string, threadId: string) {
+    return this.threadUsers.get(threadKey(agentId, threadId)) ?? null;
+  }
+
+  async unbindThread(agentId: string, threadId: string) {
+    return this.threadUsers.delete(threadKey(agentId, threadId));
+  }
+}
+
+/**
+ * Persists user memories and thread users in a single JSON file
+ */
+export class FileUserMemoryStore implements UserMemoryStore {
+  private data?: {
+    memories: { [id: string]: UserMemory };
+    // User of each thread, by agent
+    threads: { [agentId: string]: { [threadId: string]: string } };
+  };
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async load() {
+    if (!this.data) {
+      try {
+        const content = await fs.readFile(this.filePath, "utf8");
+        this.data = { memories: {}, threads: {}, ...JSON.parse(content) };
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          throw new Error(`Failed to read memory store: ${error.message}`);
+        }
+        this.data = { memories: {}, threads: {} };
+      }
+    }
+    return this.data!;
+  }
+
+  private async persist() {
+    const content = JSON.stringify(await this.load(), null, 2);
+
+    // Serialize writes and replace the file atomically
+    this.writing = this.writing.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writing;
+  }
+
+  async save(memory: UserMemory) {
+    (await this.load()).memories[memory.id] = memory;
+    await this.persist();
+  }
+
+  async list(agentId: string, userId: string, options?: Paging) {
+    const { total, items } = paginate(
+      Object.values((await this.load()).memories)
+        .filter(
+          (memory) => memory.agentId === agentId && memory.userId === userId
+        )
+        .sort(byCreatedAt),
+      options
+    );
+    return { total, memories: items };
+  }
+
+  async delete(agentId: string, userId: string, id: string) {
+    const data = await this.load();
+    const memory = data.memories[id];
+    if (!memory || memory.agentId !== agentId || memory.userId !== userId) {
+      return false;
+    }
+
+    delete data.memories[id];
+    await this.persist();
+    return true;
+  }
+
+  async deleteUser(agentId: string, userId: string) {
+    const data = await this.load();
+    const { memories } = await this.list(agentId, userId);
+    if (memories.length === 0) {
+      return 0;
+    }
+
+    memories.forEach((memory) => delete data.memories[memory.id]);
+    await this.persist();
+    return memories.length;
+  }
+
+  async bindThread(agentId: string, threadId: string, userId: string) {
+    const threads = ((await this.load()).threads[agentId] ??= {});
+    if (threads[threadId] === undefined) {
+      threads[threadId] = userId;
+      await this.persist();
+    }
+    return threads[threadId]!;
+  }
+
+  async getThreadUser(agentId: string, threadId: string) {
+    return (await this.load()).threads[agentId]?.[threadId] ?? null;
+  }
+
+  async unbindThread(agentId: string, threadId: string) {
+    const threads = (await this.load()).threads[agentId];
+    if (threads?.[threadId] === undefined) {
+      return false;
+    }
+
+    delete threads[threadId];
+    await this.persist();
+    return true;
+  }
+}
+
+/**
+ * Persists user memories and thread users in a SQLite database. Requires the
+ * optional `better-sqlite3` peer dependency.
+ */
+export class SQLiteUserMemoryStore implements UserMemoryStore {
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    // Loaded lazily so better-sqlite3 is only needed when this store is used
+    const Database: typeof BetterSqlite3 = require("better-sqlite3");
+
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS user_memories (
+        id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        key TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS user_memories_user
+        ON user_memories (agent_id, user_id);
+      CREATE TABLE IF NOT EXISTS thread_users (
+        agent_id TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        PRIMARY KEY (agent_id, thread_id)
+      );
+    `);
+  }
+
+  async save(memory: UserMemory) {
+    this.db
+      .prepare(
+        `INSERT INTO user_memories (id, agent_id, user_id, content, key, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET content = excluded.content,
+         key = excluded.key, updated_at = excluded.updated_at`
+      )
+      .run(
+        memory.id,
+        memory.agentId,
+        memory.userId,
+        memory.content,
+        memory.key ?? null,
+        memory.createdAt,
+        memory.updatedAt
+      );
+  }
+
+  async list(
+    agentId: string,
+    userId: string,
+    { offset = 0, limit }: Paging = {}
+  ) {
+    const { total } = this.db
+      .prepare(
+        "SELECT COUNT(*) AS total FROM user_memories WHERE agent_id = ? AND user_id = ?"
+      )
+      .get(agentId, userId) as { total: number };
+
+    const rows = this.db
+      .prepare(
+        `SELECT id, agent_id AS agentId, user_id AS userId, content, key,
+         created_at AS createdAt, updated_at AS updatedAt
+         FROM user_memories WHERE agent_id = ? AND user_id = ?
+         ORDER BY created_at, id LIMIT ? OFFSET ?`
+      )
+      .all(agentId, userId, limit ?? -1, offset) as (UserMemory & {
+      key: string | null;
+    })[];
+
+    return {
+      total,
+      memories: rows.map(({ key, ...memory }) => ({
+        ...memory,
+        ...(key !== null ? { key } : {}),
+      })),
+    };
+  }
+
+  async delete(agentId: string, userId: string, id: string) {
+    return (
+      this.db
+        .prepare(
+          "DELETE FROM user_memories WHERE id = ? AND agent_id = ? AND user_id = ?"
+        )
+        .run(id, agentId, userId).changes > 0
+    );
+  }
+
+  async deleteUser(agentId: string, userId: string) {
+    return this.db
+      .prepare("DELETE FROM user_memories WHERE agent_id = ? AND user_id = ?")
+      .run(agentId, userId).changes;
+  }
+
+  async bindThread(agentId: string, threadId: string, userId: string) {
+    this.db
+      .prepare(
+        "INSERT OR IGNORE INTO thread_users (agent_id, thread_id, user_id) VALUES (?, ?, ?)"
+      )
+      .run(agentId, threadId, userId);
+    return (await this.getThreadUser(agentId, threadId))!;
+  }
+
+  async getThreadUser(agentId: string, threadId: string) {
+    const row = this.db
+      .prepare(
+        "SELECT user_id AS userId FROM thread_users WHERE agent_id = ? AND thread_id = ?"
+      )
+      .get(agentId, threadId) as { userId: string } | undefined;
+    return row?.userId ?? null;
+  }
+
+  async unbindThread(agentId: string, threadId: string) {
+    return (
+      this.db
+        .prepare(
+          "DELETE FROM thread_users WHERE agent_id = ? AND thread_id = ?"
+        )
+        .run(agentId, threadId).changes > 0
+    );
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+/**
+ * Thrown when a thread is used with another user than the one it belongs to
+ */
+export class ThreadOwnerError extends Error {
+  threadId: string;
+
+  constructor(threadId: string) {
+    super(`Thread ${threadId} belongs to another user`);
+    this.name = "ThreadOwnerError";
+    this.threadId = threadId;
+  }
+}
+
+/**
+ * Long-term memory of an agent: facts about its users kept across threads.
+ * Threads are bound to the user they belong to, which scopes the memory
+ * tools and the memories added to the prompt. Bindings are saved in the
+ * store with the memories
+ */
+export class AgentMemory {
+  readonly store: UserMemoryStore;
+  readonly topK: number;
+
+  constructor(private agentId: string, config: UserMemoryConfig = {}) {
+    this.store = config.store || new MemoryUserMemoryStore();
+    this.topK = config.topK ?? DEFAULT_TOP_K;
+  }
+
+  /**
+   * Binds a thread to a user, later messages of the thread use the user's
+   * memories. A thread keeps the first user it was bound to, binding it to
+   * another one throws a ThreadOwnerError
+   */
+  async bindThread(threadId: string, userId: string) {
+    const owner = await this.store.bindThread(this.agentId, threadId, userId);
+    if (owner !== userId) {
+      throw new ThreadOwnerError(threadId);
+    }
+  }
+
+  /**
+   *
+   * @returns the user the thread is bound to
+   */
+  async userOf(threadId: string) {
+    return (
+      (await this.store.getThreadUser(this.agentId, threadId)) ?? undefined
+    );
+  }
+
+  /**
+   * Removes the thread's binding, e.g. once the thread is deleted
+   */
+  async unbindThread(threadId: string) {
+    return this.store.unbindThread(this.agentId, threadId);
+  }
+
+  /**
+   * Remembers a fact about a user, replacing the fact with the same key
+   *
+   * @param userId user the fact is about
+   * @param content the fact, e.g. "Prefers answers in French"
+   * @param key topic of the fact, e.g. "language"
+   * @returns the saved memory
+   */
+  async remember(userId: string, content: string, key?: string) {
+    const now = new Date().toISOString();
+    const existing = key
+      ? (await this.store.list(this.agentId, userId)).memories.find(
+          (memory) => memory.key === key
+        )
+      : undefined;
+
+    const memory: UserMemory = {
+      id: existing?.id || randomUUID(),
+      agentId: this.agentId,
+      userId,
+      content,
+      ...(key ? { key } : {}),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await this.store.save(memory);
+
+    return memory;
+  }
+
+  /**
+   * Recalls the memories of a user. With a query, the memories matching it
+   * come first and the latest ones fill the rest
+   *
+   * @param userId user the memories are about
+   * @param query free text query, e.g. the user's message
+   * @param limit maximum number of memories, `topK` by default
+   * @returns the recalled memories
+   */
+  async recall(userId: string, query?: string, limit = this.topK) {
+    const { memories } = await this.store.list(this.agentId, userId);
+    if (memories.length <= limit) {
+      return memories;
+    }
+
+    const latest = [...memories].reverse();
+    if (!query) {
+      return latest.slice(0, limit);
+    }
+
+    const index = new BM25Index();
+    memories.forEach((memory) =>
+      index.add(memory.id, `${memory.key || ""}\n${memory.content}`)
+    );
+    const matching = index
+      .search(query, limit)
+      .map(({ id }) => memories.find((memory) => memory.id === id)!);
+
+    return [
+      ...matching,
+      ...latest.filter((memory) => !matching.includes(memory)),
+    ].slice(0, limit);
+  }
+
+  async forget(userId: string, id: string) {
+    return this.store.delete(this.agentId, userId, id);
+  }
+
+  /**
+   * Deletes everything the agent remembers about a user, e.g. for privacy
+   * requests
+   *
+   * @returns number of deleted memories
+   */
+  async forgetUser(userId: string) {
+    return this.store.deleteUser(this.agentId, userId);
+  }
+}
+
+// Helper function to get the user of the thread a memory tool runs on
+const requireUser = async (memory: AgentMemory, threadId?: string) => {
+  const userId = threadId ? await memory.userOf(threadId) : undefined;
+  if (!userId) {
+    throw new Error(
+      "No user is associated with this conversation, send the message with a userId"
+    );
+  }
+  return userId;
+};
+
+/**
+ * Creates the `remember`, `recall` and `forget` tools, which manage the
+ * memories of the user the thread is bound to
+ *
+ * @returns A registry-compatible tool exporter function
+ */
+export function createMemoryTools(): ToolRegistryFunction {
+  const registries = [
+    createTool(
+      {
+        name: "remember",
+        description:
+          "Remembers a lasting fact about the user across conversations, e.g. their preferred wallet, risk tolerance or language. Use a key to replace an earlier fact on the same topic",
+        schema: z.object({
+          content: z.string().describe("The fact, as a short sentence"),
+          key: z
+            .string()
+            .optional()
+            .describe('Topic of the fact, e.g. "preferred wallet"'),
+        }),
+      },
+      async ({ content, key }, agent, { threadId }) => {
+        const memory = await agent.memory.remember(
+          await requireUser(agent.memory, threadId),
+          content,
+          key
+        );
+        return { id: memory.id, content, ...(key ? { key } : {}) };
+      }
+    ),
+    createTool(
+      {
+        name: "recall",
+        description:
+          "Looks up the facts remembered about the user, most relevant first",
+        schema: z.object({
+          query: z
+            .string()
+            .optional()
+            .describe("What to look for, all facts when omitted"),
+        }),
+      },
+      async ({ query }, agent, { threadId }) =>
+        (
+          await agent.memory.recall(
+            await requireUser(agent.memory, threadId),
+            query
+          )
+        ).map(({ id, key, content }) => ({
+          id,
+          ...(key ? { key } : {}),
+          content,
+        }))
+    ),
+    createTool(
+      {
+        name: "forget",
+        description:
+          "Forgets a fact remembered about the user, by its id (see recall)",
+        schema: z.object({
+          id: z.string().describe("Id of the fact"),
+        }),
+      },
+      async ({ id }, agent, { threadId }) => {
+        const userId = await requireUser(agent.memory, threadId);
+        if (!(await agent.memory.forget(userId, id))) {
+          throw new Error(`Memory ${id} not found`);
+        }
+        return { id, forgotten: true };
+      }
+    ),
+  ];
+
+  const registry: ToolRegistryFunction = async (agent) => {
+    const loaded = await Promise.all(
+      registries.map((registry) => registry(agent))
+    );
+    return {
+      tools: loaded.flatMap(({ tools }) => tools),
+      schema: Object.assign({}, ...loaded.map(({ schema }) => schema)),
+    };
+  };
+
+  return Object.assign(registry, {
+    describe: async () =>
+      Object.assign(
+        {},
+        ...(await Promise.all(
+          registries.map((registry) => registry.describe!())
+        ))
+      ),
+  });
+}
+
+// Bundle of the memory tools, registered by the server as "memory"
+export const memoryToolBundle: ToolBundle = {
+  name: "memory",
+  description: "Remembers facts about the user across conversations",
+  registry: createMemoryTools(),
+};
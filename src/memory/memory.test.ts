@@ -0,0 +1,150 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { collectEvents, createTestAgent } from "../testing";
+import { UserMemory, UserMemoryStore } from "../types";
+import {
+  AgentMemory,
+  createMemoryTools,
+  FileUserMemoryStore,
+  MemoryUserMemoryStore,
+  SQLiteUserMemoryStore,
+  ThreadOwnerError,
+} from ".";
+
+// Helper function to build a memory
+function memory(id: string, userId: string, agentId = "a"): UserMemory {
+  return {
+    id,
+    agentId,
+    userId,
+    content: `Fact ${id}`,
+    createdAt: `2026-01-01T00:00:0${id}.000Z`,
+    updatedAt: `2026-01-01T00:00:0${id}.000Z`,
+  };
+}
+
+// Helper function to run the shared store checks
+async function checkStore(store: UserMemoryStore) {
+  await store.save(memory("1", "ada"));
+  await store.save({ ...memory("2", "ada"), key: "wallet" });
+  await store.save(memory("3", "bob"));
+  await store.save(memory("4", "ada", "b"));
+
+  assert.deepEqual(await store.list("a", "ada", { offset: 1, limit: 1 }), {
+    total: 2,
+    memories: [{ ...memory("2", "ada"), key: "wallet" }],
+  });
+
+  await store.save({ ...memory("1", "ada"), content: "Updated" });
+  assert.equal((await store.list("a", "ada")).memories[0]?.content, "Updated");
+
+  // Memories are scoped to their agent and user
+  assert.equal(await store.delete("a", "bob", "1"), false);
+  assert.equal(await store.delete("a", "ada", "1"), true);
+  assert.equal(await store.deleteUser("a", "ada"), 1);
+  assert.equal((await store.list("a", "ada")).total, 0);
+  assert.equal((await store.list("a", "bob")).total, 1);
+  assert.equal((await store.list("b", "ada")).total, 1);
+
+  // Threads keep the first user they're bound to
+  assert.equal(await store.bindThread("a", "t1", "ada"), "ada");
+  assert.equal(await store.bindThread("a", "t1", "bob"), "ada");
+  assert.equal(await store.bindThread("a", "t2", "bob"), "bob");
+  assert.equal(await store.getThreadUser("b", "t1"), null);
+  assert.equal(await store.unbindThread("a", "t2"), true);
+  assert.equal(await store.unbindThread("a", "t2"), false);
+  assert.equal(await store.getThreadUser("a", "t2"), null);
+}
+
+test("user memory stores save, page and delete memories", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "axicov-memory-"));
+
+  try {
+    await checkStore(new MemoryUserMemoryStore());
+
+    const filePath = join(dir, "memories.json");
+    await checkStore(new FileUserMemoryStore(filePath));
+    const reopened = new FileUserMemoryStore(filePath);
+    assert.equal((await reopened.list("a", "bob")).total, 1);
+    assert.equal(await reopened.getThreadUser("a", "t1"), "ada");
+
+    const sqlite = new SQLiteUserMemoryStore(join(dir, "memories.db"));
+    await checkStore(sqlite);
+    sqlite.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("recalls the memories relevant to a query first", async () => {
+  const memory = new AgentMemory("a", { topK: 2 });
+  await memory.remember("ada", "Prefers the Phantom wallet", "wallet");
+  await memory.remember("ada", "Has a low risk tolerance");
+  await memory.remember("ada", "Speaks French", "language");
+  await memory.remember("ada", "Switched to Solflare", "wallet");
+
+  assert.deepEqual(
+    (await memory.recall("ada", "Which wallet should I use?")).map(
+      (item) => item.content
+    ),
+    ["Switched to Solflare", "Speaks French"]
+  );
+  assert.equal((await memory.recall("ada")).length, 2);
+  assert.equal((await memory.recall("bob")).length, 0);
+});
+
+test("remembers facts in one thread and uses them in another", async () => {
+  const { agent, model } = await createTestAgent({
+    responses: [
+      '["remember"]',
+      {
+        toolCalls: [
+          {
+            name: "remember",
+            args: { content: "Prefers the Phantom wallet", key: "wallet" },
+          },
+        ],
+      },
+      "Noted",
+      "[]",
+      "You use Phantom",
+      '["recall"]',
+      { toolCalls: [{ name: "recall", args: {} }] },
+      "I don't know you",
+    ],
+    tools: [createMemoryTools()],
+  });
+
+  await collectEvents(
+    agent.streamMessage("I use Phantom", { threadId: "t1", userId: "ada" })
+  );
+  await collectEvents(
+    agent.streamMessage("Which wallet do I use?", {
+      threadId: "t2",
+      userId: "ada",
+    })
+  );
+
+  assert.match(
+    model.calls[4]![0]!.content as string,
+    /WHAT YOU REMEMBER ABOUT THE USER:\n- wallet: Prefers the Phantom wallet/
+  );
+
+  // Threads without a user have no memories
+  const events = await collectEvents(
+    agent.streamMessage("What do you know?", { threadId: "t3" })
+  );
+  const result = events.find((event) => event.type === "tool_result");
+  assert.equal(
+    result?.type === "tool_result" && result.result?.ok === false,
+    true
+  );
+  assert.doesNotMatch(model.calls[7]![0]!.content as string, /Phantom/);
+
+  // A thread can't be taken over by another user
+  await assert.rejects(agent.memory.bindThread("t1", "bob"), ThreadOwnerError);
+  assert.equal(await agent.memory.userOf("t1"), "ada");
+});
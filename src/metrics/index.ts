@@ -0,0 +1,406 @@
+import type { Agent } from "../agent";
+import { MetricLabels } from "../types";
+
+// Seconds, from fast tool calls to slow model turns
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+// Helper function to escape a label value for the text format
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+// Helper function to format a label set, e.g. {tool="getPrices"}
+const formatLabels = (labels: [string, string][]) =>
+  labels.length === 0
+    ? ""
+    : `{${labels
+        .map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+        .join(",")}}`;
+
+/**
+ * Base of the metric types: series are kept per combination of the label
+ * values, in the order of `labelNames`
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: string[]; value: T }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly labelNames: string[] = []
+  ) {}
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  protected abstract initial(): T;
+
+  // Helper function to find the series of a label set
+  protected find(labels: MetricLabels) {
+    return this.series.get(
+      JSON.stringify(this.labelNames.map((name) => labels[name] ?? ""))
+    );
+  }
+
+  // Helper function to find or create the series of a label set
+  protected seriesFor(labels: MetricLabels) {
+    const values = this.labelNames.map((name) => labels[name] ?? "");
+    const key = JSON.stringify(values);
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: values, value: this.initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected pairs(labels: string[]): [string, string][] {
+    return this.labelNames.map((name, index) => [name, labels[index]!]);
+  }
+
+  reset() {
+    this.series.clear();
+  }
+
+  abstract samples(): string[];
+
+  /**
+   *
+   * @returns the metric in the Prometheus text exposition format
+   */
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+}
+
+export class Counter extends Metric<number> {
+  readonly type = "counter";
+
+  protected initial() {
+    return 0;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} can't decrease`);
+    }
+    this.seriesFor(labels).value += value;
+  }
+
+  get(labels: MetricLabels = {}) {
+    return this.find(labels)?.value ?? 0;
+  }
+
+  samples() {
+    return Array.from(
+      this.series.values(),
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(this.pairs(labels))} ${value}`
+    );
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = "gauge";
+
+  protected initial() {
+    return 0;
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.seriesFor(labels).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    this.seriesFor(labels).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value = 1) {
+    this.seriesFor(labels).value -= value;
+  }
+
+  get(labels: MetricLabels = {}) {
+    return this.find(labels)?.value ?? 0;
+  }
+
+  samples() {
+    return Array.from(
+      this.series.values(),
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(this.pairs(labels))} ${value}`
+    );
+  }
+}
+
+export class Histogram extends Metric<{
+  buckets: number[];
+  sum: number;
+  count: number;
+}> {
+  readonly type = "histogram";
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    public readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected initial() {
+    return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const series = this.seriesFor(labels).value;
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]! += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  get(labels: MetricLabels = {}) {
+    const { sum = 0, count = 0 } = this.find(labels)?.value || {};
+    return { sum, count };
+  }
+
+  samples() {
+    return Array.from(this.series.values()).flatMap(({ labels, value }) => {
+      const pairs = this.pairs(labels);
+
+      return [
+        ...this.buckets.map(
+          (bound, index) =>
+            `${this.name}_bucket${formatLabels([
+              ...pairs,
+              ["le", String(bound)],
+            ])} ${value.buckets[index]}`
+        ),
+        `${this.name}_bucket${formatLabels([...pairs, ["le", "+Inf"]])} ${
+          value.count
+        }`,
+        `${this.name}_sum${formatLabels(pairs)} ${value.sum}`,
+        `${this.name}_count${formatLabels(pairs)} ${value.count}`,
+      ];
+    });
+  }
+}
+
+/**
+ * Collection of metrics rendered together, e.g. by `GET /metrics`
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<any>>();
+
+  counter(name: string, help: string, labelNames: string[] = []) {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []) {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    buckets?: number[]
+  ) {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  // Helper function to add a metric, rejecting duplicate names
+  private register<M extends Metric<any>>(metric: M) {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  get(name: string) {
+    return this.metrics.get(name);
+  }
+
+  // Clears the values of every metric, keeping the metrics registered
+  reset() {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  /**
+   *
+   * @returns every metric in the Prometheus text exposition format
+   */
+  render() {
+    return (
+      Array.from(this.metrics.values(), (metric) => metric.render()).join(
+        "\n"
+      ) + "\n"
+    );
+  }
+}
+
+// Metrics of the SDK and the server, host apps can register their own
+export const metrics = new MetricsRegistry();
+
+// Helper function to register the SDK metrics on a registry
+const registerSdkMetrics = (registry: MetricsRegistry) => ({
+  httpRequestDuration: registry.histogram(
+    "axicov_http_request_duration_seconds",
+    "Duration of HTTP requests by route",
+    ["method", "route", "status"]
+  ),
+  modelCallDuration: registry.histogram(
+    "axicov_model_call_duration_seconds",
+    "Duration of model calls by provider",
+    ["provider", "model", "kind"]
+  ),
+  modelCallErrors: registry.counter(
+    "axicov_model_call_errors_total",
+    "Failed model calls by provider",
+    ["provider", "model", "kind"]
+  ),
+  toolCalls: registry.counter(
+    "axicov_tool_calls_total",
+    "Tool invocations by tool name",
+    ["tool"]
+  ),
+  toolCallDuration: registry.histogram(
+    "axicov_tool_call_duration_seconds",
+    "Duration of tool invocations by tool name",
+    ["tool"]
+  ),
+  toolCallFailures: registry.counter(
+    "axicov_tool_call_failures_total",
+    "Failed tool invocations by tool name and error code",
+    ["tool", "code"]
+  ),
+  orchestrationFallbacks: registry.counter(
+    "axicov_orchestration_fallbacks_total",
+    "Orchestrations answered by a fallback router",
+    ["router", "fallback"]
+  ),
+  activeThreads: registry.gauge(
+    "axicov_active_threads",
+    "Threads with a run in progress"
+  ),
+  // Runs in progress, by agent and thread
+  runningThreads: new Set<string>(),
+});
+
+// SDK metrics of each registry, registered on first use
+const sdkMetrics = new WeakMap<
+  MetricsRegistry,
+  ReturnType<typeof registerSdkMetrics>
+>();
+
+// Helper function to get the SDK metrics of a registry
+const sdkMetricsOf = (registry: MetricsRegistry) => {
+  let registered = sdkMetrics.get(registry);
+  if (!registered) {
+    registered = registerSdkMetrics(registry);
+    sdkMetrics.set(registry, registered);
+  }
+  return registered;
+};
+// Rendered by the shared registry before anything is recorded
+sdkMetricsOf(metrics);
+
+// Helper function to split a "provider:model" label
+const splitModel = (model: string) => {
+  const separator = model.indexOf(":");
+  return separator === -1
+    ? { provider: "unknown", model }
+    : {
+        provider: model.slice(0, separator),
+        model: model.slice(separator + 1),
+      };
+};
+
+/**
+ * Records an HTTP request in `axicov_http_request_duration_seconds`
+ *
+ * @param route route pattern, e.g. "/agent/:agentId"
+ * @param durationMs request duration in milliseconds
+ * @param registry registry to record in, the shared `metrics` by default
+ */
+export const observeHttpRequest = (
+  method: string,
+  route: string,
+  status: number,
+  durationMs: number,
+  registry = metrics
+) => {
+  sdkMetricsOf(registry).httpRequestDuration.observe(
+    { method, route, status: String(status) },
+    durationMs / 1000
+  );
+};
+
+/**
+ * Records an agent's model calls, tool calls, orchestration fallbacks and
+ * runs in the SDK metrics
+ *
+ * @param registry registry to record in, the shared `metrics` by default
+ * @returns a function removing the listeners
+ */
+export function instrumentAgent(agent: Agent, registry = metrics) {
+  const {
+    modelCallDuration,
+    modelCallErrors,
+    toolCalls,
+    toolCallDuration,
+    toolCallFailures,
+    orchestrationFallbacks,
+    activeThreads,
+    runningThreads,
+  } = sdkMetricsOf(registry);
+  const threadKey = (threadId: string) => `${agent.agentId}\u0000${threadId}`;
+  const endRun = ({ threadId }: { threadId: string }) => {
+    runningThreads.delete(threadKey(threadId));
+    activeThreads.set({}, runningThreads.size);
+  };
+
+  const unsubscribers = [
+    agent.on("model_end", ({ model, kind, durationMs }) =>
+      modelCallDuration.observe(
+        { ...splitModel(model), kind },
+        durationMs / 1000
+      )
+    ),
+    agent.on("model_error", ({ model, kind }) =>
+      modelCallErrors.inc({ ...splitModel(model), kind })
+    ),
+    agent.on("tool_end", ({ name, durationMs, result }) => {
+      toolCalls.inc({ tool: name });
+      toolCallDuration.observe({ tool: name }, durationMs / 1000);
+      if (!result.ok) {
+        toolCallFailures.inc({ tool: name, code: result.error.code });
+      }
+    }),
+    agent.on("orchestrated", ({ router, fallback }) => {
+      if (fallback) {
+        orchestrationFallbacks.inc({ router, fallback });
+      }
+    }),
+    agent.on("run_started", ({ threadId }) => {
+      runningThreads.add(threadKey(threadId));
+      activeThreads.set({}, runningThreads.size);
+    }),
+    agent.on("run_completed", endRun),
+    agent.on("run_failed", endRun),
+    agent.on("approval_requested", endRun),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectEvents, createTestAgent, fakeTool } from "../testing";
+import { Gauge, instrumentAgent, metrics, MetricsRegistry } from ".";
+
+test("renders metrics in the Prometheus text format", () => {
+  const registry = new MetricsRegistry();
+  const requests = registry.counter("requests_total", "Requests", ["route"]);
+  const latency = registry.histogram("latency_seconds", "Latency", [], [1, 5]);
+
+  requests.inc({ route: '/a"b' });
+  requests.inc({ route: '/a"b' }, 2);
+  latency.observe({}, 0.5);
+  latency.observe({}, 3);
+
+  assert.equal(
+    registry.render(),
+    [
+      "# HELP requests_total Requests",
+      "# TYPE requests_total counter",
+      'requests_total{route="/a\\"b"} 3',
+      "# HELP latency_seconds Latency",
+      "# TYPE latency_seconds histogram",
+      'latency_seconds_bucket{le="1"} 1',
+      'latency_seconds_bucket{le="5"} 2',
+      'latency_seconds_bucket{le="+Inf"} 2',
+      "latency_seconds_sum 3.5",
+      "latency_seconds_count 2",
+      "",
+    ].join("\n")
+  );
+  assert.throws(() => registry.counter("requests_total", "Again"));
+});
+
+test("instrumented agents record tool calls, fallbacks and runs", async () => {
+  metrics.reset();
+  const { agent } = await createTestAgent({
+    agentId: "metrics-agent",
+    responses: [
+      "not a tool list",
+      {
+        toolCalls: [
+          { name: "getPrices", args: {} },
+          { name: "transfer", args: {} },
+        ],
+      },
+      "Done",
+    ],
+    tools: [
+      fakeTool({ name: "getPrices", result: "3.99" }),
+      fakeTool({
+        name: "transfer",
+        result: () => {
+          throw new Error("Insufficient funds");
+        },
+      }),
+    ],
+  });
+  instrumentAgent(agent);
+
+  const activeDuringRun: number[] = [];
+  agent.on("tool_start", () => {
+    activeDuringRun.push((metrics.get("axicov_active_threads") as Gauge).get());
+  });
+
+  await collectEvents(agent.streamMessage("Buy"));
+
+  const text = metrics.render();
+  assert.match(text, /^axicov_tool_calls_total\{tool="getPrices"\} 1$/m);
+  assert.match(text, /^axicov_tool_calls_total\{tool="transfer"\} 1$/m);
+  assert.match(
+    text,
+    /^axicov_tool_call_failures_total\{tool="transfer",code="TOOL_ERROR"\} 1$/m
+  );
+  assert.match(
+    text,
+    /^axicov_tool_call_duration_seconds_count\{tool="getPrices"\} 1$/m
+  );
+  assert.match(
+    text,
+    /^axicov_orchestration_fallbacks_total\{router="llm",fallback="all"\} 1$/m
+  );
+  assert.match(
+    text,
+    /^axicov_model_call_duration_seconds_count\{provider="unknown",model="ScriptedChatModel",kind="agent"\} 2$/m
+  );
+  assert.deepEqual(activeDuringRun, [1, 1]);
+  assert.match(text, /^axicov_active_threads 0$/m);
+});
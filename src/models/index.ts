@@ -0,0 +1,351 @@
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  isAIMessageChunk,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { ChatOpenAI } from "@langchain/openai";
+import { ModelConfig } from "../types";
+import { extractContent } from "../utils/messages";
+import { logger } from "../logger";
+
+// Tag of the nested model calls made by FallbackChatModel
+export const FALLBACK_ATTEMPT_TAG = "axicov:fallback_attempt";
+
+// Helper function to convert the full message returned by models without
+// streaming support into a chunk
+function toMessageChunk(message: BaseMessage): AIMessageChunk {
+  if (isAIMessageChunk(message as AIMessageChunk)) {
+    return message as AIMessageChunk;
+  }
+
+  const aiMessage = message as AIMessage;
+  return new AIMessageChunk({
+    content: aiMessage.content,
+    tool_calls: aiMessage.tool_calls || [],
+    additional_kwargs: aiMessage.additional_kwargs,
+    response_metadata: aiMessage.response_metadata,
+    ...(aiMessage.usage_metadata
+      ? { usage_metadata: aiMessage.usage_metadata }
+      : {}),
+    ...(aiMessage.id ? { id: aiMessage.id } : {}),
+  });
+}
+
+/**
+ * Deterministic chat model for tests and local development. Replies with the
+ * configured responses in order (repeating them), or echoes the last message
+ */
+export class FakeChatModel extends BaseChatModel {
+  responses: string[];
+  private index = 0;
+
+  constructor({ responses = [] }: { responses?: string[] } = {}) {
+    super({});
+    this.responses = responses;
+  }
+
+  _llmType() {
+    return "fake";
+  }
+
+  // Tools are accepted but never called
+  override bindTools(): any {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    let text: string;
+
+    if (this.responses.length > 0) {
+      text = this.responses[this.index % this.responses.length];
+      this.index++;
+    } else {
+      const lastMessage = messages[messages.length - 1];
+      text = lastMessage ? extractContent(lastMessage.content) : "";
+    }
+
+    return {
+      generations: [{ message: new AIMessage(text), text }],
+    };
+  }
+}
+
+/**
+ * Chat model that tries a list of models in order, moving on to the next one
+ * when a model errors (e.g. rate limits or outages). The model that served
+ * each response is recorded in `response_metadata.servedBy`
+ */
+export class FallbackChatModel extends BaseChatModel {
+  models: { label: string; model: BaseChatModel }[];
+  private boundTools: any[] | undefined;
+  private toolKwargs: any;
+
+  constructor({
+    models,
+    tools,
+    toolKwargs,
+  }: {
+    models: { label: string; model: BaseChatModel }[];
+    tools?: any[];
+    toolKwargs?: any;
+  }) {
+    super({});
+
+    if (models.length === 0) {
+      throw new Error("FallbackChatModel requires at least one model");
+    }
+
+    this.models = models;
+    this.boundTools = tools;
+    this.toolKwargs = toolKwargs;
+  }
+
+  _llmType() {
+    return "fallback";
+  }
+
+  override bindTools(tools: any[], kwargs?: any): any {
+    return new FallbackChatModel({
+      models: this.models,
+      tools,
+      toolKwargs: kwargs,
+    });
+  }
+
+  // Helper function to get a model with the bound tools applied
+  private runnableFor(model: BaseChatModel) {
+    if (!this.boundTools) {
+      return model;
+    }
+    if (!model.bindTools) {
+      throw new Error(`Model ${model._llmType()} does not support tools`);
+    }
+    return model.bindTools(this.boundTools, this.toolKwargs);
+  }
+
+  // Helper function to build the options of a nested model call. The nested
+  // runs are tagged "nostream" so streamed tokens are only reported once, and
+  // as fallback attempts so their usage isn't counted twice
+  private childOptions(options: this["ParsedCallOptions"]): any {
+    return { ...options, tags: ["nostream", FALLBACK_ATTEMPT_TAG] };
+  }
+
+  // Helper function to decide whether a failure may fall through to the
+  // next model
+  private canFallback(index: number, options: BaseChatModelCallOptions) {
+    return index < this.models.length - 1 && !options.signal?.aborted;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    for (const [index, { label, model }] of this.models.entries()) {
+      try {
+        const message = await this.runnableFor(model).invoke(
+          messages,
+          this.childOptions(options)
+        );
+
+        message.response_metadata = {
+          ...message.response_metadata,
+          servedBy: label,
+        };
+
+        return {
+          generations: [{ message, text: extractContent(message.content) }],
+        };
+      } catch (error) {
+        if (!this.canFallback(index, options)) {
+          throw error;
+        }
+        logger.error(`Model ${label} failed, falling back:`, error);
+      }
+    }
+
+    // Unreachable, the last model rethrows its error
+    throw new Error("All models failed");
+  }
+
+  override async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (const [index, { label, model }] of this.models.entries()) {
+      let started = false;
+
+      try {
+        const stream = await this.runnableFor(model).stream(
+          messages,
+          this.childOptions(options)
+        );
+
+        for await (const chunk of stream) {
+          const message = toMessageChunk(chunk);
+
+          if (!started) {
+            message.response_metadata = {
+              ...message.response_metadata,
+              servedBy: label,
+            };
+            started = true;
+          }
+
+          const generationChunk = new ChatGenerationChunk({
+            message,
+            text: extractContent(message.content),
+          });
+
+          yield generationChunk;
+          await runManager?.handleLLMNewToken(
+            generationChunk.text,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            { chunk: generationChunk }
+          );
+        }
+
+        return;
+      } catch (error) {
+        // Tokens already streamed can't be taken back
+        if (started || !this.canFallback(index, options)) {
+          throw error;
+        }
+        logger.error(`Model ${label} failed, falling back:`, error);
+      }
+    }
+  }
+}
+
+let allowedBaseURLs: string[] | undefined;
+
+/**
+ * Replaces the base URLs models can be created with, read from
+ * MODEL_BASE_URLS (comma-separated) by default. A URL is allowed when it has
+ * the origin of an entry and its path is under the entry's path
+ *
+ * @param urls e.g. ["http://localhost:11434/v1"]
+ */
+export const setAllowedBaseURLs = (urls: string[]) => {
+  allowedBaseURLs = urls;
+};
+
+// Helper function to parse a URL, undefined when it's invalid
+const parseURL = (value: string) => {
+  try {
+    return new URL(value);
+  } catch {
+    return undefined;
+  }
+};
+
+// Helper function to reject base URLs outside the allow-list, which would
+// send the model's key and prompts to another host
+function assertAllowedBaseURL(baseURL: string) {
+  allowedBaseURLs ??= (process.env.MODEL_BASE_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+  const url = parseURL(baseURL);
+  const allowed =
+    url &&
+    allowedBaseURLs.some((entry) => {
+      const allowedURL = parseURL(entry);
+      const path = allowedURL?.pathname.replace(/\/+$/, "") ?? "";
+
+      return (
+        allowedURL?.origin === url.origin &&
+        (url.pathname === path || url.pathname.startsWith(`${path}/`))
+      );
+    });
+
+  if (!allowed) {
+    throw new Error(
+      `baseURL ${baseURL} isn't allowed, add it to MODEL_BASE_URLS`
+    );
+  }
+}
+
+// Helper function to create a single provider model from config
+function createProviderModel(config: ModelConfig): BaseChatModel {
+  if (config.baseURL) {
+    assertAllowedBaseURL(config.baseURL);
+  }
+
+  const common = {
+    modelName: config.modelName,
+    ...(config.apiKey ? { apiKey: config.apiKey } : {}),
+    ...(config.temperature !== undefined
+      ? { temperature: config.temperature }
+      : {}),
+    ...(config.maxRetries !== undefined
+      ? { maxRetries: config.maxRetries }
+      : {}),
+  };
+
+  switch (config.provider) {
+    case "anthropic":
+      return new ChatAnthropic(common);
+    case "gemini":
+      return new ChatGoogleGenerativeAI(common);
+    case "openai":
+      return new ChatOpenAI({
+        ...common,
+        ...(config.baseURL
+          ? { configuration: { baseURL: config.baseURL } }
+          : {}),
+      });
+    case "openai-compatible":
+      if (!config.baseURL) {
+        throw new Error("baseURL is required for openai-compatible models");
+      }
+      return new ChatOpenAI({
+        ...common,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: config.apiKey || "not-needed",
+        configuration: { baseURL: config.baseURL },
+      });
+    case "fake":
+      return new FakeChatModel(
+        config.responses ? { responses: config.responses } : {}
+      );
+    default:
+      throw new Error(`Unsupported model provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Creates a chat model from a serializable config. When fallbacks are
+ * configured the models are wrapped in a FallbackChatModel
+ *
+ * @param config provider, model name and credentials
+ * @returns the chat model
+ */
+export function createModelFromConfig(config: ModelConfig): BaseChatModel {
+  const { fallbacks = [], ...primary } = config;
+
+  if (fallbacks.length === 0) {
+    return createProviderModel(primary);
+  }
+
+  return new FallbackChatModel({
+    models: [primary, ...fallbacks].map((modelConfig) => ({
+      label: `${modelConfig.provider}:${modelConfig.modelName}`,
+      model: createProviderModel(modelConfig),
+    })),
+  });
+}
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  createModelFromConfig,
+  FakeChatModel,
+  FallbackChatModel,
+  setAllowedBaseURLs,
+} from ".";
+import { collectEvents, createTestAgent, ScriptedChatModel } from "../testing";
+
+class FailingChatModel extends BaseChatModel {
+  _llmType() {
+    return "failing";
+  }
+
+  override bindTools(): any {
+    return this;
+  }
+
+  async _generate(): Promise<any> {
+    throw new Error("429 Too Many Requests");
+  }
+}
+
+test("fake provider replays responses in order", async () => {
+  const model = createModelFromConfig({
+    provider: "fake",
+    modelName: "fake",
+    responses: ["a", "b"],
+  });
+
+  assert.ok(model instanceof FakeChatModel);
+  assert.equal((await model.invoke("x")).content, "a");
+  assert.equal((await model.invoke("x")).content, "b");
+  assert.equal((await model.invoke("x")).content, "a");
+});
+
+test("openai-compatible provider requires a baseURL", () => {
+  assert.throws(
+    () =>
+      createModelFromConfig({
+        provider: "openai-compatible",
+        modelName: "llama3",
+      }),
+    /baseURL is required/
+  );
+});
+
+test("base URLs must be on the allow-list", () => {
+  setAllowedBaseURLs(["http://localhost:11434/v1"]);
+
+  try {
+    // Helper function to create a model with a base URL
+    const create = (baseURL: string) =>
+      createModelFromConfig({
+        provider: "openai-compatible",
+        modelName: "llama3",
+        baseURL,
+      });
+
+    assert.ok(create("http://localhost:11434/v1"));
+    assert.ok(create("http://localhost:11434/v1/"));
+    for (const baseURL of [
+      "https://attacker.example/v1",
+      "http://localhost:11434/v10",
+      "http://localhost:8080/v1",
+      "not a url",
+    ]) {
+      assert.throws(() => create(baseURL), /isn't allowed/);
+    }
+  } finally {
+    setAllowedBaseURLs([]);
+  }
+});
+
+test("fallbacks serve the turn when the primary model fails", async () => {
+  const model = new FallbackChatModel({
+    models: [
+      { label: "failing:primary", model: new FailingChatModel({}) },
+      {
+        label: "scripted:backup",
+        model: new ScriptedChatModel(["[]", "from backup"]),
+      },
+    ],
+  });
+  const { agent } = await createTestAgent({ model: model as any });
+
+  const events = await collectEvents(agent.streamMessage("hi"));
+
+  assert.deepEqual(events[events.length - 1], {
+    type: "final",
+    response: "from backup",
+    model: "scripted:backup",
+  });
+  const { messages } = await agent.getHistory();
+  assert.equal(messages[1]?.model, "scripted:backup");
+});
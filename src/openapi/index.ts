@@ -0,0 +1,503 @@
+import { readFileSync } from "fs";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import type { Agent } from "../agent";
+import { resolveSecret } from "../secrets";
+import {
+  OpenApiAuth,
+  OpenApiToolsConfig,
+  ToolRegistryFunction,
+  Tools,
+  ToolSchema,
+  toolType,
+} from "../types";
+import { ToolPolicyRunner } from "../utils/toolPolicy";
+import { serializeToolResult, toToolError } from "../utils/toolResult";
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+// Longest tool name accepted by the model providers
+const MAX_TOOL_NAME_LENGTH = 64;
+
+// Response bodies of failed requests are cut to this length in tool errors
+const MAX_ERROR_BODY_LENGTH = 500;
+
+// Property of the arguments holding the request body
+const BODY_ARGUMENT = "body";
+
+type OpenApiParameter = {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: Record<string, any>;
+};
+
+type OpenApiOperation = {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    contentType: string;
+    description?: string;
+    schema: Record<string, any>;
+  };
+};
+
+// Helper function to read a document from a JSON file or use it as is.
+// YAML documents have to be converted to JSON first
+const loadSpec = (spec: OpenApiToolsConfig["spec"]) => {
+  let document: Record<string, any>;
+  if (typeof spec !== "string") {
+    document = spec;
+  } else {
+    try {
+      document = JSON.parse(readFileSync(spec, "utf8"));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(
+          `${spec} is not valid JSON, only JSON OpenAPI documents are supported`
+        );
+      }
+      throw error;
+    }
+  }
+
+  if (!String(document?.openapi || "").startsWith("3.")) {
+    throw new Error("Only OpenAPI 3 documents are supported");
+  }
+  return document;
+};
+
+// Helper function to replace local `$ref`s (e.g. "#/components/schemas/Item")
+// with their targets. Recursive references become an empty schema
+function dereference(
+  value: any,
+  document: Record<string, any>,
+  seen: string[] = []
+): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => dereference(item, document, seen));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  if (typeof value.$ref === "string") {
+    const ref: string = value.$ref;
+    if (!ref.startsWith("#/")) {
+      throw new Error(`Unsupported external reference: ${ref}`);
+    }
+    if (seen.includes(ref)) {
+      return {};
+    }
+
+    const target = ref
+      .slice(2)
+      .split("/")
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce((node, part) => node?.[part], document as any);
+    if (target === undefined) {
+      throw new Error(`Unresolved reference: ${ref}`);
+    }
+    return dereference(target, document, [...seen, ref]);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      dereference(item, document, seen),
+    ])
+  );
+}
+
+// Helper function to list the operations of a document
+const listOperations = (document: Record<string, any>) =>
+  Object.entries<Record<string, any>>(document.paths || {}).flatMap(
+    ([path, rawItem]) => {
+      const item = dereference(rawItem, document);
+
+      return HTTP_METHODS.filter((method) => item[method]).map(
+        (method): OpenApiOperation => {
+          const operation = item[method];
+
+          // Operation parameters override path parameters of the same name
+          const parameters = new Map<string, OpenApiParameter>();
+          [...(item.parameters || []), ...(operation.parameters || [])].forEach(
+            (parameter: OpenApiParameter) =>
+              parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+          );
+
+          const content = operation.requestBody?.content || {};
+          const contentType =
+            ["application/json", "application/x-www-form-urlencoded"].find(
+              (type) => content[type]
+            ) || Object.keys(content)[0];
+
+          return {
+            method,
+            path,
+            operationId: operation.operationId,
+            summary: operation.summary,
+            description: operation.description,
+            parameters: Array.from(parameters.values()),
+            ...(contentType
+              ? {
+                  requestBody: {
+                    required: operation.requestBody.required || false,
+                    contentType,
+                    description: operation.requestBody.description,
+                    schema: content[contentType].schema || {},
+                  },
+                }
+              : {}),
+          };
+        }
+      );
+    }
+  );
+
+// Helper function to describe an operation as "GET /path"
+const operationLabel = (operation: OpenApiOperation) =>
+  `${operation.method.toUpperCase()} ${operation.path}`;
+
+// Helper function to check an operation against "operationId" or "GET /path"
+const matchesOperation = (operation: OpenApiOperation, key: string) =>
+  key === operation.operationId || key === operationLabel(operation);
+
+// Helper function to name a tool after its operation
+const toolNameOf = (operation: OpenApiOperation, prefix?: string) => {
+  const name = (
+    operation.operationId || `${operation.method} ${operation.path}`
+  )
+    .replace(/[^a-zA-Z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+  return (prefix ? `${prefix}_${name}` : name).slice(0, MAX_TOOL_NAME_LENGTH);
+};
+
+// Helper function to build the JSON schema of an operation's arguments
+const argumentsSchemaOf = (operation: OpenApiOperation) => {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  operation.parameters.forEach((parameter) => {
+    properties[parameter.name] = {
+      ...(parameter.schema || { type: "string" }),
+      ...(parameter.description ? { description: parameter.description } : {}),
+    };
+    if (parameter.required || parameter.in === "path") {
+      required.push(parameter.name);
+    }
+  });
+
+  if (operation.requestBody) {
+    properties[BODY_ARGUMENT] = {
+      ...operation.requestBody.schema,
+      ...(operation.requestBody.description
+        ? { description: operation.requestBody.description }
+        : {}),
+    };
+    if (operation.requestBody.required) {
+      required.push(BODY_ARGUMENT);
+    }
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+};
+
+// Helper function to read the base URL from the document's first server
+const baseUrlOf = (document: Record<string, any>) => {
+  const server = document.servers?.[0];
+  if (!server?.url) {
+    throw new Error("OpenAPI document has no servers, set baseUrl");
+  }
+
+  return Object.entries<Record<string, any>>(server.variables || {}).reduce(
+    (url, [name, variable]) => url.split(`{${name}}`).join(variable.default),
+    server.url as string
+  );
+};
+
+// Helper function to apply the configured credentials to a request
+const applyAuth = async (
+  auth: OpenApiAuth,
+  headers: Record<string, string>,
+  url: URL
+) => {
+  const value = (direct?: string, secret?: string) =>
+    secret ? resolveSecret(secret) : Promise.resolve(direct || "");
+
+  switch (auth.type) {
+    case "bearer":
+      headers.Authorization = `Bearer ${await value(
+        auth.token,
+        auth.tokenSecret
+      )}`;
+      break;
+    case "basic":
+      headers.Authorization = `Basic ${Buffer.from(
+        `${auth.username}:${await value(auth.password, auth.passwordSecret)}`
+      ).toString("base64")}`;
+      break;
+    case "apiKey":
+      if (auth.in === "header") {
+        headers[auth.name] = await value(auth.value, auth.valueSecret);
+      } else {
+        url.searchParams.set(
+          auth.name,
+          await value(auth.value, auth.valueSecret)
+        );
+      }
+      break;
+  }
+};
+
+// Helper function to send the request of an operation and read its response
+const callOperation = async (
+  operation: OpenApiOperation,
+  args: Record<string, any>,
+  config: OpenApiToolsConfig,
+  baseUrl: string,
+  signal: AbortSignal
+) => {
+  let path = operation.path;
+  const query: [string, string][] = [];
+  const headers: Record<string, string> = { ...config.headers };
+  const cookies: string[] = [];
+
+  operation.parameters.forEach((parameter) => {
+    const value = args[parameter.name];
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    switch (parameter.in) {
+      case "path":
+        path = path
+          .split(`{${parameter.name}}`)
+          .join(encodeURIComponent(String(value)));
+        break;
+      case "query":
+        (Array.isArray(value) ? value : [value]).forEach((item) =>
+          query.push([
+            parameter.name,
+            typeof item === "object" ? JSON.stringify(item) : String(item),
+          ])
+        );
+        break;
+      case "header":
+        headers[parameter.name] = String(value);
+        break;
+      case "cookie":
+        cookies.push(`${parameter.name}=${encodeURIComponent(String(value))}`);
+        break;
+    }
+  });
+  if (cookies.length > 0) {
+    headers.Cookie = cookies.join("; ");
+  }
+
+  const url = new URL(`${baseUrl.replace(/\/$/, "")}${path}`);
+  query.forEach(([name, value]) => url.searchParams.append(name, value));
+  if (config.auth) {
+    await applyAuth(config.auth, headers, url);
+  }
+
+  let body: string | undefined;
+  const requestBody = args[BODY_ARGUMENT];
+  if (operation.requestBody && requestBody !== undefined) {
+    const { contentType } = operation.requestBody;
+    headers["Content-Type"] = contentType;
+    body =
+      contentType === "application/x-www-form-urlencoded"
+        ? new URLSearchParams(requestBody).toString()
+        : typeof requestBody === "string" && !contentType.includes("json")
+        ? requestBody
+        : JSON.stringify(requestBody);
+  }
+
+  const response = await fetch(url, {
+    method: operation.method.toUpperCase(),
+    headers: { Accept: "application/json", ...headers },
+    ...(body !== undefined ? { body } : {}),
+    signal,
+  });
+  const text = await response.text();
+
+  if (!response.ok) {
+    // The status lets the tool policy retry transient failures
+    throw Object.assign(
+      new Error(
+        `${operation.method.toUpperCase()} ${operation.path} failed with ${
+          response.status
+        } ${response.statusText}${
+          text ? `: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}` : ""
+        }`
+      ),
+      { status: response.status }
+    );
+  }
+
+  if (!text) {
+    return null;
+  }
+  return response.headers.get("content-type")?.includes("json")
+    ? JSON.parse(text)
+    : text;
+};
+
+/**
+ * Creates a registry function with one tool per operation of an OpenAPI 3
+ * document. Arguments are the operation's parameters by name, plus `body`
+ * for the request body
+ *
+ * @param config document, operation allow-list, base URL, credentials,
+ * approval and policy
+ * @returns A registry-compatible tool exporter function
+ */
+export function createOpenApiTools(
+  config: OpenApiToolsConfig
+): ToolRegistryFunction {
+  let operations: OpenApiOperation[] | undefined;
+  let baseUrl: string | undefined;
+
+  // Helper function to read the document once, when it's first needed
+  const loadOperations = () => {
+    if (!operations) {
+      const document = loadSpec(config.spec);
+      const listed = listOperations(document);
+
+      const unknown = (config.operations || []).filter(
+        (key) => !listed.some((operation) => matchesOperation(operation, key))
+      );
+      if (unknown.length > 0) {
+        throw new Error(`Unknown OpenAPI operation(s): ${unknown.join(", ")}`);
+      }
+
+      const selected = listed.filter(
+        (operation) =>
+          !config.operations ||
+          config.operations.some((key) => matchesOperation(operation, key))
+      );
+
+      // Tools are looked up by name, so two operations can't share one
+      const named = new Map<string, OpenApiOperation>();
+      for (const operation of selected) {
+        const name = toolNameOf(operation, config.toolPrefix);
+        const other = named.get(name);
+        if (other) {
+          throw new Error(
+            `OpenAPI operations ${operationLabel(other)} and ${operationLabel(
+              operation
+            )} both map to the tool name ${name}`
+          );
+        }
+        named.set(name, operation);
+
+        // The request body is passed as an argument next to the parameters
+        if (
+          operation.requestBody &&
+          operation.parameters.some(({ name }) => name === BODY_ARGUMENT)
+        ) {
+          throw new Error(
+            `OpenAPI operation ${operationLabel(
+              operation
+            )} has a parameter named ${BODY_ARGUMENT}, which collides with its request body`
+          );
+        }
+      }
+
+      baseUrl = config.baseUrl || baseUrlOf(document);
+      operations = selected;
+    }
+    return operations;
+  };
+
+  // Helper function to build the schema entry of an operation's tool
+  const toolSchemaOf = (operation: OpenApiOperation): ToolSchema => ({
+    name: toolNameOf(operation, config.toolPrefix),
+    description:
+      operation.summary || operation.description || operationLabel(operation),
+    schema: argumentsSchemaOf(operation),
+    requiresApproval: Array.isArray(config.requiresApproval)
+      ? operation.method !== "get" ||
+        config.requiresApproval.some((key) => matchesOperation(operation, key))
+      : config.requiresApproval ?? operation.method !== "get",
+    policy: config.policy,
+  });
+
+  const registry = async (agent: Agent) => {
+    const tools: toolType[] = [];
+    const schema: Tools = {};
+
+    loadOperations().forEach((operation) => {
+      const toolSchema = toolSchemaOf(operation);
+      const { name, description } = toolSchema;
+      const policyRunner = new ToolPolicyRunner(name, config.policy);
+      schema[name] = toolSchema;
+
+      tools.push(
+        new DynamicStructuredTool({
+          name,
+          description,
+          schema: toolSchema.schema,
+          func: async (args: Record<string, any>, _runManager, runConfig) => {
+            try {
+              const data = await policyRunner.run(
+                (context) =>
+                  callOperation(
+                    operation,
+                    args,
+                    config,
+                    baseUrl!,
+                    context.signal
+                  ),
+                {
+                  threadId: runConfig?.configurable?.thread_id,
+                  ...(runConfig?.signal ? { signal: runConfig.signal } : {}),
+                }
+              );
+
+              return serializeToolResult({ ok: true, data });
+            } catch (error: any) {
+              agent.logger.error(`Error executing tool ${name}:`, error);
+              return serializeToolResult({
+                ok: false,
+                error: toToolError(error),
+              });
+            }
+          },
+        })
+      );
+    });
+
+    return { tools, schema };
+  };
+
+  return Object.assign(registry, {
+    describe: async () =>
+      Object.fromEntries(
+        loadOperations().map((operation) => {
+          const toolSchema = toolSchemaOf(operation);
+          return [toolSchema.name, toolSchema];
+        })
+      ),
+  });
+}
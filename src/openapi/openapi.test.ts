@@ -0,0 +1,245 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { createServer, IncomingMessage } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { setSecretsProvider } from "../secrets";
+import { collectEvents, createTestAgent } from "../testing";
+import { createOpenApiTools } from ".";
+
+const SPEC = {
+  openapi: "3.0.3",
+  info: { title: "Inventory", version: "1.0.0" },
+  servers: [{ url: "http://localhost/unused" }],
+  paths: {
+    "/items/{id}": {
+      parameters: [{ $ref: "#/components/parameters/ItemId" }],
+      get: {
+        operationId: "getItem",
+        summary: "Gets an item",
+        parameters: [
+          { name: "fields", in: "query", schema: { type: "string" } },
+        ],
+      },
+      delete: { operationId: "deleteItem", summary: "Deletes an item" },
+    },
+    "/items": {
+      post: {
+        summary: "Creates an item",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Item" },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      ItemId: {
+        name: "id",
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      },
+    },
+    schemas: {
+      Item: {
+        type: "object",
+        properties: { name: { type: "string" }, price: { type: "number" } },
+        required: ["name"],
+      },
+    },
+  },
+};
+
+test("generates a tool per allowed operation with derived schemas", async () => {
+  const specPath = path.join(
+    mkdtempSync(path.join(tmpdir(), "axicov-openapi-")),
+    "openapi.json"
+  );
+  writeFileSync(specPath, JSON.stringify(SPEC));
+
+  // Described without building the tools
+  const schema = await createOpenApiTools({
+    spec: specPath,
+    operations: ["getItem", "POST /items"],
+    toolPrefix: "inventory",
+  }).describe!();
+
+  assert.deepEqual(Object.keys(schema), [
+    "inventory_getItem",
+    "inventory_post_items",
+  ]);
+  assert.deepEqual(schema.inventory_getItem?.schema, {
+    type: "object",
+    properties: { id: { type: "string" }, fields: { type: "string" } },
+    required: ["id"],
+  });
+  assert.deepEqual(schema.inventory_post_items?.schema, {
+    type: "object",
+    properties: { body: SPEC.components.schemas.Item },
+    required: ["body"],
+  });
+  // Only GET operations run without approval by default
+  assert.equal(schema.inventory_getItem?.requiresApproval, false);
+  assert.equal(schema.inventory_post_items?.requiresApproval, true);
+
+  await assert.rejects(
+    createOpenApiTools({ spec: SPEC, operations: ["listItems"] }).describe!(),
+    /Unknown OpenAPI operation\(s\): listItems/
+  );
+
+  // Tool names derived from different operations must not collide
+  await assert.rejects(
+    createOpenApiTools({
+      spec: {
+        ...SPEC,
+        paths: {
+          "/items": { get: { operationId: "list.items" } },
+          "/list/items": { get: { operationId: "list_items" } },
+        },
+      },
+    }).describe!(),
+    /GET \/items and GET \/list\/items both map to the tool name list_items/
+  );
+
+  // A listed GET operation requires approval on top of the default
+  const approvals = await createOpenApiTools({
+    spec: SPEC,
+    requiresApproval: ["getItem"],
+  }).describe!();
+  assert.equal(approvals.getItem?.requiresApproval, true);
+  assert.equal(approvals.deleteItem?.requiresApproval, true);
+  assert.equal(approvals.post_items?.requiresApproval, true);
+
+  // The request body argument can't shadow a parameter
+  await assert.rejects(
+    createOpenApiTools({
+      spec: {
+        ...SPEC,
+        paths: {
+          "/notes": {
+            post: {
+              parameters: [{ name: "body", in: "query" }],
+              requestBody: {
+                content: { "application/json": { schema: { type: "object" } } },
+              },
+            },
+          },
+        },
+      },
+    }).describe!(),
+    /POST \/notes has a parameter named body, which collides with its request body/
+  );
+
+  const yamlPath = path.join(path.dirname(specPath), "openapi.yaml");
+  writeFileSync(yamlPath, "openapi: 3.0.3\n");
+  await assert.rejects(
+    createOpenApiTools({ spec: yamlPath }).describe!(),
+    /only JSON OpenAPI documents are supported/
+  );
+});
+
+test("calls the operations with parameters, body and credentials", async () => {
+  const requests: Record<string, string | undefined>[] = [];
+  const server = createServer(async (req: IncomingMessage, res) => {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    requests.push({
+      method: req.method,
+      url: req.url,
+      auth: req.headers.authorization,
+    });
+
+    if (req.url?.startsWith("/api/items/missing")) {
+      res.writeHead(404).end("No such item");
+    } else if (req.method === "POST") {
+      res.writeHead(201, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ id: "2", ...JSON.parse(body) }));
+    } else {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ id: "1", name: "Apple" }));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  setSecretsProvider({
+    get: async (name) =>
+      name === "INVENTORY_TOKEN" ? "inventory-token" : undefined,
+  });
+
+  try {
+    const { agent } = await createTestAgent({
+      responses: [
+        '["getItem", "post_items"]',
+        {
+          toolCalls: [
+            { name: "getItem", args: { id: "1", fields: "name" } },
+            { name: "getItem", args: { id: "missing" } },
+          ],
+        },
+        "Apple costs 1.5",
+      ],
+      tools: [
+        createOpenApiTools({
+          spec: SPEC,
+          baseUrl: `http://127.0.0.1:${port}/api`,
+          auth: { type: "bearer", tokenSecret: "INVENTORY_TOKEN" },
+          requiresApproval: false,
+        }),
+      ],
+    });
+
+    const events = await collectEvents(agent.streamMessage("Price of item 1?"));
+    assert.deepEqual(
+      events
+        .filter((event) => event.type === "tool_result")
+        .map((event) => event.type === "tool_result" && event.result),
+      [
+        { ok: true, data: { id: "1", name: "Apple" } },
+        {
+          ok: false,
+          error: {
+            code: "TOOL_ERROR",
+            message: "GET /items/{id} failed with 404 Not Found: No such item",
+            retryable: false,
+          },
+        },
+      ]
+    );
+
+    const post = agent.tools.post_items!;
+    assert.equal(
+      await post.invoke({ body: { name: "Pear", price: 2 } }),
+      JSON.stringify({ ok: true, data: { id: "2", name: "Pear", price: 2 } })
+    );
+
+    assert.deepEqual(
+      requests.sort((a, b) => a.url!.localeCompare(b.url!)),
+      [
+        { method: "POST", url: "/api/items", auth: "Bearer inventory-token" },
+        {
+          method: "GET",
+          url: "/api/items/1?fields=name",
+          auth: "Bearer inventory-token",
+        },
+        {
+          method: "GET",
+          url: "/api/items/missing",
+          auth: "Bearer inventory-token",
+        },
+      ]
+    );
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,299 @@
+import type { Agent } from "../agent";
+import {
+  PromptContext,
+  PromptKind,
+  PromptOverrides,
+  PromptSection,
+  PromptVariableProvider,
+} from "../types";
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export const DEFAULT_AGENT_PROMPT: PromptSection[] = [
+  {
+    name: "identity",
+    template: "Your name is {{params.name}} (Agent).",
+  },
+  {
+    name: "instructions",
+    template: `INSTRUCTIONS:
+{{params.instruction}}`,
+  },
+  {
+    name: "guidelines",
+    template: `- Behavioral Guidelines:
+  1. NEVER be rude to user
+  2. NEVER try to be over professional
+  3. ALWAYS be friendly to the user
+  4. NEVER act over politely
+  5. ALWAYS be concise and to the point`,
+  },
+  {
+    name: "formatting",
+    template: `Response Formatting:
+- Use proper line breaks between different sections of your response for better readability
+- Utilize markdown features effectively to enhance the structure of your response
+- Keep responses concise and well-organized
+- Use emojis sparingly and only when appropriate for the context
+- Use an abbreviated format for transaction signatures`,
+  },
+  {
+    name: "realtime",
+    template: `Realtime knowledge:
+- { approximateCurrentTime: {{currentTime}} }`,
+  },
+  {
+    name: "tools",
+    template: `Your Available Tools:
+{{tools}}`,
+  },
+  {
+    name: "notes",
+    template: `IMPORTANT POINTS:
+- You are in your developement phase
+- The development team will update you with more features
+- Don't use tools when it is not necessary
+- **Always try to provide short, clear and concise responses**`,
+  },
+  {
+    name: "knowledge",
+    template: `ADDITIONAL KNOWLEDGE FROM TOOLS:
+{{toolKnowledge}}`,
+  },
+  {
+    name: "memories",
+    template: `WHAT YOU REMEMBER ABOUT THE USER:
+{{userMemories}}`,
+  },
+];
+
+export const DEFAULT_ORCHESTRATOR_PROMPT: PromptSection[] = [
+  {
+    name: "role",
+    template:
+      "You are Axicov Orchestrator, the assistant that selects the tools {{params.name}} needs to answer the user.",
+  },
+  {
+    name: "task",
+    template: `Your Task:
+Analyze the user's message and return the appropriate tools as a **JSON array of strings**.
+If the request can be processed with the knowledge provided to you, then return an **empty JSON array []**`,
+  },
+  {
+    name: "rules",
+    template: `Rules:
+- Only return the tools in the format: ["tool1", "tool2", ...].
+- Do not add any text, explanations, or comments outside the array.
+- Be complete — include all necessary tools to handle the request, if you're unsure, it's better to include the tool than to leave it out.
+- If the request cannot be completed with the available tools, return an array describing the unknown tools ["INVALID_TOOL:\${INVALID_TOOL_NAME}"].
+- If no tools are required to process the request return an empty array [].
+- If the request can be processed with the knowledge provided to you, then return an empty array []`,
+  },
+  {
+    name: "knowledge",
+    template: `Knowledge:
+{{toolKnowledge}}`,
+  },
+  {
+    name: "tools",
+    template: `Available Tools:
+{{toolDescriptions}}`,
+  },
+];
+
+const DEFAULT_PROMPTS: Record<PromptKind, PromptSection[]> = {
+  agent: DEFAULT_AGENT_PROMPT,
+  orchestrator: DEFAULT_ORCHESTRATOR_PROMPT,
+};
+
+// Providers available to every agent, e.g. ones backing server-created agents
+const promptProviders = new Map<string, PromptVariableProvider>([
+  ["currentTime", () => new Date().toISOString()],
+]);
+
+/**
+ * Registers a variable provider available to the prompts of every agent.
+ * Agents can override it with their own `prompts.providers`
+ *
+ * @param name variable name used in templates, e.g. "userProfile"
+ * @param provider function computing the value for a turn
+ */
+export const registerPromptProvider = (
+  name: string,
+  provider: PromptVariableProvider
+) => {
+  promptProviders.set(name, provider);
+};
+
+export const unregisterPromptProvider = (name: string) =>
+  promptProviders.delete(name);
+
+/**
+ * Applies overrides to a template's sections
+ *
+ * @param sections base sections
+ * @param overrides replaced (string), dropped (null) or appended sections
+ * @returns the resulting sections, in order
+ */
+export const applyPromptOverrides = (
+  sections: PromptSection[],
+  { sections: overrides = {} }: PromptOverrides = {}
+): PromptSection[] => {
+  const names = new Set(sections.map((section) => section.name));
+
+  return sections
+    .map((section) =>
+      section.name in overrides
+        ? { name: section.name, template: overrides[section.name] }
+        : section
+    )
+    .concat(
+      Object.keys(overrides)
+        .filter((name) => !names.has(name))
+        .map((name) => ({ name, template: overrides[name] }))
+    )
+    .filter((section): section is PromptSection => section.template != null);
+};
+
+// Helper function to read a dotted path such as "params.name"
+const readPath = (scope: Record<string, any>, path: string) =>
+  path
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), scope);
+
+// Helper function to format a variable value for the prompt
+const formatValue = (value: any) => {
+  if (value == null) {
+    return "";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+/**
+ * Renders sections into a prompt. Providers are only called for the
+ * variables the sections reference, and a failing provider renders as an
+ * empty value
+ *
+ * @param variables values available to the templates
+ * @param providers functions computing further variables for this render
+ * @param context passed to the providers
+ */
+export const renderPromptSections = async (
+  sections: PromptSection[],
+  {
+    variables,
+    providers,
+    context,
+  }: {
+    variables: Record<string, any>;
+    providers: Record<string, PromptVariableProvider>;
+    context: PromptContext;
+  }
+) => {
+  const text = sections.map((section) => section.template.trim()).join("\n\n");
+  const scope = { ...variables };
+
+  const referenced = new Set(
+    Array.from(text.matchAll(VARIABLE_PATTERN), (match) =>
+      (match[1] as string).split(".")[0]
+    )
+  );
+
+  await Promise.all(
+    Array.from(referenced)
+      .filter((name) => name && providers[name])
+      .map(async (name) => {
+        try {
+          scope[name as string] = await providers[name as string]!(context);
+        } catch (error) {
+          context.agent.logger.error(
+            `Error in prompt provider ${name}:`,
+            error
+          );
+          scope[name as string] = undefined;
+        }
+      })
+  );
+
+  return text.replace(VARIABLE_PATTERN, (_, path: string) =>
+    formatValue(readPath(scope, path))
+  );
+};
+
+// Helper function to format the knowledge chunks relevant to the message
+const formatKnowledge = async ({ agent, message }: PromptContext) => {
+  if (!message) {
+    return "";
+  }
+
+  const results = await agent.knowledge.search(message);
+  return results
+    .map(
+      (result) =>
+        `- ${result.title ? `${result.title}: ` : ""}${result.text.replace(
+          /\n/g,
+          "\n  "
+        )}`
+    )
+    .join("\n");
+};
+
+// Helper function to format the memories of the thread's user, the ones
+// relevant to the message first
+const formatUserMemories = async ({
+  agent,
+  threadId,
+  message,
+}: PromptContext) => {
+  const userId = await agent.memory.userOf(threadId);
+  if (!userId) {
+    return "";
+  }
+
+  const memories = await agent.memory.recall(userId, message);
+  return memories
+    .map(
+      (memory) => `- ${memory.key ? `${memory.key}: ` : ""}${memory.content}`
+    )
+    .join("\n");
+};
+
+/**
+ * Renders an agent's agent or orchestrator prompt for a turn. Templates can
+ * use `params`, `runtimeParams`, `tools` (agent tool metadata),
+ * `toolDescriptions` (orchestrator tool list), `toolKnowledge` (knowledge
+ * chunks relevant to the message), `userMemories` (memories of the thread's
+ * user), `threadId`, `message` and any provider variable such as
+ * `currentTime`
+ *
+ * @param kind prompt to render
+ * @param threadId thread of the turn
+ * @param message user message of the turn
+ */
+export const renderAgentPrompt = (
+  agent: Agent,
+  kind: PromptKind,
+  { threadId, message }: { threadId: string; message?: string }
+) =>
+  renderPromptSections(
+    applyPromptOverrides(DEFAULT_PROMPTS[kind], agent.prompts[kind]),
+    {
+      variables: {
+        params: agent.params,
+        runtimeParams: agent.runtimeParams,
+        tools: agent.toolMetadata,
+        toolDescriptions: Object.values(agent.tools)
+          .map((tool) => `${tool.name}: ${tool.description}`)
+          .join("\n"),
+        threadId,
+        message,
+      },
+      providers: {
+        toolKnowledge: formatKnowledge,
+        userMemories: formatUserMemories,
+        ...Object.fromEntries(promptProviders),
+        ...agent.prompts.providers,
+      },
+      context: { agent, threadId, ...(message ? { message } : {}) },
+    }
+  );
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { collectEvents, createTestAgent } from "../testing";
+import {
+  applyPromptOverrides,
+  DEFAULT_ORCHESTRATOR_PROMPT,
+  registerPromptProvider,
+  unregisterPromptProvider,
+} from ".";
+
+test("overrides replace, drop and append sections", () => {
+  const sections = applyPromptOverrides(DEFAULT_ORCHESTRATOR_PROMPT, {
+    sections: { role: "You pick tools", knowledge: null, extra: "Be fast" },
+  });
+
+  assert.deepEqual(
+    sections.map((section) => section.name),
+    ["role", "task", "rules", "tools", "extra"]
+  );
+  assert.equal(sections[0]!.template, "You pick tools");
+});
+
+test("templates interpolate params, runtimeParams and providers", async () => {
+  let profileCalls = 0;
+  const { agent } = await createTestAgent({
+    params: { name: "Shop Bot" },
+    prompts: {
+      agent: {
+        sections: {
+          identity: "You are {{params.name}} talking to {{userProfile.name}}",
+          guidelines: null,
+          formatting: null,
+          notes: null,
+          cart: "Cart: {{runtimeParams.cart}} ({{message}})",
+        },
+      },
+      providers: {
+        userProfile: ({ threadId }) => {
+          profileCalls++;
+          return { name: `user of ${threadId}` };
+        },
+      },
+    },
+  });
+  agent.runtimeParams.cart = ["apples"];
+
+  const prompt = await agent.renderPrompt("agent", {
+    threadId: "t1",
+    message: "hi",
+  });
+
+  assert.match(prompt, /^You are Shop Bot talking to user of t1/);
+  assert.match(prompt, /Cart: \["apples"\] \(hi\)$/);
+  assert.doesNotMatch(prompt, /Behavioral Guidelines|developement phase/);
+
+  // Providers only run for the templates that use them
+  await agent.renderPrompt("orchestrator", { threadId: "t1" });
+  assert.equal(profileCalls, 2);
+});
+
+test("providers are evaluated on every message", async () => {
+  let turn = 0;
+  registerPromptProvider("turn", () => ++turn);
+
+  try {
+    const { agent, model } = await createTestAgent({
+      responses: ["[]", "one", "[]", "two"],
+      prompts: {
+        agent: { sections: { realtime: "Turn {{turn}}" } },
+        orchestrator: { sections: { role: "Route for {{params.name}}" } },
+      },
+    });
+
+    await collectEvents(agent.streamMessage("a"));
+    await collectEvents(agent.streamMessage("b"));
+
+    const [orchestration, first, , second] = model.calls.map(
+      (messages) => messages[0]
+    );
+    assert.ok(orchestration instanceof SystemMessage);
+    assert.match(orchestration.content as string, /^Route for Test Agent/);
+    assert.match(first!.content as string, /Turn 2/);
+    assert.match(second!.content as string, /Turn 3/);
+    assert.ok(model.calls[0]![1] instanceof HumanMessage);
+  } finally {
+    unregisterPromptProvider("turn");
+  }
+});
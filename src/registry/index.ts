@@ -1,5 +1,109 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 import { Agent } from "../agent";
-import { Tools, toolType } from "../types";
+import {
+  ToolBundle,
+  ToolBundleDescription,
+  ToolRegistryFunction,
+  Tools,
+  ToolSchema,
+  toolType,
+} from "../types";
+
+// Named tool bundles available to agents created by name (e.g. over HTTP)
+const toolBundles = new Map<string, ToolBundle>();
+const bundleSchemas = new Map<string, Tools>();
+
+/**
+ * Registers a named tool bundle so it can be selected by name
+ *
+ * @param bundle name, description and registry function of the bundle
+ */
+export const registerToolBundle = (bundle: ToolBundle) => {
+  if (toolBundles.has(bundle.name)) {
+    throw new Error(`Tool bundle "${bundle.name}" is already registered`);
+  }
+
+  toolBundles.set(bundle.name, bundle);
+};
+
+export const unregisterToolBundle = (name: string) => {
+  bundleSchemas.delete(name);
+  return toolBundles.delete(name);
+};
+
+export const getToolBundle = (name: string) => toolBundles.get(name);
+
+export const listToolBundles = () => Array.from(toolBundles.values());
+
+/**
+ *
+ * @param names names of registered tool bundles
+ * @returns registry functions of the bundles, in the given order
+ */
+export const resolveToolBundles = (names: string[]): ToolRegistryFunction[] => {
+  const unknown = names.filter((name) => !toolBundles.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tool bundle(s): ${unknown.join(", ")}`);
+  }
+
+  return names.map((name) => toolBundles.get(name)!.registry);
+};
+
+/**
+ * Describes a bundle from its static schema or its registry's `describe`,
+ * without building its tools
+ *
+ * @param bundle registered tool bundle
+ * @returns catalog entry with JSON schemas of the bundle's tools
+ */
+export const describeToolBundle = async (
+  bundle: ToolBundle
+): Promise<ToolBundleDescription> => {
+  let schema = bundle.schema || bundleSchemas.get(bundle.name);
+
+  if (!schema && bundle.registry.describe) {
+    schema = await bundle.registry.describe();
+    bundleSchemas.set(bundle.name, schema);
+  }
+  if (!schema) {
+    return { name: bundle.name, description: bundle.description };
+  }
+
+  return {
+    name: bundle.name,
+    description: bundle.description,
+    tools: Object.values(schema).map((item) => ({
+      name: item.name,
+      description: item.description,
+      requiresApproval: item.requiresApproval || false,
+      parameters:
+        item.schema instanceof z.ZodType
+          ? zodToJsonSchema(item.schema)
+          : item.schema,
+      ...(item.outputSchema instanceof z.ZodType
+        ? { output: zodToJsonSchema(item.outputSchema) }
+        : {}),
+    })),
+  };
+};
+
+/**
+ *
+ * @param schemas schemas of the tools to list
+ * @returns tool descriptions for the agent's system prompt
+ */
+export const formatToolMetadata = (schemas: ToolSchema[]) =>
+  schemas
+    .filter(Boolean)
+    .map(
+      (item) => `
+  - Tool Name: ${item.name}
+  - Tool Description: ${item.description}
+  - Requires Approval: ${item.requiresApproval || false}
+            `
+    )
+    .join("\n\n");
 
 /**
  *
@@ -14,8 +118,6 @@ export const exportToolsAndSetMetadata = async (
   allRegistry: any
 ) => {
   try {
-    let toolMetadata: string[] = [];
-
     const filteredToolBunches = allRegistry.filter((_: any, idx: number) =>
       toolNumbers.includes(idx)
     );
@@ -25,26 +127,38 @@ export const exportToolsAndSetMetadata = async (
         item: (agent: Agent) => Promise<{
           tools: toolType[];
           schema: Tools;
-        }>
+        }>,
+        index: number
       ) => {
         try {
           const toolItem = await item(agent);
+          agent.toolsByRegistry.set(
+            item,
+            toolItem.tools.map((tool) => tool.name)
+          );
 
           toolItem.tools.forEach((tool) => {
             agent.tools[tool.name] = tool;
           });
 
           Object.values(toolItem.schema).forEach((item: any) => {
-            toolMetadata.push(`
-  - Tool Name: ${item.name}
-  - Tool Description: ${item.description}
-  - Requires Approval: ${item?.requiresApproval || false}
-            `);
+            agent.toolSchemas[item.name] = item;
+          });
+
+          agent.events.emit("tools_loaded", {
+            agentId: agent.agentId,
+            index,
+            tools: toolItem.tools.map((tool) => tool.name),
           });
 
           return toolItem;
         } catch (error: any) {
-          console.error(`Error loading tool:`, error);
+          agent.logger.error(`Error loading tool:`, error);
+          agent.events.emit("tools_load_failed", {
+            agentId: agent.agentId,
+            index,
+            error,
+          });
           return null; // Add return statement for this catch block
         }
       }
@@ -56,11 +170,16 @@ export const exportToolsAndSetMetadata = async (
     // Log any failures
     results.forEach((result, index) => {
       if (result.status === "rejected") {
-        console.error(`Tool at index ${index} failed to load:`, result.reason);
+        agent.logger.error(
+          `Tool at index ${index} failed to load:`,
+          result.reason
+        );
       }
     });
 
-    agent.toolMetadata = toolMetadata.join("\n\n");
+    agent.toolMetadata = formatToolMetadata(
+      Object.keys(agent.tools).map((name) => agent.toolSchemas[name]!)
+    );
 
     // Check for any failed tools and throw detailed error
     const failedTools = results.filter(
@@ -77,17 +196,20 @@ export const exportToolsAndSetMetadata = async (
         .filter(Boolean)
         .join("; ");
 
-      console.error("Failed to initialize one or more tools", failureMessages);
+      agent.logger.error(
+        "Failed to initialize one or more tools",
+        failureMessages
+      );
     }
 
     // If no tools were loaded successfully, throw an error
     if (Object.values(agent.tools).length === 0) {
-      console.error("No tools were loaded successfully");
+      agent.logger.error("No tools were loaded successfully");
     }
 
     return results; // This is already here
   } catch (error: any) {
-    console.error("Error in exportToolsAndSetMetadata:", error);
+    agent.logger.error("Error in exportToolsAndSetMetadata:", error);
     return []; // Add a return statement in the catch block
   }
 };
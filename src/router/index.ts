@@ -0,0 +1,181 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import { RunnableConfig } from "@langchain/core/runnables";
+import type { Agent } from "../agent";
+import { ToolRouter, ToolRouterName, ToolRoutingResult } from "../types";
+import { BM25Index } from "../utils/bm25";
+
+const INVALID_TOOL_PREFIX = "INVALID_TOOL:";
+
+/**
+ * Splits routed names into known tools and unmet INVALID_TOOL requests,
+ * dropping names that the agent doesn't have
+ */
+const splitToolNames = (names: string[], agent: Agent): ToolRoutingResult => {
+  const tools: string[] = [];
+  const invalidTools: string[] = [];
+
+  names.forEach((name) => {
+    const trimmed = name.trim();
+
+    if (trimmed.startsWith(INVALID_TOOL_PREFIX)) {
+      invalidTools.push(trimmed.slice(INVALID_TOOL_PREFIX.length).trim());
+    } else if (agent.tools[trimmed]) {
+      if (!tools.includes(trimmed)) {
+        tools.push(trimmed);
+      }
+    } else if (trimmed) {
+      agent.logger.warn(`Orchestrator selected unknown tool: ${trimmed}`);
+    }
+  });
+
+  return { tools, invalidTools };
+};
+
+/**
+ * Parses a JSON array of tool names out of raw model output, tolerating
+ * markdown fences and text around the array
+ */
+export const parseToolNames = (content: string): string[] => {
+  const text = content.replace(/```(?:json)?/gi, "").trim();
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1));
+      if (Array.isArray(parsed)) {
+        return parsed.filter((item) => typeof item === "string");
+      }
+    } catch (error) {
+      // Fall through to the quoted names
+    }
+  }
+
+  const quoted = Array.from(text.matchAll(/"([^"\n]+)"/g)).map(
+    (match) => match[1] as string
+  );
+  if (quoted.length > 0 || start !== -1) {
+    return quoted;
+  }
+
+  throw new Error(`Could not parse tool names from: ${content}`);
+};
+
+/**
+ * Routes every message to all of the agent's tools without a model call
+ */
+export class AllToolsRouter implements ToolRouter {
+  public name: ToolRouterName = "all";
+
+  async route(_msg: string, agent: Agent): Promise<ToolRoutingResult> {
+    return { tools: Object.keys(agent.tools), invalidTools: [] };
+  }
+}
+
+/**
+ * Asks the agent's model which tools are needed for the message. Falls back
+ * to another router when the model call fails or its output can't be parsed.
+ */
+export class LLMToolRouter implements ToolRouter {
+  public name: ToolRouterName = "llm";
+  private structuredOutput: boolean;
+  private fallback: ToolRouter;
+
+  constructor({
+    structuredOutput = false,
+    fallback = new AllToolsRouter(),
+  }: {
+    structuredOutput?: boolean;
+    fallback?: ToolRouter;
+  } = {}) {
+    this.structuredOutput = structuredOutput;
+    this.fallback = fallback;
+  }
+
+  async route(
+    msg: string,
+    agent: Agent,
+    config?: RunnableConfig
+  ): Promise<ToolRoutingResult> {
+    // Find out the tools that are required to complete the flow of the message
+    const orchestrationPrompt = new SystemMessage(
+      await agent.renderPrompt("orchestrator", {
+        threadId: config?.configurable?.thread_id,
+        message: msg,
+      })
+    );
+
+    const messages = [orchestrationPrompt, new HumanMessage(msg.toString())];
+
+    try {
+      let toolNames: string[];
+
+      if (this.structuredOutput) {
+        const response = await agent.model
+          .withStructuredOutput(
+            z.object({
+              tools: z
+                .array(z.string())
+                .describe("Tool names or INVALID_TOOL:<name> entries"),
+            })
+          )
+          .invoke(messages, config);
+        toolNames = response.tools;
+      } else {
+        const response = await agent.model.invoke(messages, config);
+        toolNames = parseToolNames(response.content.toString());
+      }
+
+      return splitToolNames(toolNames, agent);
+    } catch (error) {
+      agent.logger.error("Error in LLM tool routing, using fallback:", error);
+      const result = await this.fallback.route(msg, agent, config);
+
+      return { ...result, fallback: result.fallback || this.fallback.name };
+    }
+  }
+}
+
+/**
+ * Ranks tools locally with BM25 over their names and descriptions
+ */
+export class LexicalToolRouter implements ToolRouter {
+  public name: ToolRouterName = "lexical";
+  private limit: number;
+
+  constructor({ limit = 5 }: { limit?: number } = {}) {
+    this.limit = limit;
+  }
+
+  async route(msg: string, agent: Agent): Promise<ToolRoutingResult> {
+    const index = new BM25Index();
+
+    Object.values(agent.tools).forEach((tool) =>
+      index.add(tool.name, `${tool.name} ${tool.description}`)
+    );
+
+    return {
+      tools: index.search(msg, this.limit).map((result) => result.id),
+      invalidTools: [],
+    };
+  }
+}
+
+/**
+ *
+ * @param name name of a built-in routing strategy
+ * @returns a new router for the strategy
+ */
+export const createToolRouter = (name: ToolRouterName): ToolRouter => {
+  switch (name) {
+    case "all":
+      return new AllToolsRouter();
+    case "llm":
+      return new LLMToolRouter();
+    case "lexical":
+      return new LexicalToolRouter();
+    default:
+      throw new Error(`Unsupported tool router: ${name}`);
+  }
+};
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LexicalToolRouter, LLMToolRouter, parseToolNames } from ".";
+import { createTestAgent, fakeTool } from "../testing";
+
+test("parseToolNames accepts fenced and chatty output", () => {
+  assert.deepEqual(parseToolNames('```json\n["a", "b"]\n```'), ["a", "b"]);
+  assert.deepEqual(parseToolNames('Sure! Use ["getPrices"] for that.'), [
+    "getPrices",
+  ]);
+  assert.throws(() => parseToolNames("no tools here"));
+});
+
+test("LLMToolRouter splits invalid tools and drops unknown names", async () => {
+  const { agent } = await createTestAgent({
+    responses: ['["getPrices", "unknown", "INVALID_TOOL:weather"]'],
+    tools: [fakeTool({ name: "getPrices" }), fakeTool({ name: "getNews" })],
+    router: new LLMToolRouter(),
+  });
+
+  const { tools, invalidTools } = await agent.orchestrate("price and weather");
+
+  assert.deepEqual(
+    tools.map((tool) => tool.name),
+    ["getPrices"]
+  );
+  assert.deepEqual(invalidTools, ["weather"]);
+});
+
+test("LLMToolRouter falls back to all tools on unparseable output", async () => {
+  const { agent } = await createTestAgent({
+    responses: ["I am not sure"],
+    tools: [fakeTool({ name: "getPrices" }), fakeTool({ name: "getNews" })],
+  });
+
+  const { tools } = await agent.orchestrate("anything");
+
+  assert.equal(tools.length, 2);
+});
+
+test("LexicalToolRouter ranks tools without a model call", async () => {
+  const { agent, model } = await createTestAgent({
+    tools: [
+      fakeTool({ name: "getPrices", description: "Fetch product prices" }),
+      fakeTool({ name: "getNews", description: "Latest news headlines" }),
+    ],
+    router: new LexicalToolRouter({ limit: 1 }),
+  });
+
+  const { tools } = await agent.orchestrate("what are the prices?");
+
+  assert.deepEqual(
+    tools.map((tool) => tool.name),
+    ["getPrices"]
+  );
+  assert.equal(model.calls.length, 0);
+});
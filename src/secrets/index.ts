@@ -0,0 +1,330 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import { mkdirSync, promises as fs } from "fs";
+import path from "path";
+import { ModelConfig, SecretsProvider } from "../types";
+
+const REDACTED = "[REDACTED]";
+
+// Shorter values are too likely to appear in unrelated text
+const MIN_REDACTED_LENGTH = 8;
+
+// Well-known credential formats, redacted even if never resolved here
+const CREDENTIAL_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bAIza[A-Za-z0-9_-]{30,}/g,
+  /(mongodb(?:\+srv)?:\/\/[^:/\s]+:)[^@\s]+@/g,
+];
+
+// Values of every secret resolved by this process
+const knownSecrets = new Set<string>();
+
+// Environment variables readable as secrets by default
+export const DEFAULT_SECRET_PREFIX = "AXICOV_SECRET_";
+
+/**
+ * Reads secrets from environment variables. Only variables starting with the
+ * prefix or named in the allow-list are readable, so a secret name sent over
+ * HTTP can't read the rest of the environment (e.g. JWT_SECRET)
+ */
+export class EnvSecretsProvider implements SecretsProvider {
+  private prefix: string;
+  private allow: string[];
+
+  constructor({
+    prefix = DEFAULT_SECRET_PREFIX,
+    allow = [],
+  }: {
+    prefix?: string;
+    // Variables readable without the prefix, e.g. ["OPENAI_API_KEY"]
+    allow?: string[];
+  } = {}) {
+    this.prefix = prefix;
+    this.allow = allow;
+  }
+
+  async get(name: string) {
+    if (!name.startsWith(this.prefix) && !this.allow.includes(name)) {
+      throw new Error(
+        `Secret ${name} isn't readable, secret names must start with ${this.prefix} or be listed in SECRETS_ALLOW`
+      );
+    }
+
+    return process.env[name];
+  }
+}
+
+/**
+ * Reads secrets from a JSON object encrypted with AES-256-GCM, keyed by a
+ * passphrase. Create the file with `EncryptedFileSecretsProvider.write`
+ */
+export class EncryptedFileSecretsProvider implements SecretsProvider {
+  private secrets: Promise<Record<string, string>> | undefined;
+
+  constructor(private filePath: string, private passphrase: string) {}
+
+  /**
+   * Encrypts secrets into a file, replacing it
+   *
+   * @param secrets secret values by name
+   */
+  static async write(
+    filePath: string,
+    secrets: Record<string, string>,
+    passphrase: string
+  ) {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+      "aes-256-gcm",
+      scryptSync(passphrase, salt, 32),
+      iv
+    );
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(secrets), "utf8"),
+      cipher.final(),
+    ]);
+
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        version: 1,
+        salt: salt.toString("base64"),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+      }),
+      { mode: 0o600 }
+    );
+  }
+
+  async get(name: string) {
+    this.secrets ??= this.load();
+    // Allow a later retry if the file can't be read
+    this.secrets.catch(() => (this.secrets = undefined));
+
+    return (await this.secrets)[name];
+  }
+
+  // Helper function to read and decrypt the file
+  private async load(): Promise<Record<string, string>> {
+    const file = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        scryptSync(this.passphrase, Buffer.from(file.salt, "base64"), 32),
+        Buffer.from(file.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+
+      return JSON.parse(
+        Buffer.concat([
+          decipher.update(Buffer.from(file.data, "base64")),
+          decipher.final(),
+        ]).toString("utf8")
+      );
+    } catch {
+      throw new Error(
+        `Failed to decrypt secrets file ${this.filePath}, check the passphrase`
+      );
+    }
+  }
+}
+
+// Helper function to create the secrets provider from the environment
+function createSecretsProviderFromEnv(): SecretsProvider {
+  switch (process.env.SECRETS_PROVIDER || "env") {
+    case "env":
+      return new EnvSecretsProvider({
+        ...(process.env.SECRETS_PREFIX !== undefined
+          ? { prefix: process.env.SECRETS_PREFIX }
+          : {}),
+        allow: (process.env.SECRETS_ALLOW || "")
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean),
+      });
+    case "file":
+      if (!process.env.SECRETS_KEY) {
+        throw new Error("SECRETS_KEY is required for the file secrets provider");
+      }
+      return new EncryptedFileSecretsProvider(
+        process.env.SECRETS_FILE || "data/secrets.enc",
+        process.env.SECRETS_KEY
+      );
+    default:
+      throw new Error(
+        `Unsupported secrets provider: ${process.env.SECRETS_PROVIDER}`
+      );
+  }
+}
+
+let secretsProvider: SecretsProvider | undefined;
+
+/**
+ * Replaces the default secrets provider, e.g. with a custom resolver for a
+ * cloud secret manager
+ */
+export const setSecretsProvider = (provider: SecretsProvider) => {
+  secretsProvider = provider;
+};
+
+/**
+ *
+ * @returns the configured secrets provider, from SECRETS_PROVIDER by default
+ */
+export const getSecretsProvider = () =>
+  (secretsProvider ??= createSecretsProviderFromEnv());
+
+/**
+ * Resolves a secret by name. The value is remembered so it's redacted from
+ * logs and error messages
+ *
+ * @param name secret name, e.g. "OPENAI_API_KEY"
+ * @param provider provider to read from, the configured one by default
+ */
+export async function resolveSecret(
+  name: string,
+  provider: SecretsProvider = getSecretsProvider()
+): Promise<string> {
+  const value = await provider.get(name);
+  if (!value) {
+    throw new Error(`Secret ${name} not found`);
+  }
+
+  if (value.length >= MIN_REDACTED_LENGTH) {
+    knownSecrets.add(value);
+  }
+
+  return value;
+}
+
+/**
+ * Fills `apiKey` from `apiKeySecret` in a model config and its fallbacks
+ *
+ * @returns a copy of the config with the resolved keys
+ */
+export async function resolveModelSecrets(
+  config: ModelConfig,
+  provider?: SecretsProvider
+): Promise<ModelConfig> {
+  const { apiKeySecret, fallbacks, ...rest } = config;
+
+  return {
+    ...rest,
+    ...(apiKeySecret
+      ? { apiKey: await resolveSecret(apiKeySecret, provider) }
+      : {}),
+    ...(fallbacks
+      ? {
+          fallbacks: await Promise.all(
+            fallbacks.map((fallback) => resolveModelSecrets(fallback, provider))
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Replaces resolved secrets and well-known credential formats in a text
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+
+  for (const secret of knownSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const pattern of CREDENTIAL_PATTERNS) {
+    redacted = redacted.replace(pattern, (match, prefix?: string) =>
+      typeof prefix === "string" && match.startsWith(prefix)
+        ? `${prefix}${REDACTED}@`
+        : REDACTED
+    );
+  }
+
+  return redacted;
+}
+
+/**
+ * Redacts a logged value: strings, errors, and the strings nested in arrays
+ * and plain objects. Other values are returned as they are
+ *
+ * @returns a redacted copy, the value itself when there's nothing to redact
+ */
+export function redactValue(value: any, seen = new WeakSet<object>()): any {
+  if (typeof value === "string") {
+    return redactSecrets(value);
+  }
+  if (typeof value !== "object" || value === null || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const copy = new Error(redactSecrets(value.message));
+    copy.name = value.name;
+    if (value.stack) {
+      copy.stack = redactSecrets(value.stack);
+    }
+    // Fields such as code or cause
+    for (const [key, field] of Object.entries(value)) {
+      (copy as any)[key] = redactValue(field, seen);
+    }
+    return copy;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, redactValue(field, seen)])
+  );
+}
+
+let consoleRedacted = false;
+
+/**
+ * Redacts secrets from every console.debug/log/info/warn/error call of the
+ * process, including output of other libraries. The SDK logger redacts its
+ * own output without it. Safe to call more than once
+ */
+export function installConsoleRedaction() {
+  if (consoleRedacted) {
+    return;
+  }
+  consoleRedacted = true;
+
+  (["debug", "log", "info", "warn", "error"] as const).forEach((method) => {
+    const original = console[method].bind(console);
+    console[method] = (...args: any[]) =>
+      original(...args.map((arg) => redactValue(arg)));
+  });
+}
+
+/**
+ * Lists the plaintext credentials of a model config, which must not be
+ * persisted
+ *
+ * @returns paths of the offending fields, e.g. "fallbacks[0].apiKey"
+ */
+export function findPlaintextCredentials(
+  config: ModelConfig,
+  prefix = ""
+): string[] {
+  return [
+    ...(config.apiKey ? [`${prefix}apiKey`] : []),
+    ...(config.fallbacks || []).flatMap((fallback, index) =>
+      findPlaintextCredentials(fallback, `${prefix}fallbacks[${index}].`)
+    ),
+  ];
+}
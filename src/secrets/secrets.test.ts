@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { consoleLogger, logger, setLogger } from "../logger";
+import {
+  EncryptedFileSecretsProvider,
+  EnvSecretsProvider,
+  findPlaintextCredentials,
+  redactSecrets,
+  resolveModelSecrets,
+  resolveSecret,
+} from ".";
+
+test("encrypted file secrets round-trip and need the passphrase", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "axicov-secrets-"));
+
+  try {
+    const filePath = join(dir, "secrets.enc");
+    await EncryptedFileSecretsProvider.write(
+      filePath,
+      { OPENAI_API_KEY: "sk-file-secret-value-123" },
+      "passphrase"
+    );
+
+    assert.doesNotMatch(readFileSync(filePath, "utf8"), /sk-file-secret/);
+    assert.equal(
+      await new EncryptedFileSecretsProvider(filePath, "passphrase").get(
+        "OPENAI_API_KEY"
+      ),
+      "sk-file-secret-value-123"
+    );
+    await assert.rejects(
+      new EncryptedFileSecretsProvider(filePath, "wrong").get("OPENAI_API_KEY"),
+      /Failed to decrypt/
+    );
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("env secrets are limited to a prefix and an allow-list", async () => {
+  process.env.AXICOV_SECRET_TEST_KEY = "prefixed-value";
+  process.env.AXICOV_TEST_ALLOWED = "allowed-value";
+  process.env.AXICOV_TEST_PRIVATE = "private-value";
+
+  try {
+    const provider = new EnvSecretsProvider({
+      allow: ["AXICOV_TEST_ALLOWED"],
+    });
+
+    assert.equal(
+      await provider.get("AXICOV_SECRET_TEST_KEY"),
+      "prefixed-value"
+    );
+    assert.equal(await provider.get("AXICOV_TEST_ALLOWED"), "allowed-value");
+    await assert.rejects(
+      resolveSecret("AXICOV_TEST_PRIVATE", provider),
+      /Secret AXICOV_TEST_PRIVATE isn't readable/
+    );
+  } finally {
+    delete process.env.AXICOV_SECRET_TEST_KEY;
+    delete process.env.AXICOV_TEST_ALLOWED;
+    delete process.env.AXICOV_TEST_PRIVATE;
+  }
+});
+
+test("model configs resolve key secrets, including fallbacks", async () => {
+  const provider = {
+    get: async (name: string) =>
+      name === "PRIMARY" ? "primary-key-value" : undefined,
+  };
+
+  const resolved = await resolveModelSecrets(
+    {
+      provider: "openai",
+      modelName: "gpt-4o-mini",
+      apiKeySecret: "PRIMARY",
+      fallbacks: [{ provider: "fake", modelName: "fake" }],
+    },
+    provider
+  );
+  assert.equal(resolved.apiKey, "primary-key-value");
+  assert.equal("apiKeySecret" in resolved, false);
+
+  await assert.rejects(
+    resolveSecret("MISSING", provider),
+    /Secret MISSING not found/
+  );
+  assert.deepEqual(
+    findPlaintextCredentials({
+      provider: "openai",
+      modelName: "gpt-4o-mini",
+      fallbacks: [{ provider: "openai", modelName: "gpt-4o", apiKey: "x" }],
+    }),
+    ["fallbacks[0].apiKey"]
+  );
+});
+
+test("redacts resolved secrets and known credential formats", async () => {
+  await resolveSecret("TOKEN", { get: async () => "resolved-token-42" });
+
+  assert.equal(
+    redactSecrets(
+      "bad key resolved-token-42 or sk-abcdefghijklmnopqrstuv for mongodb://admin:hunter22@db:27017"
+    ),
+    "bad key [REDACTED] or [REDACTED] for mongodb://admin:[REDACTED]@db:27017"
+  );
+});
+
+test("the SDK logger redacts messages, errors and metadata", async () => {
+  await resolveSecret("LOGGED", { get: async () => "logged-secret-99" });
+  const logged: any[][] = [];
+  setLogger({
+    debug: (...args) => logged.push(args),
+    info: (...args) => logged.push(args),
+    warn: (...args) => logged.push(args),
+    error: (...args) => logged.push(args),
+  });
+
+  try {
+    logger.debug("key logged-secret-99");
+    logger.error("Failed:", new Error("bad key logged-secret-99"), {
+      request: { headers: ["Bearer logged-secret-99"] },
+    });
+  } finally {
+    setLogger(consoleLogger);
+  }
+
+  assert.equal(logged[0]![0], "key [REDACTED]");
+  assert.equal(logged[1]![1].message, "bad key [REDACTED]");
+  assert.doesNotMatch(logged[1]![1].stack, /logged-secret-99/);
+  assert.deepEqual(logged[1]![2], {
+    request: { headers: ["Bearer [REDACTED]"] },
+  });
+});
@@ -0,0 +1,2177 @@
+import { randomUUID } from "crypto";
+import express, { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import { Agent } from "../agent";
+import { extractContent } from "../utils/messages";
+import { parseToolResult } from "../utils/toolResult";
+import { createToolRouter } from "../router";
+import { createModelFromConfig } from "../models";
+import { BudgetExceededError, subtractUsage } from "../usage";
+import {
+  findPlaintextCredentials,
+  redactSecrets,
+  resolveModelSecrets,
+} from "../secrets";
+import {
+  AgentDefinition,
+  AgentStore,
+  AppOptions,
+  GuardrailViolation,
+  KnowledgeDocumentInput,
+  ModelConfig,
+  PendingApproval,
+  Principal,
+  ToolResult,
+  ToolRouterName,
+  UsageConfig,
+  UsageTotals,
+  UserMemoryStore,
+} from "../types";
+import {
+  DEFAULT_TENANT_ID,
+  FileAgentStore,
+  MemoryAgentStore,
+  SQLiteAgentStore,
+  tenantOf,
+} from "../store";
+import {
+  FileUserMemoryStore,
+  MemoryUserMemoryStore,
+  memoryToolBundle,
+  SQLiteUserMemoryStore,
+  ThreadOwnerError,
+} from "../memory";
+import {
+  authenticate,
+  corsOriginsFromEnv,
+  createAuthenticatorsFromEnv,
+  requirePermission,
+} from "./auth";
+import {
+  describeToolBundle,
+  getToolBundle,
+  listToolBundles,
+  registerToolBundle,
+  resolveToolBundles,
+} from "../registry";
+import { logger } from "../logger";
+import { instrumentAgent, metrics, observeHttpRequest } from "../metrics";
+import { createTracerFromEnv, Span, traceAgent } from "../tracing";
+
+// Helper function to read the route pattern a request matched
+function routeOf(req: Request) {
+  const path = req.route?.path;
+  if (typeof path === "string") {
+    return `${req.baseUrl}${path}`;
+  }
+  // Routes mounted on several fixed paths, e.g. /send and /send/stream
+  return Array.isArray(path) ? `${req.baseUrl}${req.path}` : "unmatched";
+}
+
+// Helper function to create the agent store from the environment
+function createAgentStore(): AgentStore {
+  switch (process.env.AGENT_STORE || "memory") {
+    case "memory":
+      return new MemoryAgentStore();
+    case "file":
+      return new FileAgentStore(
+        process.env.AGENT_STORE_PATH || "data/agents.json"
+      );
+    case "sqlite":
+      return new SQLiteAgentStore(
+        process.env.AGENT_STORE_PATH || "data/agents.db"
+      );
+    default:
+      throw new Error(`Unsupported agent store: ${process.env.AGENT_STORE}`);
+  }
+}
+
+// Helper function to create the user memory store from the environment
+function createUserMemoryStore(): UserMemoryStore {
+  switch (process.env.MEMORY_STORE || "memory") {
+    case "memory":
+      return new MemoryUserMemoryStore();
+    case "file":
+      return new FileUserMemoryStore(
+        process.env.MEMORY_STORE_PATH || "data/memories.json"
+      );
+    case "sqlite":
+      return new SQLiteUserMemoryStore(
+        process.env.MEMORY_STORE_PATH || "data/memories.db"
+      );
+    default:
+      throw new Error(`Unsupported memory store: ${process.env.MEMORY_STORE}`);
+  }
+}
+
+interface CreateAgentRequest {
+  agentId: string;
+  modelConfig: ModelConfig;
+  params: {
+    name: string;
+    instruction: string;
+    toolKnowledge?: string[];
+  };
+  tools?: string[];
+  router?: ToolRouterName;
+  checkPointer?: "local" | "mongo";
+  mongoUriSecret?: string;
+  // Rejected, credentials are referenced by secret name
+  mongoUri?: string;
+  usage?: UsageConfig;
+  prompts?: AgentDefinition["prompts"];
+  history?: AgentDefinition["history"];
+  guardrails?: AgentDefinition["guardrails"];
+}
+
+// Helper function to check prompt overrides sent over HTTP
+function isValidPromptConfig(prompts: any) {
+  return (["agent", "orchestrator"] as const).every((kind) => {
+    const sections = prompts[kind]?.sections;
+    return (
+      sections === undefined ||
+      (typeof sections === "object" &&
+        sections !== null &&
+        Object.values(sections).every(
+          (template) => template === null || typeof template === "string"
+        ))
+    );
+  });
+}
+
+// Helper function to check a history policy sent over HTTP
+function isValidHistoryPolicy(history: any) {
+  // Helper function to check a limit of the policy
+  const isLimit = (value: any) => Number.isInteger(value) && value > 0;
+
+  switch (history?.strategy) {
+    case "all":
+      return true;
+    case "lastMessages":
+      return isLimit(history.maxMessages);
+    case "tokenBudget":
+      return isLimit(history.maxTokens);
+    case "summarize":
+      return (
+        isLimit(history.maxTokens) &&
+        (history.keepTokens === undefined ||
+          (isLimit(history.keepTokens) &&
+            history.keepTokens < history.maxTokens)) &&
+        (history.prompt === undefined || typeof history.prompt === "string") &&
+        history.model === undefined
+      );
+    default:
+      return false;
+  }
+}
+
+// Helper function to check a guardrail configuration sent over HTTP
+function isValidGuardrailConfig(guardrails: any) {
+  // Helper function to check a list of strings
+  const isStrings = (value: any) =>
+    value === undefined ||
+    (Array.isArray(value) &&
+      value.every((item) => typeof item === "string" && item));
+  // Helper function to check a tool argument policy
+  const isPolicy = (policy: any) =>
+    typeof policy?.tool === "string" &&
+    typeof policy.argument === "string" &&
+    policy.argument !== "" &&
+    ["min", "max"].every(
+      (key) => policy[key] === undefined || Number.isFinite(policy[key])
+    ) &&
+    ["allow", "deny"].every(
+      (key) =>
+        policy[key] === undefined ||
+        (Array.isArray(policy[key]) &&
+          policy[key].every((value: any) =>
+            ["string", "number"].includes(typeof value)
+          ))
+    ) &&
+    [undefined, "block", "requireApproval"].includes(policy.action) &&
+    (policy.message === undefined || typeof policy.message === "string");
+
+  return (
+    typeof guardrails === "object" &&
+    guardrails !== null &&
+    guardrails.input === undefined &&
+    guardrails.output === undefined &&
+    [undefined, true, false].includes(guardrails.promptInjection) &&
+    isStrings(guardrails.blockedTopics) &&
+    ([undefined, true, false].includes(guardrails.redactPii) ||
+      (isStrings(guardrails.redactPii) &&
+        guardrails.redactPii.every((type: string) =>
+          ["email", "phone", "creditCard", "ssn", "secret"].includes(type)
+        ))) &&
+    (guardrails.toolArguments === undefined ||
+      (Array.isArray(guardrails.toolArguments) &&
+        guardrails.toolArguments.every(isPolicy))) &&
+    (guardrails.blockedResponse === undefined ||
+      typeof guardrails.blockedResponse === "string")
+  );
+}
+
+// Helper function to check a knowledge document sent over HTTP
+function isValidKnowledgeDocument(document: any) {
+  if (
+    typeof document !== "object" ||
+    document === null ||
+    (typeof document.content !== "string" &&
+      (typeof document.content !== "object" || document.content === null)) ||
+    !["text", "markdown", "json", undefined].includes(document.format) ||
+    !["id", "title", "source"].every(
+      (key) => document[key] === undefined || typeof document[key] === "string"
+    )
+  ) {
+    return false;
+  }
+
+  if (document.format === "json" && typeof document.content === "string") {
+    try {
+      JSON.parse(document.content);
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper function to get the tenant of the request's principal
+function requestTenant(res: Response) {
+  return (res.locals.principal as Principal).tenantId;
+}
+
+// Helper function to get the id an agent or thread of the tenant is stored
+// and run under. Ids of other tenants than the default one are prefixed with
+// their tenant, so every tenant has its own agent and thread ids
+function scopedId(id: string, tenantId: string) {
+  return tenantId === DEFAULT_TENANT_ID ? id : `${tenantId}/${id}`;
+}
+
+// Helper function to get the id the tenant knows a scoped id by
+function publicId(id: string, tenantId: string) {
+  const prefix = `${tenantId}/`;
+  return tenantId !== DEFAULT_TENANT_ID && id.startsWith(prefix)
+    ? id.slice(prefix.length)
+    : id;
+}
+
+// Helper function to show a pending approval under the thread id the tenant
+// knows
+function publicApproval(
+  pendingApproval: PendingApproval | null,
+  threadId: string
+) {
+  return pendingApproval && { ...pendingApproval, threadId };
+}
+
+// Helper function to parse ?offset=&limit= query params
+function parsePaging(query: Request["query"], defaultLimit?: number) {
+  const offset = Number(query.offset ?? 0);
+  const limit = query.limit === undefined ? defaultLimit : Number(query.limit);
+
+  if (
+    !Number.isInteger(offset) ||
+    offset < 0 ||
+    (limit !== undefined && (!Number.isInteger(limit) || limit < 0))
+  ) {
+    return null;
+  }
+
+  return { offset, ...(limit !== undefined ? { limit } : {}) };
+}
+
+interface SendMessageRequest {
+  agentId: string;
+  threadId: string;
+  message: string;
+  // User whose memories the thread uses
+  userId?: string;
+}
+
+interface ApproveRequest {
+  editedArgs?: { [toolCallId: string]: Record<string, any> };
+}
+
+interface RejectRequest {
+  reason?: string;
+}
+
+interface ForkRequest {
+  newThreadId: string;
+  checkpointId?: string;
+}
+
+// Helper function to run an executor on a thread (by its scoped id) and
+// collect the final response
+async function collectAgentResponse(
+  agent: Agent,
+  agentExecutor: any,
+  input: any,
+  threadId: string,
+  publicThreadId: string,
+  usageBefore: UsageTotals = agent.usage.getThreadUsage(threadId)
+) {
+  let finalResponse = "";
+  const toolCalls: {
+    id: string;
+    name: string;
+    args: Record<string, any>;
+    result?: ToolResult;
+  }[] = [];
+  let servedBy: string | undefined;
+  // Guardrail violations of the run, e.g. blocked tool calls
+  const violations: GuardrailViolation[] = [];
+  const offViolations = agent.on("guardrail_violation", (event) => {
+    if (event.threadId === threadId) {
+      violations.push(event.violation);
+    }
+  });
+
+  try {
+    for await (const chunk of agent.streamExecutor(agentExecutor, input, {
+      threadId,
+    })) {
+      if (chunk.agent?.messages) {
+        const lastMessage =
+          chunk.agent.messages[chunk.agent.messages.length - 1];
+        if (lastMessage.content) {
+          finalResponse = extractContent(lastMessage.content);
+        }
+        // Capture tool calls if any
+        for (const toolCall of lastMessage.tool_calls || []) {
+          toolCalls.push({
+            id: toolCall.id,
+            name: toolCall.name,
+            args: toolCall.args,
+          });
+        }
+        // Capture the model that served the turn when fallbacks are
+        // configured
+        if (lastMessage.response_metadata?.servedBy) {
+          servedBy = lastMessage.response_metadata.servedBy;
+        }
+      }
+
+      // Attach the structured result of each executed tool call
+      for (const toolMessage of chunk.tools?.messages || []) {
+        const toolCall = toolCalls.find(
+          (call) => call.id === toolMessage.tool_call_id
+        );
+        if (toolCall) {
+          toolCall.result = parseToolResult(
+            extractContent(toolMessage.content)
+          );
+        }
+      }
+    }
+
+    const pendingApproval = await agent.getPendingApproval(threadId);
+    if (finalResponse && !pendingApproval) {
+      finalResponse = (await agent.filterResponse(finalResponse, threadId))
+        .text;
+    }
+    const threadUsage = agent.usage.getThreadUsage(threadId);
+
+    return {
+      response: finalResponse,
+      // Tool arguments and results leave the server through output filters
+      toolCalls:
+        toolCalls.length > 0
+          ? await Promise.all(
+              toolCalls.map(async ({ result, ...toolCall }) => ({
+                ...toolCall,
+                args: await agent.filterOutput(toolCall.args, threadId),
+                ...(result
+                  ? { result: await agent.filterOutput(result, threadId) }
+                  : {}),
+              }))
+            )
+          : undefined,
+      model: servedBy,
+      pendingApproval:
+        publicApproval(pendingApproval, publicThreadId) || undefined,
+      guardrails: violations.length > 0 ? violations : undefined,
+      // Usage of this request, with the thread's running totals
+      usage: {
+        ...subtractUsage(threadUsage, usageBefore),
+        thread: threadUsage,
+      },
+    };
+  } finally {
+    offViolations();
+  }
+}
+
+// Helper function to stream agent events of a thread (by its scoped id) as
+// Server-Sent Events
+async function streamAgentEvents(
+  res: Response,
+  agent: Agent,
+  message: string,
+  threadId: string,
+  publicThreadId: string,
+  userId?: string
+) {
+  const controller = new AbortController();
+
+  // Abort the run when the client disconnects
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  for await (const event of agent.streamMessage(message, {
+    signal: controller.signal,
+    threadId,
+    ...(userId ? { userId } : {}),
+  })) {
+    if (controller.signal.aborted) {
+      break;
+    }
+    const data =
+      event.type === "final" && event.pendingApproval
+        ? {
+            ...event,
+            pendingApproval: publicApproval(
+              event.pendingApproval,
+              publicThreadId
+            ),
+          }
+        : event;
+    res.write(
+      `event: ${event.type}\ndata: ${redactSecrets(JSON.stringify(data))}\n\n`
+    );
+  }
+
+  res.end();
+}
+
+/**
+ * Creates the Express app of the server, without listening. Each app has its
+ * own live agents and stores
+ *
+ * @param options stores, authentication, metrics and tracing, read from the
+ * environment by default
+ */
+export function createApp(options: AppOptions = {}) {
+  const app = express();
+  // Set when OTEL_EXPORTER_OTLP_ENDPOINT or TRACES_FILE is configured
+  const tracer = options.tracer || createTracerFromEnv();
+  const metricsRegistry = options.metrics || metrics;
+
+  // Middleware
+  app.use(cors({ origin: corsOriginsFromEnv() }));
+  app.use(express.json());
+
+  // Record request latencies, and a server span per request when tracing is on
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const startedAt = Date.now();
+    const span = tracer?.startSpan(`${req.method} ${req.path}`, {
+      kind: "server",
+      attributes: { "http.request.method": req.method },
+    });
+    res.locals.span = span;
+
+    res.on("close", () => {
+      const route = routeOf(req);
+      observeHttpRequest(
+        req.method,
+        route,
+        res.statusCode,
+        Date.now() - startedAt,
+        metricsRegistry
+      );
+
+      if (span) {
+        span.data.name = `${req.method} ${route}`;
+        span
+          .setAttribute("http.route", route)
+          .setAttribute("http.response.status_code", res.statusCode)
+          .setStatus(res.statusCode >= 500 ? "error" : "unset")
+          .end();
+      }
+    });
+    next();
+  });
+
+  // Keep resolved secrets out of error responses, the logger redacts logs
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+    res.json = (body: any) =>
+      json(
+        typeof body?.error === "string"
+          ? { ...body, error: redactSecrets(body.error) }
+          : body
+      );
+    next();
+  });
+
+  // Every route except the health check requires a principal with the
+  // route's permission. Without API_KEYS, JWT_SECRET or a registered
+  // authenticator, requests are refused unless AUTH_DISABLED=true lets local
+  // ones in for development
+  const auth = authenticate(
+    options.authenticators || createAuthenticatorsFromEnv(),
+    options.allowAnonymous ?? process.env.AUTH_DISABLED === "true"
+  );
+  app.use((req: Request, res: Response, next: NextFunction) =>
+    req.path === "/health" ? next() : auth(req, res, next)
+  );
+
+  // Agent definitions and their threads are persisted in the store, live
+  // agents are rebuilt from their definitions lazily on first access (e.g.
+  // after a restart) and shared by all of their threads
+  const agentStore = options.agentStore || createAgentStore();
+  const agents = new Map<string, Promise<Agent>>();
+
+  // Long-term user memories of every agent, used by the "memory" tool bundle
+  const memoryStore = options.memoryStore || createUserMemoryStore();
+  if (!getToolBundle(memoryToolBundle.name)) {
+    registerToolBundle(memoryToolBundle);
+  }
+
+  // Helper function to build and initialize an agent from its definition
+  async function buildAgent(definition: AgentDefinition): Promise<Agent> {
+    const agent = new Agent({
+      agentId: definition.agentId,
+      params: { ...definition.params },
+      model: createModelFromConfig(
+        await resolveModelSecrets(definition.modelConfig)
+      ),
+      router: createToolRouter(definition.router),
+      ...(definition.usage ? { usage: definition.usage } : {}),
+      ...(definition.prompts ? { prompts: definition.prompts } : {}),
+      ...(definition.history ? { history: definition.history } : {}),
+      ...(definition.guardrails ? { guardrails: definition.guardrails } : {}),
+      memory: { store: memoryStore },
+    });
+
+    await agent.initialize({
+      toolNumbers: [],
+      clients: resolveToolBundles(definition.tools),
+      allRegistry: [],
+      checkPointer: definition.checkPointer,
+      ...(definition.mongoUri ? { mongoUri: definition.mongoUri } : {}),
+      ...(definition.mongoUriSecret
+        ? { mongoUriSecret: definition.mongoUriSecret }
+        : {}),
+    });
+
+    (definition.disabledTools || [])
+      .filter((name) => agent.tools[name])
+      .forEach((name) => agent.setToolEnabled(name, false));
+
+    for (const document of definition.knowledge || []) {
+      await agent.knowledge.add(document);
+    }
+
+    instrumentAgent(agent, metricsRegistry);
+    if (tracer) {
+      traceAgent(agent, tracer);
+    }
+
+    return agent;
+  }
+
+  // Helper function to get an agent definition if the tenant owns it
+  async function getDefinition(
+    agentId: string,
+    tenantId: string
+  ): Promise<AgentDefinition | null> {
+    const definition = await agentStore.get(scopedId(agentId, tenantId));
+    return definition && tenantOf(definition) === tenantId ? definition : null;
+  }
+
+  // Helper function to get a live agent of the tenant, rebuilding it from the
+  // store if needed
+  async function getAgent(
+    agentId: string,
+    tenantId: string
+  ): Promise<Agent | null> {
+    const definition = await getDefinition(agentId, tenantId);
+    if (!definition) {
+      return null;
+    }
+
+    let agent = agents.get(definition.agentId);
+
+    if (!agent) {
+      agent = buildAgent(definition);
+      agents.set(definition.agentId, agent);
+      // Allow a later retry if the rebuild fails
+      agent.catch(() => agents.delete(definition.agentId));
+    }
+
+    return agent;
+  }
+
+  // Helper function to get the agent owning a thread of the tenant
+  async function getThreadAgent(
+    agentId: string,
+    threadId: string,
+    tenantId: string
+  ): Promise<Agent | null> {
+    const thread = await agentStore.getThread(scopedId(threadId, tenantId));
+    if (!thread || thread.agentId !== scopedId(agentId, tenantId)) {
+      return null;
+    }
+
+    return getAgent(agentId, tenantId);
+  }
+
+  // Helper function to record activity on a thread of an agent, by its
+  // scoped id
+  async function touchThread(agent: Agent, threadId: string) {
+    const now = new Date().toISOString();
+    const thread = await agentStore.getThread(threadId);
+
+    await agentStore.saveThread({
+      threadId,
+      agentId: agent.agentId,
+      createdAt: thread?.createdAt || now,
+      updatedAt: now,
+    });
+  }
+
+  // Helper function to trace a thread's agent activity under the request span
+  function traceThread(res: Response, agent: Agent, threadId: string) {
+    const span = res.locals.span as Span | undefined;
+    if (tracer && span) {
+      res.on("close", tracer.bindThread(agent.agentId, threadId, span));
+    }
+  }
+
+  // POST /agent/create - Create and configure an agent
+  app.post(
+    "/agent/create",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const {
+          agentId,
+          modelConfig,
+          params,
+          tools = [],
+          router = "llm",
+          checkPointer = "local",
+          mongoUri,
+          mongoUriSecret,
+          usage,
+          prompts,
+          history,
+          guardrails,
+        } = req.body as CreateAgentRequest;
+
+        // Validation
+        if (!agentId) {
+          return res.status(400).json({
+            success: false,
+            error: "agentId is required",
+          });
+        }
+        if (typeof agentId !== "string" || agentId.includes("/")) {
+          return res.status(400).json({
+            success: false,
+            error: "agentId must be a string without /",
+          });
+        }
+        if (!modelConfig || !modelConfig.provider || !modelConfig.modelName) {
+          return res.status(400).json({
+            success: false,
+            error: "modelConfig with provider and modelName is required",
+          });
+        }
+        if (!params || !params.name || !params.instruction) {
+          return res.status(400).json({
+            success: false,
+            error: "params with name and instruction are required",
+          });
+        }
+
+        if (!Array.isArray(tools)) {
+          return res.status(400).json({
+            success: false,
+            error: "tools must be an array of tool bundle names",
+          });
+        }
+
+        if (!["all", "llm", "lexical"].includes(router)) {
+          return res.status(400).json({
+            success: false,
+            error: "router must be one of: all, llm, lexical",
+          });
+        }
+
+        if (prompts && !isValidPromptConfig(prompts)) {
+          return res.status(400).json({
+            success: false,
+            error:
+              "prompts.agent.sections and prompts.orchestrator.sections must map section names to strings or null",
+          });
+        }
+
+        if (history && !isValidHistoryPolicy(history)) {
+          return res.status(400).json({
+            success: false,
+            error:
+              'history must be { strategy: "all" }, { strategy: "lastMessages", maxMessages }, { strategy: "tokenBudget", maxTokens } or { strategy: "summarize", maxTokens, keepTokens?, prompt? } with positive integer limits',
+          });
+        }
+
+        if (guardrails && !isValidGuardrailConfig(guardrails)) {
+          return res.status(400).json({
+            success: false,
+            error:
+              "guardrails must be { promptInjection?, blockedTopics?, redactPii?, toolArguments?, blockedResponse? } with tool argument policies of { tool, argument, min?, max?, allow?, deny?, action?, message? }",
+          });
+        }
+        // Regular expressions from requests could hang the server on
+        // catastrophic backtracking, so patterns are only accepted in code
+        if (
+          guardrails?.toolArguments?.some(
+            (policy: any) => policy.pattern !== undefined
+          )
+        ) {
+          return res.status(400).json({
+            success: false,
+            error:
+              "Tool argument patterns can't be set over HTTP, configure them in code",
+          });
+        }
+
+        // Credentials are referenced by secret name so that definitions never
+        // contain them
+        const plaintext = [
+          ...findPlaintextCredentials(modelConfig, "modelConfig."),
+          ...(mongoUri ? ["mongoUri"] : []),
+        ];
+        if (plaintext.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: `Plaintext credentials aren't accepted (${plaintext.join(
+              ", "
+            )}). Reference secrets with apiKeySecret and mongoUriSecret instead`,
+          });
+        }
+
+        // Check that the models can be created (provider, secrets, baseURL)
+        try {
+          createModelFromConfig(await resolveModelSecrets(modelConfig));
+        } catch (error: any) {
+          return res.status(400).json({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        // Check that tool bundles exist
+        try {
+          resolveToolBundles(tools);
+        } catch (error: any) {
+          return res.status(400).json({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        // Check if the tenant already has the agent
+        const tenantId = requestTenant(res);
+        const storedAgentId = scopedId(agentId, tenantId);
+        if (
+          agents.has(storedAgentId) ||
+          (await agentStore.get(storedAgentId))
+        ) {
+          return res.status(409).json({
+            success: false,
+            error:
+              "Agent with this agentId already exists. Use DELETE /agent/:agentId first.",
+          });
+        }
+
+        const definition: AgentDefinition = {
+          agentId: storedAgentId,
+          params,
+          modelConfig,
+          tools,
+          router,
+          checkPointer,
+          ...(mongoUriSecret ? { mongoUriSecret } : {}),
+          ...(usage ? { usage } : {}),
+          ...(prompts ? { prompts } : {}),
+          ...(history ? { history } : {}),
+          ...(guardrails ? { guardrails } : {}),
+          tenantId,
+          createdAt: new Date().toISOString(),
+        };
+
+        // Create and initialize agent
+        const agent = await buildAgent(definition);
+
+        // Store agent
+        await agentStore.save(definition);
+        agents.set(storedAgentId, Promise.resolve(agent));
+
+        return res.status(201).json({
+          success: true,
+          message: "Agent created successfully",
+          agentId,
+          agentName: params.name,
+          tools: Object.keys(agent.tools),
+        });
+      } catch (error: any) {
+        logger.error("Error creating agent:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to create agent",
+        });
+      }
+    }
+  );
+
+  // POST /send - Send message to a thread of an existing agent
+  // POST /send/stream (or Accept: text/event-stream) - Stream events over SSE
+  app.post(
+    ["/send", "/send/stream"],
+    requirePermission("chat"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId, threadId, message, userId } =
+          req.body as SendMessageRequest;
+
+        // Validation
+        if (!agentId) {
+          return res.status(400).json({
+            success: false,
+            error: "agentId is required",
+          });
+        }
+        if (!threadId) {
+          return res.status(400).json({
+            success: false,
+            error: "threadId is required",
+          });
+        }
+        if (!message) {
+          return res.status(400).json({
+            success: false,
+            error: "message is required",
+          });
+        }
+        if (userId !== undefined && (typeof userId !== "string" || !userId)) {
+          return res.status(400).json({
+            success: false,
+            error: "userId must be a non-empty string",
+          });
+        }
+
+        // Check if agent exists
+        const tenantId = requestTenant(res);
+        const agent = await getAgent(agentId, tenantId);
+        if (!agent) {
+          return res.status(404).json({
+            success: false,
+            error:
+              "Agent not found. Please create an agent first using POST /agent/create",
+          });
+        }
+
+        // Threads belong to a single agent. Their ids are scoped to the tenant
+        // like agent ids
+        const scopedThreadId = scopedId(threadId, tenantId);
+        const thread = await agentStore.getThread(scopedThreadId);
+        if (thread && thread.agentId !== agent.agentId) {
+          return res.status(409).json({
+            success: false,
+            error: "threadId belongs to another agent",
+          });
+        }
+        if (!thread && threadId.includes("/")) {
+          return res.status(400).json({
+            success: false,
+            error: "threadId must not contain /",
+          });
+        }
+
+        // Runs paused for approval must be approved or rejected first
+        const pendingApproval = await agent.getPendingApproval(scopedThreadId);
+        if (pendingApproval) {
+          return res.status(409).json({
+            success: false,
+            error:
+              "Thread is waiting for tool approval. Use POST /agent/:agentId/threads/:threadId/approve or /reject first.",
+            pendingApproval: publicApproval(pendingApproval, threadId),
+          });
+        }
+
+        // Threads over budget can't run until the budget is raised
+        try {
+          agent.usage.assertWithinBudget(scopedThreadId);
+        } catch (error: any) {
+          return res.status(402).json({
+            success: false,
+            error: error.message,
+            usage: agent.usage.getThreadUsage(scopedThreadId),
+          });
+        }
+
+        // Threads belong to the first user they were used with
+        if (userId) {
+          try {
+            await agent.memory.bindThread(scopedThreadId, userId);
+          } catch (error: any) {
+            if (!(error instanceof ThreadOwnerError)) {
+              throw error;
+            }
+            return res.status(409).json({
+              success: false,
+              error: error.message,
+            });
+          }
+        }
+
+        await touchThread(agent, scopedThreadId);
+        traceThread(res, agent, scopedThreadId);
+
+        if (
+          req.path === "/send/stream" ||
+          req.headers.accept?.includes("text/event-stream")
+        ) {
+          return await streamAgentEvents(
+            res,
+            agent,
+            message,
+            scopedThreadId,
+            threadId,
+            userId
+          );
+        }
+
+        // Select tools and send message to agent
+        const usageBefore = agent.usage.getThreadUsage(scopedThreadId);
+        const turn = await agent.prepareTurn(message, {
+          threadId: scopedThreadId,
+          ...(userId ? { userId } : {}),
+        });
+
+        // Blocked messages are answered without running the agent
+        if (turn.blocked) {
+          return res.json({
+            success: true,
+            agentId,
+            threadId,
+            response: turn.response,
+            blocked: true,
+            guardrails: turn.violations,
+          });
+        }
+
+        const result = await collectAgentResponse(
+          agent,
+          turn.agentExecutor,
+          turn.input,
+          scopedThreadId,
+          threadId,
+          usageBefore
+        );
+        const violations = [...turn.violations, ...(result.guardrails || [])];
+
+        return res.json({
+          success: true,
+          agentId,
+          threadId,
+          ...result,
+          invalidTools:
+            turn.invalidTools.length > 0 ? turn.invalidTools : undefined,
+          guardrails: violations.length > 0 ? violations : undefined,
+        });
+      } catch (error: any) {
+        logger.error("Error sending message:", error);
+        if (res.headersSent) {
+          return res.end();
+        }
+        if (error instanceof BudgetExceededError) {
+          return res.status(402).json({
+            success: false,
+            error: error.message,
+          });
+        }
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to process message",
+        });
+      }
+    }
+  );
+
+  // GET /agent/:agentId - Get agent info
+  app.get(
+    "/agent/:agentId",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId } = req.params;
+
+      const agent = await getAgent(agentId, requestTenant(res));
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent not found",
+        });
+      }
+
+      return res.json({
+        success: true,
+        agentId,
+        agentName: agent.params.name,
+        router: agent.router.name,
+        toolCount: Object.keys(agent.tools).length,
+        tools: Object.keys(agent.tools),
+        disabledTools: Object.keys(agent.disabledTools),
+      });
+    }
+  );
+
+  // POST /agent/:agentId/tools - Load tool bundles into a live agent
+  app.post(
+    "/agent/:agentId/tools",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId } = req.params;
+        const { tools } = req.body as { tools: string[] };
+
+        if (!Array.isArray(tools) || tools.length === 0) {
+          return res.status(400).json({
+            success: false,
+            error: "tools must be a non-empty array of tool bundle names",
+          });
+        }
+
+        const tenantId = requestTenant(res);
+        const definition = await getDefinition(agentId, tenantId);
+        const agent = definition && (await getAgent(agentId, tenantId));
+        if (!definition || !agent) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        let registries;
+        try {
+          registries = resolveToolBundles(tools);
+        } catch (error: any) {
+          return res.status(400).json({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        const loaded = tools.filter((name) => definition.tools.includes(name));
+        if (loaded.length > 0) {
+          return res.status(409).json({
+            success: false,
+            error: `Tool bundle(s) already loaded: ${loaded.join(", ")}`,
+          });
+        }
+
+        const added = await agent.addTools(registries);
+
+        await agentStore.save({
+          ...definition,
+          tools: [...definition.tools, ...tools],
+          disabledTools: (definition.disabledTools || []).filter(
+            (name) => !added.includes(name)
+          ),
+        });
+
+        return res.json({
+          success: true,
+          agentId,
+          added,
+          tools: Object.keys(agent.tools),
+        });
+      } catch (error: any) {
+        logger.error("Error adding tools:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to add tools",
+        });
+      }
+    }
+  );
+
+  // DELETE /agent/:agentId/tools - Unload tool bundles from a live agent
+  app.delete(
+    "/agent/:agentId/tools",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId } = req.params;
+        const { tools } = req.body as { tools: string[] };
+
+        if (!Array.isArray(tools) || tools.length === 0) {
+          return res.status(400).json({
+            success: false,
+            error: "tools must be a non-empty array of tool bundle names",
+          });
+        }
+
+        const tenantId = requestTenant(res);
+        const definition = await getDefinition(agentId, tenantId);
+        const agent = definition && (await getAgent(agentId, tenantId));
+        if (!definition || !agent) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        const notLoaded = tools.filter(
+          (name) => !definition.tools.includes(name)
+        );
+        if (notLoaded.length > 0) {
+          return res.status(404).json({
+            success: false,
+            error: `Tool bundle(s) not loaded: ${notLoaded.join(", ")}`,
+          });
+        }
+
+        const removed = agent.removeTools(
+          tools.flatMap((name) => {
+            const bundle = getToolBundle(name);
+            return (bundle && agent.toolsByRegistry.get(bundle.registry)) || [];
+          })
+        );
+
+        await agentStore.save({
+          ...definition,
+          tools: definition.tools.filter((name) => !tools.includes(name)),
+          disabledTools: (definition.disabledTools || []).filter(
+            (name) => !removed.includes(name)
+          ),
+        });
+
+        return res.json({
+          success: true,
+          agentId,
+          removed,
+          tools: Object.keys(agent.tools),
+        });
+      } catch (error: any) {
+        logger.error("Error removing tools:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to remove tools",
+        });
+      }
+    }
+  );
+
+  // PATCH /agent/:agentId/tools/:toolName - Enable or disable a loaded tool
+  app.patch(
+    "/agent/:agentId/tools/:toolName",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId, toolName } = req.params as {
+          agentId: string;
+          toolName: string;
+        };
+        const { enabled } = req.body as { enabled: boolean };
+
+        if (typeof enabled !== "boolean") {
+          return res.status(400).json({
+            success: false,
+            error: "enabled must be a boolean",
+          });
+        }
+
+        const tenantId = requestTenant(res);
+        const definition = await getDefinition(agentId, tenantId);
+        const agent = definition && (await getAgent(agentId, tenantId));
+        if (!definition || !agent) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        if (!agent.tools[toolName] && !agent.disabledTools[toolName]) {
+          return res.status(404).json({
+            success: false,
+            error: `Tool ${toolName} not found`,
+          });
+        }
+
+        agent.setToolEnabled(toolName, enabled);
+
+        const disabledTools = (definition.disabledTools || []).filter(
+          (name) => name !== toolName
+        );
+        await agentStore.save({
+          ...definition,
+          disabledTools: enabled ? disabledTools : [...disabledTools, toolName],
+        });
+
+        return res.json({
+          success: true,
+          agentId,
+          tool: toolName,
+          enabled,
+          tools: Object.keys(agent.tools),
+        });
+      } catch (error: any) {
+        logger.error("Error updating tool:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to update tool",
+        });
+      }
+    }
+  );
+
+  // POST /agent/:agentId/knowledge - Add documents to the agent's knowledge
+  app.post(
+    "/agent/:agentId/knowledge",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId } = req.params;
+        const { documents } = req.body as {
+          documents: KnowledgeDocumentInput[];
+        };
+
+        if (
+          !Array.isArray(documents) ||
+          documents.length === 0 ||
+          !documents.every(isValidKnowledgeDocument)
+        ) {
+          return res.status(400).json({
+            success: false,
+            error:
+              "documents must be a non-empty array of { content, format?, id?, title?, source? } with format text, markdown or json",
+          });
+        }
+
+        const tenantId = requestTenant(res);
+        const definition = await getDefinition(agentId, tenantId);
+        const agent = definition && (await getAgent(agentId, tenantId));
+        if (!definition || !agent) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        // Ids are assigned here so the saved documents replace the same ones
+        // on rebuild
+        const inputs = documents.map((document) => ({
+          ...document,
+          id: document.id || randomUUID(),
+        }));
+        const added = [];
+        for (const input of inputs) {
+          added.push(await agent.knowledge.add(input));
+        }
+
+        const ids = inputs.map((input) => input.id);
+        await agentStore.save({
+          ...definition,
+          knowledge: [
+            ...(definition.knowledge || []).filter(
+              (document) => !ids.includes(document.id!)
+            ),
+            ...inputs,
+          ],
+        });
+
+        return res.status(201).json({
+          success: true,
+          agentId,
+          documents: added,
+        });
+      } catch (error: any) {
+        logger.error("Error adding knowledge:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to add knowledge",
+        });
+      }
+    }
+  );
+
+  // GET /agent/:agentId/knowledge - List the agent's knowledge documents (paged)
+  app.get(
+    "/agent/:agentId/knowledge",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId } = req.params;
+
+      const paging = parsePaging(req.query);
+      if (!paging) {
+        return res.status(400).json({
+          success: false,
+          error: "offset and limit must be non-negative integers",
+        });
+      }
+
+      const agent = await getAgent(agentId, requestTenant(res));
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent not found",
+        });
+      }
+
+      const all = agent.knowledge.list();
+      const documents = all.slice(
+        paging.offset,
+        paging.limit === undefined ? undefined : paging.offset + paging.limit
+      );
+
+      return res.json({
+        success: true,
+        agentId,
+        count: documents.length,
+        total: all.length,
+        offset: paging.offset,
+        documents,
+      });
+    }
+  );
+
+  // DELETE /agent/:agentId/knowledge/:documentId - Remove a knowledge document
+  app.delete(
+    "/agent/:agentId/knowledge/:documentId",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId, documentId } = req.params as {
+          agentId: string;
+          documentId: string;
+        };
+
+        const tenantId = requestTenant(res);
+        const definition = await getDefinition(agentId, tenantId);
+        const agent = definition && (await getAgent(agentId, tenantId));
+        if (!definition || !agent) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        if (!agent.knowledge.delete(documentId)) {
+          return res.status(404).json({
+            success: false,
+            error: `Knowledge document ${documentId} not found`,
+          });
+        }
+
+        await agentStore.save({
+          ...definition,
+          knowledge: (definition.knowledge || []).filter(
+            (document) => document.id !== documentId
+          ),
+        });
+
+        return res.json({
+          success: true,
+          agentId,
+          documentId,
+        });
+      } catch (error: any) {
+        logger.error("Error deleting knowledge:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to delete knowledge",
+        });
+      }
+    }
+  );
+
+  // GET /agent/:agentId/users/:userId/memories - List what the agent remembers
+  // about a user (paged)
+  app.get(
+    "/agent/:agentId/users/:userId/memories",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId, userId } = req.params as {
+          agentId: string;
+          userId: string;
+        };
+
+        const paging = parsePaging(req.query);
+        if (!paging) {
+          return res.status(400).json({
+            success: false,
+            error: "offset and limit must be non-negative integers",
+          });
+        }
+
+        const definition = await getDefinition(agentId, requestTenant(res));
+        if (!definition) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        const { total, memories } = await memoryStore.list(
+          definition.agentId,
+          userId,
+          paging
+        );
+
+        return res.json({
+          success: true,
+          agentId,
+          userId,
+          count: memories.length,
+          total,
+          offset: paging.offset,
+          memories: memories.map((memory) => ({ ...memory, agentId })),
+        });
+      } catch (error: any) {
+        logger.error("Error listing memories:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to list memories",
+        });
+      }
+    }
+  );
+
+  // DELETE /agent/:agentId/users/:userId/memories/:memoryId - Forget a memory
+  app.delete(
+    "/agent/:agentId/users/:userId/memories/:memoryId",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId, userId, memoryId } = req.params as {
+          agentId: string;
+          userId: string;
+          memoryId: string;
+        };
+
+        const definition = await getDefinition(agentId, requestTenant(res));
+        if (!definition) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        if (!(await memoryStore.delete(definition.agentId, userId, memoryId))) {
+          return res.status(404).json({
+            success: false,
+            error: `Memory ${memoryId} not found`,
+          });
+        }
+
+        return res.json({
+          success: true,
+          agentId,
+          userId,
+          memoryId,
+        });
+      } catch (error: any) {
+        logger.error("Error deleting memory:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to delete memory",
+        });
+      }
+    }
+  );
+
+  // DELETE /agent/:agentId/users/:userId/memories - Forget everything the agent
+  // remembers about a user
+  app.delete(
+    "/agent/:agentId/users/:userId/memories",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { agentId, userId } = req.params as {
+          agentId: string;
+          userId: string;
+        };
+
+        const definition = await getDefinition(agentId, requestTenant(res));
+        if (!definition) {
+          return res.status(404).json({
+            success: false,
+            error: "Agent not found",
+          });
+        }
+
+        return res.json({
+          success: true,
+          agentId,
+          userId,
+          deleted: await memoryStore.deleteUser(definition.agentId, userId),
+        });
+      } catch (error: any) {
+        logger.error("Error deleting memories:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to delete memories",
+        });
+      }
+    }
+  );
+
+  // DELETE /users/:userId/memories - Forget a user across the tenant's agents,
+  // e.g. for privacy requests
+  app.delete(
+    "/users/:userId/memories",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { userId } = req.params as { userId: string };
+        const { definitions } = await agentStore.list({
+          tenantId: requestTenant(res),
+        });
+
+        let deleted = 0;
+        for (const definition of definitions) {
+          deleted += await memoryStore.deleteUser(definition.agentId, userId);
+        }
+
+        return res.json({
+          success: true,
+          userId,
+          agents: definitions.length,
+          deleted,
+        });
+      } catch (error: any) {
+        logger.error("Error deleting user memories:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to delete user memories",
+        });
+      }
+    }
+  );
+
+  // GET /agent/:agentId/threads - List the agent's threads (paged)
+  app.get(
+    "/agent/:agentId/threads",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId } = req.params;
+
+      const paging = parsePaging(req.query);
+      if (!paging) {
+        return res.status(400).json({
+          success: false,
+          error: "offset and limit must be non-negative integers",
+        });
+      }
+
+      const definition = await getDefinition(agentId, requestTenant(res));
+      if (!definition) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent not found",
+        });
+      }
+
+      const { total, threads } = await agentStore.listThreads(
+        definition.agentId,
+        paging
+      );
+
+      return res.json({
+        success: true,
+        agentId,
+        count: threads.length,
+        total,
+        offset: paging.offset,
+        threads: threads.map((thread) => ({
+          ...thread,
+          agentId,
+          threadId: publicId(thread.threadId, tenantOf(definition)),
+        })),
+      });
+    }
+  );
+
+  // GET /agent/:agentId/usage - Get the agent's token usage across threads
+  app.get(
+    "/agent/:agentId/usage",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId } = req.params;
+
+      const agent = await getAgent(agentId, requestTenant(res));
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent not found",
+        });
+      }
+
+      return res.json({
+        success: true,
+        agentId,
+        usage: agent.usage.getAgentUsage(),
+      });
+    }
+  );
+
+  // GET /agent/:agentId/threads/:threadId/usage - Get the thread's token usage
+  app.get(
+    "/agent/:agentId/threads/:threadId/usage",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      return res.json({
+        success: true,
+        agentId,
+        threadId,
+        usage: agent.usage.getThreadUsage(scopedThreadId),
+      });
+    }
+  );
+
+  // GET /agent/:agentId/threads/:threadId/pending - Get tool calls awaiting approval
+  app.get(
+    "/agent/:agentId/threads/:threadId/pending",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        const pendingApproval = await agent.getPendingApproval(scopedThreadId);
+
+        return res.json({
+          success: true,
+          agentId,
+          threadId,
+          pendingApproval: publicApproval(pendingApproval, threadId),
+        });
+      } catch (error: any) {
+        logger.error("Error reading pending approval:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to read pending approval",
+        });
+      }
+    }
+  );
+
+  // POST /agent/:agentId/threads/:threadId/approve - Approve pending tool calls and resume
+  app.post(
+    "/agent/:agentId/threads/:threadId/approve",
+    requirePermission("chat"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+      const { editedArgs } = (req.body || {}) as ApproveRequest;
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        const pendingApproval = await agent.getPendingApproval(scopedThreadId);
+        if (!pendingApproval) {
+          return res.status(409).json({
+            success: false,
+            error: "No tool calls are awaiting approval",
+          });
+        }
+
+        traceThread(res, agent, scopedThreadId);
+        const agentExecutor = await agent.approve(editedArgs, scopedThreadId);
+        const result = await collectAgentResponse(
+          agent,
+          agentExecutor,
+          null,
+          scopedThreadId,
+          threadId
+        );
+
+        return res.json({
+          success: true,
+          agentId,
+          threadId,
+          ...result,
+        });
+      } catch (error: any) {
+        logger.error("Error approving tool calls:", error);
+        if (error instanceof BudgetExceededError) {
+          return res.status(402).json({
+            success: false,
+            error: error.message,
+          });
+        }
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to approve tool calls",
+        });
+      }
+    }
+  );
+
+  // POST /agent/:agentId/threads/:threadId/reject - Reject pending tool calls and resume
+  app.post(
+    "/agent/:agentId/threads/:threadId/reject",
+    requirePermission("chat"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+      const { reason } = (req.body || {}) as RejectRequest;
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        const pendingApproval = await agent.getPendingApproval(scopedThreadId);
+        if (!pendingApproval) {
+          return res.status(409).json({
+            success: false,
+            error: "No tool calls are awaiting approval",
+          });
+        }
+
+        traceThread(res, agent, scopedThreadId);
+        const agentExecutor = await agent.reject(reason, scopedThreadId);
+        const result = await collectAgentResponse(
+          agent,
+          agentExecutor,
+          null,
+          scopedThreadId,
+          threadId
+        );
+
+        return res.json({
+          success: true,
+          agentId,
+          threadId,
+          ...result,
+        });
+      } catch (error: any) {
+        logger.error("Error rejecting tool calls:", error);
+        if (error instanceof BudgetExceededError) {
+          return res.status(402).json({
+            success: false,
+            error: error.message,
+          });
+        }
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to reject tool calls",
+        });
+      }
+    }
+  );
+
+  // GET /agent/:agentId/threads/:threadId/history - Get the thread's messages (paged)
+  app.get(
+    "/agent/:agentId/threads/:threadId/history",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+
+      const paging = parsePaging(req.query, 50);
+      if (!paging) {
+        return res.status(400).json({
+          success: false,
+          error: "offset and limit must be non-negative integers",
+        });
+      }
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        const { total, messages } = await agent.getHistory({
+          ...paging,
+          threadId: scopedThreadId,
+        });
+
+        return res.json({
+          success: true,
+          agentId,
+          threadId,
+          total,
+          offset: paging.offset,
+          messages,
+        });
+      } catch (error: any) {
+        logger.error("Error reading history:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to read history",
+        });
+      }
+    }
+  );
+
+  // GET /agent/:agentId/threads/:threadId/checkpoints - List the thread's checkpoints
+  app.get(
+    "/agent/:agentId/threads/:threadId/checkpoints",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+
+      const paging = parsePaging(req.query, 50);
+      if (!paging) {
+        return res.status(400).json({
+          success: false,
+          error: "limit must be a non-negative integer",
+        });
+      }
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        const checkpoints = await agent.listCheckpoints({
+          ...(paging.limit !== undefined ? { limit: paging.limit } : {}),
+          threadId: scopedThreadId,
+        });
+
+        return res.json({
+          success: true,
+          agentId,
+          threadId,
+          count: checkpoints.length,
+          checkpoints,
+        });
+      } catch (error: any) {
+        logger.error("Error listing checkpoints:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to list checkpoints",
+        });
+      }
+    }
+  );
+
+  // DELETE /agent/:agentId/threads/:threadId/history - Clear the thread's messages
+  app.delete(
+    "/agent/:agentId/threads/:threadId/history",
+    requirePermission("chat"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        const removed = await agent.clearHistory(scopedThreadId);
+
+        return res.json({
+          success: true,
+          message: "History cleared successfully",
+          agentId,
+          threadId,
+          removed,
+        });
+      } catch (error: any) {
+        logger.error("Error clearing history:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to clear history",
+        });
+      }
+    }
+  );
+
+  // POST /agent/:agentId/threads/:threadId/fork - Fork the thread into a new thread
+  app.post(
+    "/agent/:agentId/threads/:threadId/fork",
+    requirePermission("chat"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+      const { newThreadId, checkpointId } = (req.body || {}) as ForkRequest;
+
+      if (!newThreadId) {
+        return res.status(400).json({
+          success: false,
+          error: "newThreadId is required",
+        });
+      }
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      if (newThreadId.includes("/")) {
+        return res.status(400).json({
+          success: false,
+          error: "newThreadId must not contain /",
+        });
+      }
+      const scopedNewThreadId = scopedId(newThreadId, tenantId);
+      if (await agentStore.getThread(scopedNewThreadId)) {
+        return res.status(409).json({
+          success: false,
+          error: "Thread with newThreadId already exists",
+        });
+      }
+
+      try {
+        const copied = await agent.forkThread(scopedNewThreadId, {
+          threadId: scopedThreadId,
+          ...(checkpointId ? { checkpointId } : {}),
+        });
+
+        await touchThread(agent, scopedNewThreadId);
+
+        return res.status(201).json({
+          success: true,
+          message: "Thread forked successfully",
+          agentId,
+          threadId,
+          newThreadId,
+          messageCount: copied,
+        });
+      } catch (error: any) {
+        logger.error("Error forking thread:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to fork thread",
+        });
+      }
+    }
+  );
+
+  // DELETE /agent/:agentId/threads/:threadId - Delete a thread
+  app.delete(
+    "/agent/:agentId/threads/:threadId",
+    requirePermission("chat"),
+    async (req: Request, res: Response) => {
+      const { agentId, threadId } = req.params;
+
+      const tenantId = requestTenant(res);
+      const agent = await getThreadAgent(agentId, threadId, tenantId);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent or thread not found",
+        });
+      }
+      const scopedThreadId = scopedId(threadId, tenantId);
+
+      try {
+        await agent.clearHistory(scopedThreadId);
+        await agent.memory.unbindThread(scopedThreadId);
+        await agentStore.deleteThread(scopedThreadId);
+
+        return res.json({
+          success: true,
+          message: "Thread deleted successfully",
+          agentId,
+          threadId,
+        });
+      } catch (error: any) {
+        logger.error("Error deleting thread:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to delete thread",
+        });
+      }
+    }
+  );
+
+  // GET /agents - Getting all agents (paged with ?offset=&limit=)
+  app.get(
+    "/agents",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      const paging = parsePaging(req.query);
+      if (!paging) {
+        return res.status(400).json({
+          success: false,
+          error: "offset and limit must be non-negative integers",
+        });
+      }
+
+      const { total, definitions } = await agentStore.list({
+        ...paging,
+        tenantId: requestTenant(res),
+      });
+
+      const agentList = definitions.map((definition) => ({
+        agentId: publicId(definition.agentId, tenantOf(definition)),
+        agentName: definition.params.name,
+        tools: definition.tools,
+        router: definition.router,
+        createdAt: definition.createdAt,
+        loaded: agents.has(definition.agentId),
+      }));
+
+      return res.json({
+        success: true,
+        count: agentList.length,
+        total,
+        offset: paging.offset,
+        agents: agentList,
+      });
+    }
+  );
+
+  // DELETE /agent/:agentId - Delete an agent and its thread records
+  app.delete(
+    "/agent/:agentId",
+    requirePermission("manage"),
+    async (req: Request, res: Response) => {
+      const { agentId } = req.params;
+
+      const definition = await getDefinition(agentId, requestTenant(res));
+      if (!definition) {
+        return res.status(404).json({
+          success: false,
+          error: "Agent not found",
+        });
+      }
+
+      const liveAgent = agents.get(definition.agentId);
+      await agentStore.delete(definition.agentId);
+      agents.delete(definition.agentId);
+
+      // Close the MongoDB connection and MCP servers of the live agent
+      if (liveAgent) {
+        try {
+          await (await liveAgent).close();
+        } catch (error) {
+          logger.error("Error closing agent:", error);
+        }
+      }
+
+      return res.json({
+        success: true,
+        message: "Agent deleted successfully",
+        agentId,
+      });
+    }
+  );
+
+  // GET /tools - List registered tool bundles
+  app.get(
+    "/tools",
+    requirePermission("read"),
+    async (req: Request, res: Response) => {
+      try {
+        const bundles = await Promise.all(
+          listToolBundles().map((bundle) => describeToolBundle(bundle))
+        );
+
+        return res.json({
+          success: true,
+          count: bundles.length,
+          bundles,
+        });
+      } catch (error: any) {
+        logger.error("Error listing tool bundles:", error);
+        return res.status(500).json({
+          success: false,
+          error: error.message || "Failed to list tool bundles",
+        });
+      }
+    }
+  );
+
+  // GET /health - Health check
+  app.get("/health", (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      status: "healthy",
+      activeAgents: agents.size,
+      uptime: process.uptime(),
+    });
+  });
+
+  // GET /metrics - Prometheus metrics
+  app.get(
+    "/metrics",
+    requirePermission("manage"),
+    (req: Request, res: Response) => {
+      res.type("text/plain; version=0.0.4").send(metricsRegistry.render());
+    }
+  );
+
+  // Error handler for failures outside the routes' own error handling
+  app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    logger.error("Unhandled server error:", error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Internal server error",
+    });
+  });
+
+  return app;
+}
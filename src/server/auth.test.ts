@@ -0,0 +1,292 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer } from "../testing";
+import {
+  apiKeyAuthenticator,
+  authenticate,
+  corsOriginsFromEnv,
+  jwtAuthenticator,
+  registerAuthenticator,
+  signJwt,
+  unregisterAuthenticator,
+} from "./auth";
+
+const SECRET = "test-secret";
+const apiKeys = apiKeyAuthenticator([
+  { key: "acme-admin", tenantId: "acme", role: "admin" },
+  { key: "acme-viewer", tenantId: "acme", role: "viewer" },
+  { key: "globex-admin", tenantId: "globex", role: "admin" },
+]);
+const jwt = jwtAuthenticator({ secret: SECRET, issuer: "axicov" });
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+before(async () => {
+  registerAuthenticator(apiKeys);
+  registerAuthenticator(jwt);
+  server = await startTestServer();
+});
+
+after(async () => {
+  unregisterAuthenticator(apiKeys);
+  unregisterAuthenticator(jwt);
+  await server.close();
+});
+
+// Helper function to build the headers of an API key
+const key = (apiKey: string) => ({ "x-api-key": apiKey });
+
+test("rejects requests without valid credentials", async () => {
+  assert.equal((await server.request("GET", "/agents")).status, 401);
+  assert.equal(
+    (await server.request("GET", "/agents", undefined, key("nope"))).status,
+    401
+  );
+  assert.equal((await server.request("GET", "/health")).status, 200);
+});
+
+// Helper function to run the middleware against a request from an address
+const runAuthenticate = async (
+  middleware: ReturnType<typeof authenticate>,
+  remoteAddress: string
+) => {
+  const res: any = {
+    locals: {},
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      res.body = body;
+      return res;
+    },
+  };
+  let passed = false;
+  await middleware(
+    { socket: { remoteAddress }, headers: {} } as any,
+    res,
+    () => {
+      passed = true;
+    }
+  );
+  return { passed, status: res.statusCode, principal: res.locals.principal };
+};
+
+test("refuses requests until an authenticator is configured", async () => {
+  unregisterAuthenticator(apiKeys);
+  unregisterAuthenticator(jwt);
+  try {
+    const denied = await runAuthenticate(authenticate([]), "127.0.0.1");
+    assert.deepEqual(denied, {
+      passed: false,
+      status: 401,
+      principal: undefined,
+    });
+
+    const local = await runAuthenticate(authenticate([], true), "::1");
+    assert.equal(local.passed, true);
+    assert.equal(local.principal.role, "admin");
+
+    const remote = await runAuthenticate(authenticate([], true), "10.0.0.7");
+    assert.equal(remote.status, 401);
+  } finally {
+    registerAuthenticator(apiKeys);
+    registerAuthenticator(jwt);
+  }
+});
+
+test("allows cross-origin requests only from configured origins", () => {
+  const origins = process.env.CORS_ORIGINS;
+  try {
+    delete process.env.CORS_ORIGINS;
+    assert.equal(corsOriginsFromEnv(), false);
+    process.env.CORS_ORIGINS = "https://a.example, https://b.example";
+    assert.deepEqual(corsOriginsFromEnv(), [
+      "https://a.example",
+      "https://b.example",
+    ]);
+    process.env.CORS_ORIGINS = "*";
+    assert.equal(corsOriginsFromEnv(), "*");
+  } finally {
+    if (origins === undefined) {
+      delete process.env.CORS_ORIGINS;
+    } else {
+      process.env.CORS_ORIGINS = origins;
+    }
+  }
+});
+
+test("scopes agents to the caller's tenant", async () => {
+  const created = await server.request(
+    "POST",
+    "/agent/create",
+    {
+      agentId: "acme-agent",
+      modelConfig: { provider: "fake", modelName: "fake" },
+      params: { name: "Acme", instruction: "Help" },
+    },
+    key("acme-admin")
+  );
+  assert.equal(created.status, 201);
+
+  const acme = await server.request(
+    "GET",
+    "/agents",
+    undefined,
+    key("acme-viewer")
+  );
+  assert.deepEqual(
+    acme.body.agents.map((agent: any) => agent.agentId),
+    ["acme-agent"]
+  );
+
+  const globex = await server.request(
+    "GET",
+    "/agents",
+    undefined,
+    key("globex-admin")
+  );
+  assert.equal(globex.body.total, 0);
+
+  for (const [method, path] of [
+    ["GET", "/agent/acme-agent"],
+    ["DELETE", "/agent/acme-agent"],
+  ] as const) {
+    const response = await server.request(
+      method,
+      path,
+      undefined,
+      key("globex-admin")
+    );
+    assert.equal(response.status, 404);
+  }
+
+  // Agent ids only need to be unique within a tenant
+  const globexAgent = await server.request(
+    "POST",
+    "/agent/create",
+    {
+      agentId: "acme-agent",
+      modelConfig: { provider: "fake", modelName: "fake" },
+      params: { name: "Globex", instruction: "Help" },
+    },
+    key("globex-admin")
+  );
+  assert.equal(globexAgent.status, 201);
+  assert.equal(globexAgent.body.agentId, "acme-agent");
+
+  for (const [apiKey, name] of [
+    ["acme-viewer", "Acme"],
+    ["globex-admin", "Globex"],
+  ] as const) {
+    const info = await server.request(
+      "GET",
+      "/agent/acme-agent",
+      undefined,
+      key(apiKey)
+    );
+    assert.equal(info.status, 200);
+    assert.equal(info.body.agentId, "acme-agent");
+    assert.equal(info.body.agentName, name);
+  }
+
+  const slashed = await server.request(
+    "POST",
+    "/agent/create",
+    {
+      agentId: "acme/agent",
+      modelConfig: { provider: "fake", modelName: "fake" },
+      params: { name: "Globex", instruction: "Help" },
+    },
+    key("globex-admin")
+  );
+  assert.equal(slashed.status, 400);
+
+  // So do thread ids, and each tenant only sees its own thread's messages
+  for (const apiKey of ["acme-admin", "globex-admin"]) {
+    const sent = await server.request(
+      "POST",
+      "/send",
+      { agentId: "acme-agent", threadId: "shared", message: "Hi" },
+      key(apiKey)
+    );
+    assert.equal(sent.status, 200);
+    assert.equal(sent.body.threadId, "shared");
+
+    const threads = await server.request(
+      "GET",
+      "/agent/acme-agent/threads",
+      undefined,
+      key(apiKey)
+    );
+    assert.deepEqual(
+      threads.body.threads.map((thread: any) => thread.threadId),
+      ["shared"]
+    );
+
+    const history = await server.request(
+      "GET",
+      "/agent/acme-agent/threads/shared/history",
+      undefined,
+      key(apiKey)
+    );
+    assert.equal(history.body.total, 2);
+  }
+
+  const slashedThread = await server.request(
+    "POST",
+    "/send",
+    { agentId: "acme-agent", threadId: "acme/shared", message: "Hi" },
+    key("globex-admin")
+  );
+  assert.equal(slashedThread.status, 400);
+});
+
+test("enforces role permissions", async () => {
+  const send = await server.request(
+    "POST",
+    "/send",
+    { agentId: "acme-agent", threadId: "t1", message: "Hi" },
+    key("acme-viewer")
+  );
+  assert.equal(send.status, 403);
+
+  const deleted = await server.request(
+    "DELETE",
+    "/agent/acme-agent",
+    undefined,
+    key("acme-viewer")
+  );
+  assert.equal(deleted.status, 403);
+});
+
+test("accepts signed JWTs and rejects tampered or expired ones", async () => {
+  const token = signJwt(
+    { sub: "u1", tenantId: "acme", role: "viewer", iss: "axicov" },
+    SECRET
+  );
+  const bearer = (value: string) => ({ authorization: `Bearer ${value}` });
+
+  const info = await server.request(
+    "GET",
+    "/agent/acme-agent",
+    undefined,
+    bearer(token)
+  );
+  assert.equal(info.status, 200);
+
+  const expired = signJwt(
+    { sub: "u1", tenantId: "acme", iss: "axicov", exp: 1 },
+    SECRET
+  );
+  const forged = signJwt({ sub: "u1", tenantId: "acme" }, "other-secret");
+  for (const value of [expired, forged, `${token.slice(0, -2)}xx`]) {
+    const response = await server.request(
+      "GET",
+      "/agents",
+      undefined,
+      bearer(value)
+    );
+    assert.equal(response.status, 401);
+  }
+});
@@ -0,0 +1,301 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { logger } from "../logger";
+import { DEFAULT_TENANT_ID } from "../store";
+import { ApiKey, Authenticator, Permission, Principal, Role } from "../types";
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  // Read agents, threads, history and usage
+  viewer: ["read"],
+  // Also chat, approve tool calls and manage threads
+  member: ["read", "chat"],
+  // Also create and delete agents and change their tools
+  admin: ["read", "chat", "manage"],
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+// Principal of local requests when anonymous access is allowed and no
+// authenticator is configured
+const ANONYMOUS_PRINCIPAL: Principal = {
+  id: "anonymous",
+  tenantId: DEFAULT_TENANT_ID,
+  role: "admin",
+};
+
+const LOOPBACK_ADDRESSES = ["127.0.0.1", "::1", "::ffff:127.0.0.1"];
+
+// Helper function to hash a secret so comparisons run in constant time
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Helper function to decode a base64url JWT segment
+const decodeSegment = (segment: string) =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+// Helper function to read the bearer token or x-api-key header
+const readCredential = (req: Request) => {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+
+  const apiKey = req.headers["x-api-key"];
+  return typeof apiKey === "string" ? apiKey : undefined;
+};
+
+/**
+ * Authenticates static API keys, sent as `x-api-key` or a bearer token
+ *
+ * @param keys accepted keys with the tenant and role they grant
+ */
+export const apiKeyAuthenticator = (keys: ApiKey[]): Authenticator => {
+  const hashed = keys.map((key) => ({ ...key, hash: digest(key.key) }));
+
+  return async (req) => {
+    const credential = readCredential(req);
+    if (!credential) {
+      return null;
+    }
+
+    const hash = digest(credential);
+    const match = hashed.find((key) => timingSafeEqual(key.hash, hash));
+    if (!match) {
+      return null;
+    }
+
+    return {
+      id: match.id || `key:${match.key.slice(0, 4)}`,
+      tenantId: match.tenantId || DEFAULT_TENANT_ID,
+      role: match.role || "member",
+    };
+  };
+};
+
+/**
+ * Authenticates HS256 JWTs signed with a local secret, sent as a bearer
+ * token. The subject becomes the principal id, and the tenant and role are
+ * read from the `tenantId` and `role` claims
+ *
+ * @param secret HMAC secret the tokens are signed with
+ * @param issuer expected `iss` claim, if any
+ * @param audience expected `aud` claim, if any
+ */
+export const jwtAuthenticator = ({
+  secret,
+  issuer,
+  audience,
+}: {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+}): Authenticator => {
+  return async (req) => {
+    const token = readCredential(req);
+    const parts = token?.split(".");
+    if (!parts || parts.length !== 3) {
+      return null;
+    }
+
+    const [header, payload, signature] = parts as [string, string, string];
+
+    let claims: any;
+    try {
+      if (decodeSegment(header).alg !== "HS256") {
+        return null;
+      }
+      claims = decodeSegment(payload);
+    } catch {
+      return null;
+    }
+
+    const expected = createHmac("sha256", secret)
+      .update(`${header}.${payload}`)
+      .digest();
+    const actual = Buffer.from(signature, "base64url");
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      (claims.exp !== undefined && now >= claims.exp) ||
+      (claims.nbf !== undefined && now < claims.nbf) ||
+      (issuer && claims.iss !== issuer) ||
+      (audience &&
+        !(Array.isArray(claims.aud) ? claims.aud : [claims.aud]).includes(
+          audience
+        ))
+    ) {
+      return null;
+    }
+
+    return {
+      id: claims.sub || "jwt",
+      tenantId: claims.tenantId || DEFAULT_TENANT_ID,
+      role: ROLES.includes(claims.role) ? claims.role : "member",
+    };
+  };
+};
+
+/**
+ * Signs an HS256 JWT, e.g. for tests or a token endpoint of the host app
+ *
+ * @param claims token claims such as sub, tenantId, role and exp
+ * @param secret HMAC secret
+ */
+export const signJwt = (claims: Record<string, any>, secret: string) => {
+  const encode = (value: any) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+
+  return `${unsigned}.${createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url")}`;
+};
+
+/**
+ * Builds the authenticators configured in the environment:
+ * `API_KEYS` (JSON array of `{ key, tenantId?, role?, id? }`) and
+ * `JWT_SECRET` with the optional `JWT_ISSUER` and `JWT_AUDIENCE`
+ */
+export const createAuthenticatorsFromEnv = (): Authenticator[] => {
+  const authenticators: Authenticator[] = [];
+
+  if (process.env.API_KEYS) {
+    const keys = JSON.parse(process.env.API_KEYS) as ApiKey[];
+    if (!Array.isArray(keys) || keys.some((key) => !key.key)) {
+      throw new Error("API_KEYS must be a JSON array of { key } objects");
+    }
+    authenticators.push(apiKeyAuthenticator(keys));
+  }
+
+  if (process.env.JWT_SECRET) {
+    authenticators.push(
+      jwtAuthenticator({
+        secret: process.env.JWT_SECRET,
+        ...(process.env.JWT_ISSUER ? { issuer: process.env.JWT_ISSUER } : {}),
+        ...(process.env.JWT_AUDIENCE
+          ? { audience: process.env.JWT_AUDIENCE }
+          : {}),
+      })
+    );
+  }
+
+  return authenticators;
+};
+
+// Authenticators registered in code, tried after the environment's
+const customAuthenticators: Authenticator[] = [];
+
+/**
+ * Adds an authenticator to the server, e.g. for sessions or an external
+ * identity provider
+ */
+export const registerAuthenticator = (authenticator: Authenticator) => {
+  customAuthenticators.push(authenticator);
+};
+
+export const unregisterAuthenticator = (authenticator: Authenticator) => {
+  const index = customAuthenticators.indexOf(authenticator);
+  if (index !== -1) {
+    customAuthenticators.splice(index, 1);
+  }
+  return index !== -1;
+};
+
+/**
+ * Express middleware resolving the request's principal into
+ * `res.locals.principal`. Requests are refused while no authenticator is
+ * configured, unless anonymous access is allowed for local development:
+ * requests from localhost then run as admins of the default tenant
+ *
+ * @param baseAuthenticators tried in order before the registered ones, the
+ * first principal wins
+ * @param allowAnonymous let local requests in without an authenticator
+ */
+export const authenticate = (
+  baseAuthenticators: Authenticator[],
+  allowAnonymous = false
+) => {
+  if (allowAnonymous) {
+    logger.warn(
+      "WARNING: anonymous access is enabled (AUTH_DISABLED=true). Requests from localhost run as admins of the default tenant while no authenticator is configured. Never enable it in production or behind a proxy"
+    );
+  }
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const authenticators = [...baseAuthenticators, ...customAuthenticators];
+
+    if (authenticators.length === 0) {
+      if (
+        allowAnonymous &&
+        LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || "")
+      ) {
+        res.locals.principal = ANONYMOUS_PRINCIPAL;
+        return next();
+      }
+
+      return res.status(401).json({
+        success: false,
+        error:
+          "No authenticator is configured. Set API_KEYS or JWT_SECRET, or AUTH_DISABLED=true for local development",
+      });
+    }
+
+    try {
+      for (const authenticator of authenticators) {
+        const principal = await authenticator(req);
+        if (principal) {
+          res.locals.principal = principal;
+          return next();
+        }
+      }
+    } catch (error) {
+      logger.error("Authentication error:", error);
+    }
+
+    return res.status(401).json({
+      success: false,
+      error: "Authentication required",
+    });
+  };
+};
+
+/**
+ * Express middleware rejecting principals whose role lacks the permission
+ *
+ * @param permission permission required by the route
+ */
+export const requirePermission =
+  (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const principal = res.locals.principal as Principal | undefined;
+
+    if (!principal || !ROLE_PERMISSIONS[principal.role]?.includes(permission)) {
+      return res.status(403).json({
+        success: false,
+        error: `The ${permission} permission is required`,
+      });
+    }
+
+    return next();
+  };
+
+/**
+ * Parses the comma separated `CORS_ORIGINS`. Cross-origin requests are
+ * refused when unset, `*` allows every origin
+ */
+export const corsOriginsFromEnv = () => {
+  const origins = (process.env.CORS_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  if (origins.length === 0) {
+    return false;
+  }
+  return origins.includes("*") ? "*" : origins;
+};
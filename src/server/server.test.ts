@@ -0,0 +1,445 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fakeTool, startTestServer } from "../testing";
+import { FileUserMemoryStore } from "../memory";
+import { registerToolBundle, unregisterToolBundle } from "../registry";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+const memoryDir = mkdtempSync(join(tmpdir(), "axicov-memories-"));
+
+// Helper function to build a stored memory of the server agent
+const memory = (id: string, userId: string, content: string) => ({
+  id,
+  agentId: "server-agent",
+  userId,
+  content,
+  createdAt: `2026-01-01T00:00:0${id}.000Z`,
+  updatedAt: `2026-01-01T00:00:0${id}.000Z`,
+});
+
+before(async () => {
+  // Read by the store when it's created
+  const memoryPath = join(memoryDir, "memories.json");
+  writeFileSync(
+    memoryPath,
+    JSON.stringify({
+      memories: {
+        "1": memory("1", "ada", "Prefers the Phantom wallet"),
+        "2": memory("2", "ada", "Has a low risk tolerance"),
+        "3": memory("3", "bob", "Speaks French"),
+      },
+      threads: { "server-agent": { "ada-thread": "ada" } },
+    })
+  );
+
+  server = await startTestServer({
+    memoryStore: new FileUserMemoryStore(memoryPath),
+    allowAnonymous: true,
+  });
+});
+
+after(async () => {
+  await server.close();
+  rmSync(memoryDir, { recursive: true, force: true });
+});
+
+test("creates an agent and chats on a thread", async () => {
+  const created = await server.request("POST", "/agent/create", {
+    agentId: "server-agent",
+    modelConfig: {
+      provider: "fake",
+      modelName: "fake",
+      responses: ["[]", "Hello from the fake model"],
+    },
+    params: { name: "Server Agent", instruction: "Be brief" },
+    router: "llm",
+  });
+  assert.equal(created.status, 201);
+
+  const sent = await server.request("POST", "/send", {
+    agentId: "server-agent",
+    threadId: "thread-1",
+    message: "Hi",
+  });
+  assert.equal(sent.status, 200);
+  assert.equal(sent.body.response, "Hello from the fake model");
+  assert.equal(sent.body.usage.calls, 2);
+
+  const usage = await server.request(
+    "GET",
+    "/agent/server-agent/threads/thread-1/usage"
+  );
+  assert.equal(usage.body.usage.byKind.orchestrator.calls, 1);
+
+  const threads = await server.request("GET", "/agent/server-agent/threads");
+  assert.deepEqual(
+    threads.body.threads.map((thread: any) => thread.threadId),
+    ["thread-1"]
+  );
+
+  const history = await server.request(
+    "GET",
+    "/agent/server-agent/threads/thread-1/history"
+  );
+  assert.equal(history.body.total, 2);
+});
+
+test("starts test servers with their own agents", async () => {
+  const other = await startTestServer({ allowAnonymous: true });
+  try {
+    const info = await other.request("GET", "/agent/server-agent");
+    assert.equal(info.status, 404);
+    assert.deepEqual((await other.request("GET", "/agents")).body.agents, []);
+  } finally {
+    await other.close();
+  }
+});
+
+test("validates create and send requests", async () => {
+  const missingModel = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    params: { name: "A", instruction: "B" },
+  });
+  assert.equal(missingModel.status, 400);
+
+  const plaintextKey = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: { provider: "openai", modelName: "gpt-4o", apiKey: "sk-1" },
+    params: { name: "A", instruction: "B" },
+  });
+  assert.equal(plaintextKey.status, 400);
+  assert.match(plaintextKey.body.error, /modelConfig.apiKey/);
+
+  const missingSecret = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: {
+      provider: "openai",
+      modelName: "gpt-4o",
+      apiKeySecret: "AXICOV_SECRET_TEST_MISSING_KEY",
+    },
+    params: { name: "A", instruction: "B" },
+  });
+  assert.equal(missingSecret.status, 400);
+  assert.equal(
+    missingSecret.body.error,
+    "Secret AXICOV_SECRET_TEST_MISSING_KEY not found"
+  );
+
+  const foreignBaseURL = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: {
+      provider: "openai-compatible",
+      modelName: "llama3",
+      baseURL: "https://attacker.example/v1",
+    },
+    params: { name: "A", instruction: "B" },
+  });
+  assert.equal(foreignBaseURL.status, 400);
+  assert.match(foreignBaseURL.body.error, /isn't allowed/);
+
+  // Server settings aren't readable as model keys
+  const serverSecret = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: {
+      provider: "openai",
+      modelName: "gpt-4o",
+      apiKeySecret: "JWT_SECRET",
+    },
+    params: { name: "A", instruction: "B" },
+  });
+  assert.equal(serverSecret.status, 400);
+  assert.match(serverSecret.body.error, /Secret JWT_SECRET isn't readable/);
+
+  const invalidHistory = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: { provider: "fake", modelName: "fake" },
+    params: { name: "A", instruction: "B" },
+    history: { strategy: "lastMessages", maxMessages: 0 },
+  });
+  assert.equal(invalidHistory.status, 400);
+  assert.match(invalidHistory.body.error, /^history must be/);
+
+  const invalidGuardrails = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: { provider: "fake", modelName: "fake" },
+    params: { name: "A", instruction: "B" },
+    guardrails: { toolArguments: [{ tool: "transfer" }] },
+  });
+  assert.equal(invalidGuardrails.status, 400);
+  assert.match(invalidGuardrails.body.error, /^guardrails must be/);
+
+  const patternGuardrails = await server.request("POST", "/agent/create", {
+    agentId: "invalid-agent",
+    modelConfig: { provider: "fake", modelName: "fake" },
+    params: { name: "A", instruction: "B" },
+    guardrails: {
+      toolArguments: [{ tool: "transfer", argument: "to", pattern: "^(a+)+$" }],
+    },
+  });
+  assert.equal(patternGuardrails.status, 400);
+  assert.match(patternGuardrails.body.error, /can't be set over HTTP/);
+
+  const unknownAgent = await server.request("POST", "/send", {
+    agentId: "missing",
+    threadId: "t",
+    message: "Hi",
+  });
+  assert.equal(unknownAgent.status, 404);
+
+  const otherUser = await server.request("POST", "/send", {
+    agentId: "server-agent",
+    threadId: "ada-thread",
+    message: "Hi",
+    userId: "bob",
+  });
+  assert.equal(otherUser.status, 409);
+  assert.equal(
+    otherUser.body.error,
+    "Thread ada-thread belongs to another user"
+  );
+
+  const unknownThread = await server.request(
+    "GET",
+    "/agent/server-agent/threads/missing/history"
+  );
+  assert.equal(unknownThread.status, 404);
+});
+
+test("loads, disables and unloads tool bundles", async () => {
+  registerToolBundle({
+    name: "prices",
+    description: "Price lookups",
+    registry: fakeTool({ name: "getPrices" }),
+  });
+  let built = false;
+  registerToolBundle({
+    name: "remote",
+    description: "Tools only known once connected",
+    registry: async () => {
+      built = true;
+      return { tools: [], schema: {} };
+    },
+  });
+
+  try {
+    // The catalog doesn't build bundles
+    const catalog = await server.request("GET", "/tools");
+    const bundles = catalog.body.bundles.filter((bundle: any) =>
+      ["prices", "remote"].includes(bundle.name)
+    );
+    assert.deepEqual(
+      bundles.map((bundle: any) => [
+        bundle.name,
+        bundle.tools?.map((tool: any) => tool.name),
+      ]),
+      [
+        ["prices", ["getPrices"]],
+        ["remote", undefined],
+      ]
+    );
+    assert.equal(built, false);
+
+    const added = await server.request("POST", "/agent/server-agent/tools", {
+      tools: ["prices"],
+    });
+    assert.equal(added.status, 200);
+    assert.deepEqual(added.body.added, ["getPrices"]);
+
+    const duplicate = await server.request(
+      "POST",
+      "/agent/server-agent/tools",
+      { tools: ["prices"] }
+    );
+    assert.equal(duplicate.status, 409);
+
+    const disabled = await server.request(
+      "PATCH",
+      "/agent/server-agent/tools/getPrices",
+      { enabled: false }
+    );
+    assert.deepEqual(disabled.body.tools, []);
+
+    const info = await server.request("GET", "/agent/server-agent");
+    assert.deepEqual(info.body.disabledTools, ["getPrices"]);
+
+    const removed = await server.request(
+      "DELETE",
+      "/agent/server-agent/tools",
+      { tools: ["prices"] }
+    );
+    assert.deepEqual(removed.body.removed, ["getPrices"]);
+
+    const history = await server.request(
+      "GET",
+      "/agent/server-agent/threads/thread-1/history"
+    );
+    assert.equal(history.body.total, 2);
+  } finally {
+    unregisterToolBundle("prices");
+    unregisterToolBundle("remote");
+  }
+});
+
+test("adds, lists and deletes knowledge documents", async () => {
+  const invalid = await server.request(
+    "POST",
+    "/agent/server-agent/knowledge",
+    { documents: [{ content: "{", format: "json" }] }
+  );
+  assert.equal(invalid.status, 400);
+
+  const added = await server.request("POST", "/agent/server-agent/knowledge", {
+    documents: [
+      { id: "shipping", title: "Shipping", content: "Orders ship in 2 days" },
+      { content: { returns: { window: "30 days" } } },
+    ],
+  });
+  assert.equal(added.status, 201);
+  assert.deepEqual(
+    added.body.documents.map((document: any) => [
+      document.title,
+      document.format,
+      document.chunks,
+    ]),
+    [
+      ["Shipping", "text", 1],
+      [undefined, "json", 1],
+    ]
+  );
+
+  const listed = await server.request(
+    "GET",
+    "/agent/server-agent/knowledge?limit=1"
+  );
+  assert.equal(listed.body.total, 2);
+  assert.deepEqual(
+    listed.body.documents.map((document: any) => document.id),
+    ["shipping"]
+  );
+
+  const deleted = await server.request(
+    "DELETE",
+    "/agent/server-agent/knowledge/shipping"
+  );
+  assert.equal(deleted.status, 200);
+
+  const missing = await server.request(
+    "DELETE",
+    "/agent/server-agent/knowledge/shipping"
+  );
+  assert.equal(missing.status, 404);
+});
+
+test("lists and forgets the memories of a user", async () => {
+  const listed = await server.request(
+    "GET",
+    "/agent/server-agent/users/ada/memories?limit=1"
+  );
+  assert.equal(listed.body.total, 2);
+  assert.deepEqual(
+    listed.body.memories.map((item: any) => item.content),
+    ["Prefers the Phantom wallet"]
+  );
+
+  const forgotten = await server.request(
+    "DELETE",
+    "/agent/server-agent/users/ada/memories/1"
+  );
+  assert.equal(forgotten.status, 200);
+
+  // Memories are scoped to their user
+  const otherUser = await server.request(
+    "DELETE",
+    "/agent/server-agent/users/ada/memories/3"
+  );
+  assert.equal(otherUser.status, 404);
+
+  const cleared = await server.request(
+    "DELETE",
+    "/agent/server-agent/users/ada/memories"
+  );
+  assert.equal(cleared.body.deleted, 1);
+
+  const everywhere = await server.request("DELETE", "/users/bob/memories");
+  assert.equal(everywhere.body.deleted, 1);
+
+  const missingAgent = await server.request(
+    "GET",
+    "/agent/missing/users/ada/memories"
+  );
+  assert.equal(missingAgent.status, 404);
+});
+
+test("reports guardrail violations in send responses", async () => {
+  const created = await server.request("POST", "/agent/create", {
+    agentId: "guarded-agent",
+    modelConfig: {
+      provider: "fake",
+      modelName: "fake",
+      responses: ["[]", "Mail ada@example.com"],
+    },
+    params: { name: "Guarded Agent", instruction: "Be brief" },
+    router: "llm",
+    guardrails: { blockedTopics: ["gambling"], redactPii: ["email"] },
+  });
+  assert.equal(created.status, 201);
+
+  const blocked = await server.request("POST", "/send", {
+    agentId: "guarded-agent",
+    threadId: "guarded-1",
+    message: "Any gambling tips?",
+  });
+  assert.equal(blocked.status, 200);
+  assert.equal(blocked.body.blocked, true);
+  assert.equal(blocked.body.response, "Sorry, I can't help with that.");
+  assert.equal(blocked.body.guardrails[0].guardrail, "blockedTopics");
+
+  const redacted = await server.request("POST", "/send", {
+    agentId: "guarded-agent",
+    threadId: "guarded-1",
+    message: "Who do I write to?",
+  });
+  assert.equal(redacted.body.response, "Mail [EMAIL]");
+  assert.deepEqual(redacted.body.guardrails, [
+    {
+      guardrail: "piiRedaction",
+      stage: "output",
+      action: "redact",
+      reason: "Redacted email",
+    },
+  ]);
+
+  await server.request("DELETE", "/agent/guarded-agent");
+});
+
+test("deletes an agent", async () => {
+  const deleted = await server.request("DELETE", "/agent/server-agent");
+  assert.equal(deleted.status, 200);
+
+  const info = await server.request("GET", "/agent/server-agent");
+  assert.equal(info.status, 404);
+});
+
+test("exposes Prometheus metrics", async () => {
+  const response = await fetch(`${server.url}/metrics`);
+  const text = await response.text();
+
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get("content-type") || "", /^text\/plain/);
+  assert.match(
+    text,
+    /^axicov_http_request_duration_seconds_count\{method="POST",route="\/send",status="200"\} [1-9]/m
+  );
+  assert.match(
+    text,
+    /^axicov_http_request_duration_seconds_count\{method="GET",route="\/agent\/:agentId\/threads",status="200"\} [1-9]/m
+  );
+  assert.match(
+    text,
+    /^axicov_model_call_duration_seconds_count\{provider="[^"]+",model="[^"]+",kind="orchestrator"\} [1-9]/m
+  );
+  assert.match(text, /^axicov_active_threads 0$/m);
+});
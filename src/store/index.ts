@@ -0,0 +1,333 @@
+import { mkdirSync, promises as fs } from "fs";
+import path from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import {
+  AgentDefinition,
+  AgentListOptions,
+  AgentStore,
+  Paging,
+  ThreadRecord,
+} from "../types";
+
+export const DEFAULT_TENANT_ID = "default";
+
+const byCreatedAt = (
+  a: { createdAt: string },
+  b: { createdAt: string }
+) => a.createdAt.localeCompare(b.createdAt);
+
+// Helper function to get the tenant owning a definition
+export const tenantOf = (definition: AgentDefinition) =>
+  definition.tenantId || DEFAULT_TENANT_ID;
+
+// Helper function to keep the definitions of a tenant, or all without one
+const byTenant =
+  (tenantId?: string) =>
+  (definition: AgentDefinition) =>
+    tenantId === undefined || tenantOf(definition) === tenantId;
+
+const paginate = <T>(items: T[], { offset = 0, limit }: Paging = {}) => ({
+  total: items.length,
+  items: items.slice(offset, limit === undefined ? undefined : offset + limit),
+});
+
+/**
+ * Keeps agent definitions in the process memory. Definitions are lost on
+ * restart, use a persistent store (file, SQLite or a custom Redis store
+ * implementing `AgentStore`) in production.
+ */
+export class MemoryAgentStore implements AgentStore {
+  private definitions = new Map<string, AgentDefinition>();
+  private threads = new Map<string, ThreadRecord>();
+
+  async save(definition: AgentDefinition) {
+    this.definitions.set(definition.agentId, definition);
+  }
+
+  async get(agentId: string) {
+    return this.definitions.get(agentId) || null;
+  }
+
+  async delete(agentId: string) {
+    this.threads.forEach((thread, threadId) => {
+      if (thread.agentId === agentId) {
+        this.threads.delete(threadId);
+      }
+    });
+    return this.definitions.delete(agentId);
+  }
+
+  async list({ tenantId, ...options }: AgentListOptions = {}) {
+    const { total, items } = paginate(
+      Array.from(this.definitions.values())
+        .filter(byTenant(tenantId))
+        .sort(byCreatedAt),
+      options
+    );
+    return { total, definitions: items };
+  }
+
+  async saveThread(thread: ThreadRecord) {
+    this.threads.set(thread.threadId, thread);
+  }
+
+  async getThread(threadId: string) {
+    return this.threads.get(threadId) || null;
+  }
+
+  async deleteThread(threadId: string) {
+    return this.threads.delete(threadId);
+  }
+
+  async listThreads(agentId: string, options?: Paging) {
+    const { total, items } = paginate(
+      Array.from(this.threads.values())
+        .filter((thread) => thread.agentId === agentId)
+        .sort(byCreatedAt),
+      options
+    );
+    return { total, threads: items };
+  }
+}
+
+/**
+ * Persists agent definitions and thread records in a single JSON file
+ */
+export class FileAgentStore implements AgentStore {
+  private data?: {
+    agents: { [agentId: string]: AgentDefinition };
+    threads: { [threadId: string]: ThreadRecord };
+  };
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async load() {
+    if (!this.data) {
+      try {
+        const content = await fs.readFile(this.filePath, "utf8");
+        this.data = { agents: {}, threads: {}, ...JSON.parse(content) };
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          throw new Error(`Failed to read agent store: ${error.message}`);
+        }
+        this.data = { agents: {}, threads: {} };
+      }
+    }
+    return this.data!;
+  }
+
+  private async persist() {
+    const content = JSON.stringify(await this.load(), null, 2);
+
+    // Serialize writes and replace the file atomically
+    this.writing = this.writing.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writing;
+  }
+
+  async save(definition: AgentDefinition) {
+    (await this.load()).agents[definition.agentId] = definition;
+    await this.persist();
+  }
+
+  async get(agentId: string) {
+    return (await this.load()).agents[agentId] || null;
+  }
+
+  async delete(agentId: string) {
+    const data = await this.load();
+    if (!data.agents[agentId]) {
+      return false;
+    }
+
+    delete data.agents[agentId];
+    Object.values(data.threads).forEach((thread) => {
+      if (thread.agentId === agentId) {
+        delete data.threads[thread.threadId];
+      }
+    });
+    await this.persist();
+    return true;
+  }
+
+  async list({ tenantId, ...options }: AgentListOptions = {}) {
+    const { total, items } = paginate(
+      Object.values((await this.load()).agents)
+        .filter(byTenant(tenantId))
+        .sort(byCreatedAt),
+      options
+    );
+    return { total, definitions: items };
+  }
+
+  async saveThread(thread: ThreadRecord) {
+    (await this.load()).threads[thread.threadId] = thread;
+    await this.persist();
+  }
+
+  async getThread(threadId: string) {
+    return (await this.load()).threads[threadId] || null;
+  }
+
+  async deleteThread(threadId: string) {
+    const data = await this.load();
+    if (!data.threads[threadId]) {
+      return false;
+    }
+
+    delete data.threads[threadId];
+    await this.persist();
+    return true;
+  }
+
+  async listThreads(agentId: string, options?: Paging) {
+    const { total, items } = paginate(
+      Object.values((await this.load()).threads)
+        .filter((thread) => thread.agentId === agentId)
+        .sort(byCreatedAt),
+      options
+    );
+    return { total, threads: items };
+  }
+}
+
+/**
+ * Persists agent definitions and thread records in a SQLite database.
+ * Requires the optional `better-sqlite3` peer dependency.
+ */
+export class SQLiteAgentStore implements AgentStore {
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    // Loaded lazily so better-sqlite3 is only needed when this store is used
+    const Database: typeof BetterSqlite3 = require("better-sqlite3");
+
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agents (
+        agent_id TEXT PRIMARY KEY,
+        definition TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS threads (
+        thread_id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS threads_agent_id ON threads (agent_id);
+    `);
+  }
+
+  async save(definition: AgentDefinition) {
+    this.db
+      .prepare(
+        `INSERT INTO agents (agent_id, definition, created_at) VALUES (?, ?, ?)
+         ON CONFLICT(agent_id) DO UPDATE SET definition = excluded.definition`
+      )
+      .run(
+        definition.agentId,
+        JSON.stringify(definition),
+        definition.createdAt
+      );
+  }
+
+  async get(agentId: string) {
+    const row = this.db
+      .prepare("SELECT definition FROM agents WHERE agent_id = ?")
+      .get(agentId) as { definition: string } | undefined;
+
+    return row ? (JSON.parse(row.definition) as AgentDefinition) : null;
+  }
+
+  async delete(agentId: string) {
+    return this.db.transaction(() => {
+      this.db.prepare("DELETE FROM threads WHERE agent_id = ?").run(agentId);
+      return (
+        this.db.prepare("DELETE FROM agents WHERE agent_id = ?").run(agentId)
+          .changes > 0
+      );
+    })();
+  }
+
+  async list({ offset = 0, limit, tenantId }: AgentListOptions = {}) {
+    // Tenant filter, the tenant id lives in the definition JSON
+    const where =
+      tenantId === undefined
+        ? ""
+        : "WHERE COALESCE(json_extract(definition, '$.tenantId'), ?) = ?";
+    const params = tenantId === undefined ? [] : [DEFAULT_TENANT_ID, tenantId];
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM agents ${where}`)
+      .get(...params) as { total: number };
+
+    const rows = this.db
+      .prepare(
+        `SELECT definition FROM agents ${where} ORDER BY created_at, agent_id LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit ?? -1, offset) as { definition: string }[];
+
+    return {
+      total,
+      definitions: rows.map(
+        (row) => JSON.parse(row.definition) as AgentDefinition
+      ),
+    };
+  }
+
+  async saveThread(thread: ThreadRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO threads (thread_id, agent_id, created_at, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(thread_id) DO UPDATE SET updated_at = excluded.updated_at`
+      )
+      .run(thread.threadId, thread.agentId, thread.createdAt, thread.updatedAt);
+  }
+
+  async getThread(threadId: string) {
+    const row = this.db
+      .prepare(
+        `SELECT thread_id AS threadId, agent_id AS agentId,
+         created_at AS createdAt, updated_at AS updatedAt
+         FROM threads WHERE thread_id = ?`
+      )
+      .get(threadId) as ThreadRecord | undefined;
+
+    return row || null;
+  }
+
+  async deleteThread(threadId: string) {
+    return (
+      this.db.prepare("DELETE FROM threads WHERE thread_id = ?").run(threadId)
+        .changes > 0
+    );
+  }
+
+  async listThreads(agentId: string, { offset = 0, limit }: Paging = {}) {
+    const { total } = this.db
+      .prepare("SELECT COUNT(*) AS total FROM threads WHERE agent_id = ?")
+      .get(agentId) as { total: number };
+
+    const threads = this.db
+      .prepare(
+        `SELECT thread_id AS threadId, agent_id AS agentId,
+         created_at AS createdAt, updated_at AS updatedAt
+         FROM threads WHERE agent_id = ?
+         ORDER BY created_at, thread_id LIMIT ? OFFSET ?`
+      )
+      .all(agentId, limit ?? -1, offset) as ThreadRecord[];
+
+    return { total, threads };
+  }
+
+  close() {
+    this.db.close();
+  }
+}
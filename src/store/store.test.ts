@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileAgentStore, MemoryAgentStore } from ".";
+import { AgentDefinition, AgentStore } from "../types";
+
+// Helper function to build an agent definition
+function definition(agentId: string, tenantId?: string): AgentDefinition {
+  return {
+    agentId,
+    ...(tenantId ? { tenantId } : {}),
+    params: { name: agentId, instruction: "Test" },
+    modelConfig: { provider: "fake", modelName: "fake" },
+    tools: [],
+    router: "all",
+    checkPointer: "local",
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Helper function to run the shared store checks
+async function checkStore(store: AgentStore) {
+  await store.save(definition("a"));
+  await store.save(definition("b"));
+  await store.save(definition("c", "acme"));
+  await store.saveThread({
+    threadId: "t1",
+    agentId: "a",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  });
+
+  assert.equal((await store.get("a"))?.agentId, "a");
+  assert.deepEqual(
+    (await store.list({ offset: 1, limit: 1 })).definitions.map(
+      (item) => item.agentId
+    ),
+    ["b"]
+  );
+  assert.deepEqual(
+    (await store.list({ tenantId: "default" })).definitions.map(
+      (item) => item.agentId
+    ),
+    ["a", "b"]
+  );
+  assert.equal((await store.list({ tenantId: "acme" })).total, 1);
+  assert.equal((await store.list()).total, 3);
+  assert.equal((await store.listThreads("a", {})).total, 1);
+
+  assert.equal(await store.delete("a"), true);
+  assert.equal(await store.get("a"), null);
+  assert.equal(await store.getThread("t1"), null);
+  assert.equal(await store.delete("a"), false);
+}
+
+test("MemoryAgentStore saves, pages and deletes definitions", async () => {
+  await checkStore(new MemoryAgentStore());
+});
+
+test("FileAgentStore persists definitions across instances", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "axicov-store-"));
+
+  try {
+    const filePath = join(dir, "agents.json");
+    await checkStore(new FileAgentStore(filePath));
+
+    await new FileAgentStore(filePath).save(definition("c"));
+    assert.equal((await new FileAgentStore(filePath).get("c"))?.agentId, "c");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
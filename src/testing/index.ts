@@ -0,0 +1,289 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { z } from "zod";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { Agent } from "../agent";
+import { createTool } from "../utils/createTool";
+import { extractContent } from "../utils/messages";
+import { MetricsRegistry } from "../metrics";
+import {
+  AppOptions,
+  GuardrailConfig,
+  HistoryConfig,
+  Logger,
+  PromptConfig,
+  ToolCallContext,
+  ToolPolicy,
+  ToolRegistryFunction,
+  ToolRouter,
+  UsageConfig,
+} from "../types";
+
+export type ScriptedToolCall = {
+  name: string;
+  args?: Record<string, any>;
+  id?: string;
+};
+
+// A reply of the scripted model: plain text (also used for orchestration
+// arrays such as '["getPrices"]'), text and/or tool calls with optional token
+// usage, or a prebuilt message
+export type ScriptedResponse =
+  | string
+  | {
+      content?: string;
+      toolCalls?: ScriptedToolCall[];
+      usage?: { inputTokens: number; outputTokens: number };
+    }
+  | AIMessage;
+
+/**
+ * Chat model that replays queued responses in order, for offline tests of
+ * tools and agent flows. Every call's input messages are recorded in `calls`
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  responses: ScriptedResponse[];
+  calls: BaseMessage[][] = [];
+  private toolCallCount = 0;
+
+  constructor(responses: ScriptedResponse[] = []) {
+    super({});
+    this.responses = [...responses];
+  }
+
+  _llmType() {
+    return "scripted";
+  }
+
+  // Tool calls are scripted, so binding tools is a no-op
+  override bindTools(): any {
+    return this;
+  }
+
+  /**
+   * Queues more responses
+   *
+   * @param responses responses to append to the script
+   */
+  push(...responses: ScriptedResponse[]) {
+    this.responses.push(...responses);
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.calls.push(messages);
+
+    const response = this.responses.shift();
+    if (response === undefined) {
+      throw new Error(
+        "ScriptedChatModel has no responses left. Queue more with push()"
+      );
+    }
+
+    const message = this.toMessage(response);
+
+    return {
+      generations: [{ message, text: extractContent(message.content) }],
+    };
+  }
+
+  // Helper function to convert a scripted response into an AI message
+  private toMessage(response: ScriptedResponse): AIMessage {
+    if (typeof response === "string") {
+      return new AIMessage(response);
+    }
+    if (response instanceof AIMessage) {
+      return response;
+    }
+
+    const { usage, toolCalls = [] } = response;
+
+    return new AIMessage({
+      content: response.content || "",
+      tool_calls: toolCalls.map((toolCall) => ({
+        id: toolCall.id || `call_${++this.toolCallCount}`,
+        name: toolCall.name,
+        args: toolCall.args || {},
+        type: "tool_call" as const,
+      })),
+      ...(usage
+        ? {
+            usage_metadata: {
+              input_tokens: usage.inputTokens,
+              output_tokens: usage.outputTokens,
+              total_tokens: usage.inputTokens + usage.outputTokens,
+            },
+          }
+        : {}),
+    });
+  }
+}
+
+export type FakeTool = ToolRegistryFunction & {
+  // Arguments of every call made to the tool
+  calls: Record<string, any>[];
+};
+
+/**
+ * Creates a tool registry whose tool returns a canned result and records
+ * its calls
+ *
+ * @param name tool name
+ * @param result value returned by the tool, or a function computing it from
+ * the args and call context (it may throw to simulate failures)
+ * @returns registry function with a `calls` array
+ */
+export function fakeTool({
+  name,
+  description = `Fake ${name} tool`,
+  schema = z.object({}).passthrough(),
+  requiresApproval = false,
+  policy,
+  result = "ok",
+}: {
+  name: string;
+  description?: string;
+  schema?: z.ZodObject<any>;
+  requiresApproval?: boolean;
+  policy?: ToolPolicy;
+  result?:
+    | string
+    | number
+    | boolean
+    | null
+    | any[]
+    | Record<string, any>
+    | ((args: Record<string, any>, context: ToolCallContext) => any);
+}): FakeTool {
+  const calls: Record<string, any>[] = [];
+
+  const registry = createTool(
+    {
+      name,
+      description,
+      schema,
+      requiresApproval,
+      ...(policy ? { policy } : {}),
+    },
+    async (args: Record<string, any>, _agent, context) => {
+      calls.push(args);
+      return typeof result === "function" ? result(args, context) : result;
+    }
+  );
+
+  return Object.assign(registry, { calls });
+}
+
+/**
+ * Builds an initialized agent backed by a scripted model and the in-memory
+ * checkpointer
+ *
+ * @returns the agent and its scripted model
+ */
+export async function createTestAgent({
+  agentId = "test-agent",
+  responses = [],
+  model = new ScriptedChatModel(responses),
+  tools = [],
+  router,
+  params = {},
+  usage,
+  prompts,
+  logger,
+  history,
+  guardrails,
+}: {
+  agentId?: string;
+  responses?: ScriptedResponse[];
+  model?: ScriptedChatModel;
+  tools?: ToolRegistryFunction[];
+  router?: ToolRouter;
+  params?: Record<string, any>;
+  usage?: UsageConfig;
+  prompts?: PromptConfig;
+  logger?: Logger;
+  history?: HistoryConfig;
+  guardrails?: GuardrailConfig;
+} = {}) {
+  const agent = new Agent({
+    agentId,
+    params: {
+      name: "Test Agent",
+      instruction: "You are a test agent",
+      ...params,
+    },
+    model,
+    ...(router ? { router } : {}),
+    ...(usage ? { usage } : {}),
+    ...(prompts ? { prompts } : {}),
+    ...(logger ? { logger } : {}),
+    ...(history ? { history } : {}),
+    ...(guardrails ? { guardrails } : {}),
+  });
+
+  await agent.initialize({
+    toolNumbers: [],
+    clients: tools,
+    allRegistry: [],
+    checkPointer: "local",
+  });
+
+  return { agent, model };
+}
+
+/**
+ * Runs a stream to completion, e.g. `agent.streamMessage(...)` or
+ * `agent.streamExecutor(...)`
+ *
+ * @returns the streamed events, in order
+ */
+export async function collectEvents<T>(events: AsyncIterable<T>) {
+  const collected: T[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+/**
+ * Starts a new Express app on a random local port, with its own agents,
+ * stores and metrics
+ *
+ * @param options app options, e.g. an agent store or authenticators
+ * @returns the base URL, a JSON request helper and a close function
+ */
+export async function startTestServer(options: AppOptions = {}) {
+  // Loaded lazily so importing the SDK doesn't load the server
+  const { createApp } = await import("../server/app");
+  const app = createApp({ metrics: new MetricsRegistry(), ...options });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    async request(
+      method: string,
+      path: string,
+      body?: any,
+      headers: Record<string, string> = {}
+    ) {
+      const response = await fetch(`${url}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+
+      return { status: response.status, body: await response.json() };
+    },
+    close() {
+      return new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
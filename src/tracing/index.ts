@@ -0,0 +1,397 @@
+import { randomBytes } from "crypto";
+import { mkdirSync, promises as fs } from "fs";
+import path from "path";
+import type { Agent } from "../agent";
+import { logger } from "../logger";
+import { SpanData, SpanExporter, SpanKind } from "../types";
+
+// OTLP span kinds and status codes
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 };
+
+// Helper function to convert a millisecond timestamp to OTLP nanoseconds
+const toUnixNano = (time: number) =>
+  (BigInt(Math.round(time * 1000)) * 1000n).toString();
+
+// Helper function to convert an attribute to an OTLP key-value
+const toOtlpAttribute = (key: string, value: string | number | boolean) => ({
+  key,
+  value:
+    typeof value === "boolean"
+      ? { boolValue: value }
+      : typeof value === "number"
+      ? Number.isInteger(value)
+        ? { intValue: String(value) }
+        : { doubleValue: value }
+      : { stringValue: value },
+});
+
+/**
+ * Converts spans to an OTLP/HTTP JSON export request
+ *
+ * @param serviceName `service.name` resource attribute
+ */
+export function toOtlpJson(spans: SpanData[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [toOtlpAttribute("service.name", serviceName)],
+        },
+        scopeSpans: [
+          {
+            scope: { name: "axicov-sdk" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: Object.entries(span.attributes).map(([key, value]) =>
+                toOtlpAttribute(key, value)
+              ),
+              status: {
+                code: OTLP_STATUS_CODE[span.status.code],
+                ...(span.status.message
+                  ? { message: span.status.message }
+                  : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Sends spans to an OTLP/HTTP collector in the JSON encoding
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private url: string;
+
+  /**
+   * @param endpoint collector base URL (e.g. http://localhost:4318) or its
+   * full traces URL
+   * @param headers extra request headers, e.g. for the collector's auth
+   */
+  constructor(
+    endpoint: string,
+    private serviceName = "axicov-sdk",
+    private headers: Record<string, string> = {}
+  ) {
+    this.url = endpoint.endsWith("/v1/traces")
+      ? endpoint
+      : `${endpoint.replace(/\/$/, "")}/v1/traces`;
+  }
+
+  async export(spans: SpanData[]) {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify(toOtlpJson(spans, this.serviceName)),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OTLP export failed with ${response.status} ${response.statusText}`
+      );
+    }
+  }
+}
+
+/**
+ * Appends spans to a file, one OTLP JSON export request per line
+ */
+export class JsonFileSpanExporter implements SpanExporter {
+  constructor(private filePath: string, private serviceName = "axicov-sdk") {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async export(spans: SpanData[]) {
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify(toOtlpJson(spans, this.serviceName)) + "\n"
+    );
+  }
+}
+
+/**
+ * A span in progress. Call `end` once the work it covers is done
+ */
+export class Span {
+  private ended = false;
+
+  constructor(private tracer: Tracer, public readonly data: SpanData) {}
+
+  setAttribute(key: string, value: string | number | boolean) {
+    this.data.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(code: SpanData["status"]["code"], message?: string) {
+    this.data.status = { code, ...(message ? { message } : {}) };
+    return this;
+  }
+
+  /**
+   * @param endTime Unix time in milliseconds, now by default
+   */
+  end(endTime = Date.now()) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.data.endTime = endTime;
+    this.tracer.onEnd(this);
+  }
+}
+
+/**
+ * Creates spans and exports each trace once its root span ends. Agent
+ * activity is linked to a request by binding the thread to the request's
+ * span (see traceAgent)
+ */
+export class Tracer {
+  // Ended spans of the traces whose root is still open, oldest first
+  private pending = new Map<string, SpanData[]>();
+  private threadSpans = new Map<string, Span>();
+
+  /**
+   * @param maxPendingTraces traces kept open at most. Past it, the oldest
+   * one is exported with the spans it has, so roots that never end don't
+   * keep their spans in memory
+   */
+  constructor(
+    private exporter: SpanExporter,
+    private maxPendingTraces = 1000
+  ) {}
+
+  /**
+   * Starts a span, a new trace's root when there's no parent
+   *
+   * @param startTime Unix time in milliseconds, now by default
+   */
+  startSpan(
+    name: string,
+    {
+      parent,
+      kind = "internal",
+      attributes = {},
+      startTime = Date.now(),
+    }: {
+      parent?: Span;
+      kind?: SpanKind;
+      attributes?: SpanData["attributes"];
+      startTime?: number;
+    } = {}
+  ) {
+    const traceId = parent?.data.traceId || randomBytes(16).toString("hex");
+    if (!parent) {
+      this.pending.set(traceId, []);
+      if (this.pending.size > this.maxPendingTraces) {
+        const [oldestId, oldest] = this.pending.entries().next().value!;
+        this.pending.delete(oldestId);
+        if (oldest.length > 0) {
+          this.exportSpans(oldest);
+        }
+      }
+    }
+
+    return new Span(this, {
+      traceId,
+      spanId: randomBytes(8).toString("hex"),
+      ...(parent ? { parentSpanId: parent.data.spanId } : {}),
+      name,
+      kind,
+      startTime,
+      endTime: startTime,
+      attributes: { ...attributes },
+      status: { code: "unset" },
+    });
+  }
+
+  /**
+   * Makes a span the parent of the agent activity of a thread, e.g. of the
+   * request running it
+   *
+   * @returns a function removing the binding
+   */
+  bindThread(agentId: string, threadId: string, span: Span) {
+    const key = `${agentId}\u0000${threadId}`;
+    this.threadSpans.set(key, span);
+
+    return () => {
+      if (this.threadSpans.get(key) === span) {
+        this.threadSpans.delete(key);
+      }
+    };
+  }
+
+  spanForThread(agentId: string, threadId: string) {
+    return this.threadSpans.get(`${agentId}\u0000${threadId}`);
+  }
+
+  // Called by Span.end, exports the trace once its root ends
+  onEnd(span: Span) {
+    const { traceId, parentSpanId } = span.data;
+    const trace = this.pending.get(traceId);
+
+    if (!trace) {
+      // Ended after its root, exported on its own
+      this.exportSpans([span.data]);
+      return;
+    }
+
+    trace.push(span.data);
+    if (!parentSpanId) {
+      this.pending.delete(traceId);
+      this.exportSpans(trace);
+    }
+  }
+
+  // Helper function to export spans without failing the traced work
+  private exportSpans(spans: SpanData[]) {
+    this.exporter
+      .export(spans)
+      .catch((error) => logger.warn("Failed to export spans:", error));
+  }
+}
+
+/**
+ * Builds a tracer from `OTEL_EXPORTER_OTLP_ENDPOINT` (OTLP/HTTP collector)
+ * or `TRACES_FILE` (JSON lines), with the service name from
+ * `OTEL_SERVICE_NAME`
+ *
+ * @returns the tracer, or undefined when tracing isn't configured
+ */
+export function createTracerFromEnv(): Tracer | undefined {
+  const serviceName = process.env.OTEL_SERVICE_NAME || "axicov-sdk";
+
+  if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return new Tracer(
+      new OtlpHttpSpanExporter(
+        process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+        serviceName
+      )
+    );
+  }
+  if (process.env.TRACES_FILE) {
+    return new Tracer(
+      new JsonFileSpanExporter(process.env.TRACES_FILE, serviceName)
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Records an agent's orchestrations, model calls and tool calls as child
+ * spans of the span bound to their thread. Activity of unbound threads
+ * isn't traced
+ *
+ * @returns a function removing the listeners
+ */
+export function traceAgent(agent: Agent, tracer: Tracer) {
+  const modelSpans = new Map<string, Span>();
+  const toolSpans = new Map<string, Span>();
+  const parentOf = (threadId: string) =>
+    tracer.spanForThread(agent.agentId, threadId);
+  const toolKey = (threadId: string, toolCallId: string | undefined) =>
+    `${threadId}\u0000${toolCallId}`;
+
+  const unsubscribers = [
+    agent.on("orchestrated", (event) => {
+      const parent = parentOf(event.threadId);
+      if (!parent) {
+        return;
+      }
+
+      const now = Date.now();
+      tracer
+        .startSpan("orchestrate", {
+          parent,
+          startTime: now - event.durationMs,
+          attributes: {
+            "axicov.router": event.router,
+            "axicov.tools": event.tools.join(","),
+            "axicov.invalid_tools": event.invalidTools.join(","),
+            ...(event.fallback ? { "axicov.fallback": event.fallback } : {}),
+          },
+        })
+        .end(now);
+    }),
+    agent.on("model_start", ({ threadId, runId, kind, model }) => {
+      const parent = parentOf(threadId);
+      if (parent) {
+        modelSpans.set(
+          runId,
+          tracer.startSpan(`${kind} model`, {
+            parent,
+            kind: "client",
+            attributes: { "gen_ai.request.model": model, "axicov.kind": kind },
+          })
+        );
+      }
+    }),
+    agent.on("model_end", (event) => {
+      const span = modelSpans.get(event.runId);
+      modelSpans.delete(event.runId);
+      span
+        ?.setAttribute("gen_ai.response.model", event.model)
+        .setAttribute("gen_ai.usage.input_tokens", event.inputTokens)
+        .setAttribute("gen_ai.usage.output_tokens", event.outputTokens)
+        .setStatus("ok")
+        .end();
+    }),
+    agent.on("model_error", ({ runId, error }) => {
+      const span = modelSpans.get(runId);
+      modelSpans.delete(runId);
+      span?.setStatus("error", error?.message).end();
+    }),
+    agent.on("tool_start", ({ threadId, toolCallId, name }) => {
+      const parent = parentOf(threadId);
+      if (parent) {
+        toolSpans.set(
+          toolKey(threadId, toolCallId),
+          tracer.startSpan(`tool ${name}`, {
+            parent,
+            attributes: {
+              "axicov.tool": name,
+              ...(toolCallId ? { "axicov.tool_call_id": toolCallId } : {}),
+            },
+          })
+        );
+      }
+    }),
+    agent.on("tool_end", ({ threadId, toolCallId, name, result }) => {
+      const key = toolKey(threadId, toolCallId);
+      const parent = parentOf(threadId);
+      // Vetoed calls end without starting
+      const span =
+        toolSpans.get(key) ||
+        (parent &&
+          tracer.startSpan(`tool ${name}`, {
+            parent,
+            attributes: { "axicov.tool": name },
+          }));
+      toolSpans.delete(key);
+
+      if (result.ok) {
+        span?.setStatus("ok").end();
+      } else {
+        span
+          ?.setAttribute("axicov.error_code", result.error.code)
+          .setStatus("error", result.error.message)
+          .end();
+      }
+    }),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { collectEvents, createTestAgent, fakeTool } from "../testing";
+import { SpanData } from "../types";
+import { JsonFileSpanExporter, traceAgent, Tracer } from ".";
+
+test("links orchestration, model and tool spans to the bound span", async () => {
+  const exported: SpanData[][] = [];
+  const tracer = new Tracer({
+    export: async (spans) => void exported.push(spans),
+  });
+  const { agent } = await createTestAgent({
+    responses: [
+      "[]",
+      "Hello",
+      '["getPrices"]',
+      { toolCalls: [{ name: "getPrices", args: {} }] },
+      "It costs 3.99",
+    ],
+    tools: [fakeTool({ name: "getPrices", result: "3.99" })],
+  });
+  traceAgent(agent, tracer);
+
+  // Unbound threads aren't traced
+  await collectEvents(agent.streamMessage("Hi", { threadId: "unbound" }));
+  assert.equal(exported.length, 0);
+
+  const root = tracer.startSpan("POST /send", { kind: "server" });
+  const unbind = tracer.bindThread(agent.agentId, "t1", root);
+  await collectEvents(agent.streamMessage("Price?", { threadId: "t1" }));
+  unbind();
+  root.end();
+
+  assert.equal(exported.length, 1);
+  const spans = exported[0]!;
+  assert.deepEqual(
+    spans.map((span) => span.name),
+    [
+      "orchestrator model",
+      "orchestrate",
+      "agent model",
+      "tool getPrices",
+      "agent model",
+      "POST /send",
+    ]
+  );
+  assert.ok(
+    spans.every((span) => span.traceId === root.data.traceId),
+    "spans share the trace"
+  );
+  assert.ok(
+    spans.slice(0, -1).every((span) => span.parentSpanId === root.data.spanId),
+    "spans are children of the request span"
+  );
+  assert.equal(spans[1]?.attributes["axicov.tools"], "getPrices");
+  assert.equal(spans[3]?.attributes["axicov.tool_call_id"], "call_1");
+  assert.equal(spans[3]?.status.code, "ok");
+});
+
+test("exports the oldest open trace past the pending limit", () => {
+  const exported: SpanData[][] = [];
+  const tracer = new Tracer(
+    { export: async (spans) => void exported.push(spans) },
+    1
+  );
+
+  // A root that never ends, e.g. of an abandoned request
+  const abandoned = tracer.startSpan("abandoned");
+  tracer.startSpan("step", { parent: abandoned }).end();
+  assert.equal(exported.length, 0);
+
+  const root = tracer.startSpan("POST /send");
+  assert.deepEqual(
+    exported.map((spans) => spans.map((span) => span.name)),
+    [["step"]]
+  );
+
+  root.end();
+  abandoned.end();
+  assert.deepEqual(
+    exported.map((spans) => spans.map((span) => span.name)),
+    [["step"], ["POST /send"], ["abandoned"]]
+  );
+});
+
+test("exports spans as OTLP JSON lines", async () => {
+  const filePath = path.join(
+    mkdtempSync(path.join(tmpdir(), "axicov-traces-")),
+    "traces.jsonl"
+  );
+  const tracer = new Tracer(new JsonFileSpanExporter(filePath, "test-service"));
+
+  const root = tracer.startSpan("POST /send", {
+    kind: "server",
+    startTime: 1000,
+  });
+  tracer
+    .startSpan("tool getPrices", { parent: root, startTime: 1001 })
+    .setAttribute("axicov.tool", "getPrices")
+    .setStatus("error", "Timed out")
+    .end(1002.5);
+  root.setAttribute("http.response.status_code", 200).end(1003);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  const lines = readFileSync(filePath, "utf8").trim().split("\n");
+  assert.equal(lines.length, 1);
+  const [resourceSpans] = JSON.parse(lines[0]!).resourceSpans;
+  assert.deepEqual(resourceSpans.resource.attributes, [
+    { key: "service.name", value: { stringValue: "test-service" } },
+  ]);
+  const [tool, request] = resourceSpans.scopeSpans[0].spans;
+  assert.match(tool.traceId, /^[0-9a-f]{32}$/);
+  assert.match(tool.spanId, /^[0-9a-f]{16}$/);
+  assert.equal(tool.parentSpanId, request.spanId);
+  assert.equal(tool.kind, 1);
+  assert.equal(tool.startTimeUnixNano, "1001000000");
+  assert.equal(tool.endTimeUnixNano, "1002500000");
+  assert.deepEqual(tool.status, { code: 2, message: "Timed out" });
+  assert.equal(request.kind, 2);
+  assert.equal(request.parentSpanId, undefined);
+  assert.deepEqual(request.attributes, [
+    { key: "http.response.status_code", value: { intValue: "200" } },
+  ]);
+});
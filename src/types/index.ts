@@ -1,14 +1,871 @@
 import { DynamicStructuredTool, DynamicTool } from "@langchain/core/tools";
+import { RunnableConfig } from "@langchain/core/runnables";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { Request } from "express";
+import type { z } from "zod";
+import type { Agent } from "../agent";
+import type { MetricsRegistry } from "../metrics";
+import type { Tracer } from "../tracing";
 
 export type toolType = DynamicStructuredTool<any> | DynamicTool;
 
+// Arguments schema of a structured tool: zod, or the JSON schema of a tool
+// described by a server (MCP, OpenAPI), whose input isn't validated
+export type ToolArgumentsSchema = z.ZodObject<any> | Record<string, any>;
+
 export type ToolSchema = {
   name: string;
   description: string;
   schema: any;
   requiresApproval?: boolean | undefined;
+  policy?: ToolPolicy | undefined;
+  // Zod schema the tool's result is validated against
+  outputSchema?: any;
+};
+
+export type RateLimit = {
+  // Maximum calls within the sliding window
+  limit: number;
+  windowMs: number;
+};
+
+export type ToolPolicy = {
+  // Aborts the call's signal and fails the attempt after this long
+  timeoutMs?: number;
+  // Retries transient failures with exponential backoff
+  retry?: {
+    attempts: number;
+    backoffMs?: number;
+    maxBackoffMs?: number;
+    // Overrides the default transient error classification, which doesn't
+    // retry timeouts since the timed out attempt may still be running
+    retryOn?: (error: any) => boolean;
+  };
+  // Calls beyond this many running at once are rejected
+  maxConcurrency?: number;
+  rateLimit?: { perThread?: RateLimit; perAgent?: RateLimit };
+};
+
+export type ToolErrorCode =
+  | "TIMEOUT"
+  | "RATE_LIMITED"
+  | "CONCURRENCY_LIMIT"
+  | "TRANSIENT_FAILURE"
+  // The result didn't match the tool's output schema
+  | "INVALID_OUTPUT"
+  // The implementation threw
+  | "TOOL_ERROR"
+  // A beforeToolCall hook blocked the call
+  | "VETOED"
+  // The arguments broke a tool argument policy of the agent's guardrails
+  | "BLOCKED";
+
+export type ToolError = {
+  code: ToolErrorCode;
+  message: string;
+  retryable: boolean;
+};
+
+// Envelope of every tool result, serialized as JSON for the model
+export type ToolResult<T = any> =
+  | { ok: true; data: T }
+  | { ok: false; error: ToolError };
+
+// Passed to tool implementations as their third argument
+export type ToolCallContext = {
+  signal: AbortSignal;
+  threadId?: string;
+  // 1 for the first attempt, increasing on retries
+  attempt: number;
 };
 
 export type Tools = {
   [key: string]: ToolSchema;
 };
+
+export type PendingToolCall = {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  requiresApproval: boolean;
+  // Reasons of the tool argument policies requiring approval of the call
+  guardrails?: string[];
+};
+
+export type PendingApproval = {
+  threadId: string;
+  toolCalls: PendingToolCall[];
+};
+
+export type ToolRegistryFunction = ((agent: Agent) => Promise<{
+  tools: toolType[];
+  schema: Tools;
+}>) & {
+  // Lists the tools without building them, e.g. for the tool catalog
+  describe?: () => Promise<Tools>;
+};
+
+export type ToolBundle = {
+  name: string;
+  description: string;
+  registry: ToolRegistryFunction;
+  // Static schema for the catalog, for registries without `describe`
+  schema?: Tools;
+};
+
+export type ToolBundleDescription = {
+  name: string;
+  description: string;
+  // Left out when the bundle has neither a schema nor `describe`
+  tools?: {
+    name: string;
+    description: string;
+    requiresApproval: boolean;
+    parameters: Record<string, any>;
+    output?: Record<string, any>;
+  }[];
+};
+
+export type AgentEvent =
+  | { type: "orchestration"; tools: string[]; invalidTools: string[] }
+  | { type: "token"; content: string }
+  | { type: "tool_call"; id: string; name: string; args: Record<string, any> }
+  | {
+      type: "tool_result";
+      id: string;
+      name: string;
+      content: string;
+      result: ToolResult;
+    }
+  | { type: "error"; error: string }
+  | {
+      type: "final";
+      response: string;
+      // Model that produced the response, as "provider:modelName"
+      model?: string;
+      pendingApproval?: PendingApproval;
+    }
+  // Event of an agent the run handed a task to (see createAgentTool)
+  | {
+      type: "delegated";
+      agent: string;
+      toolCallId?: string;
+      event: AgentEvent;
+    }
+  | { type: "guardrail"; violation: GuardrailViolation };
+
+export type ToolRouterName = "all" | "llm" | "lexical";
+
+export type ToolRoutingResult = {
+  // Names of the agent's tools selected for the message
+  tools: string[];
+  // Capabilities requested by the router that no tool provides
+  invalidTools: string[];
+  // Name of the router that answered after this one failed
+  fallback?: string;
+};
+
+export type ToolRouter = {
+  name: string;
+  // config carries the usage callbacks and must be passed to model calls
+  route: (
+    msg: string,
+    agent: Agent,
+    config?: RunnableConfig
+  ) => Promise<ToolRoutingResult>;
+};
+
+export type ModelProvider =
+  | "anthropic"
+  | "gemini"
+  | "openai"
+  | "openai-compatible"
+  | "fake";
+
+export type ModelConfig = {
+  provider: ModelProvider;
+  modelName: string;
+  // Not needed by the fake provider and most local OpenAI-compatible servers
+  apiKey?: string;
+  // Name of the secret holding the API key, resolved with the secrets
+  // provider. Use it instead of apiKey for configs that are persisted
+  apiKeySecret?: string;
+  temperature?: number;
+  // Base URL of an OpenAI-compatible server (e.g. http://localhost:11434/v1)
+  baseURL?: string;
+  maxRetries?: number;
+  // Replies of the fake provider, used in order and repeated
+  responses?: string[];
+  // Models tried in order when the previous one fails
+  fallbacks?: ModelConfig[];
+};
+
+export type UsageKind = "orchestrator" | "agent";
+
+export type UsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Estimated from the price table, models without a price count as 0
+  costUsd: number;
+};
+
+export type UsageSummary = UsageTotals & {
+  byKind: Record<UsageKind, UsageTotals>;
+  // Keyed by "provider:modelName"
+  byModel: { [model: string]: UsageTotals };
+};
+
+// USD per million tokens, keyed by model name
+export type ModelPricing = {
+  [modelName: string]: { input: number; output: number };
+};
+
+export type UsageConfig = {
+  pricing?: ModelPricing;
+  // Runs on a thread stop once it has used this much. Counted in memory per
+  // agent instance, so it's best-effort and resets when the agent restarts
+  threadBudget?: { maxTokens?: number; maxCostUsd?: number };
+};
+
+export type PromptKind = "agent" | "orchestrator";
+
+export type PromptSection = {
+  name: string;
+  // Text with {{variable}} placeholders, e.g. {{params.name}}
+  template: string;
+};
+
+export type PromptContext = {
+  agent: Agent;
+  threadId: string;
+  // User message of the turn being rendered
+  message?: string;
+};
+
+// Computes a prompt variable when a template references it
+export type PromptVariableProvider = (context: PromptContext) => any;
+
+export type PromptOverrides = {
+  // Section templates by name: existing sections are replaced, null drops
+  // a section and new names are appended
+  sections?: Record<string, string | null>;
+};
+
+export type PromptConfig = {
+  [kind in PromptKind]?: PromptOverrides;
+} & {
+  providers?: Record<string, PromptVariableProvider>;
+};
+
+export type AgentDefinition = {
+  agentId: string;
+  params: any;
+  modelConfig: ModelConfig;
+  // Names of the registered tool bundles loaded by the agent
+  tools: string[];
+  // Names of loaded tools that are disabled
+  disabledTools?: string[];
+  router: ToolRouterName;
+  checkPointer: "local" | "mongo";
+  // Name of the secret holding the MongoDB connection string
+  mongoUriSecret?: string;
+  // Plaintext connection string of definitions saved before mongoUriSecret
+  mongoUri?: string;
+  usage?: UsageConfig;
+  // Tenant owning the agent, set by the server from the caller's credentials
+  tenantId?: string;
+  // Providers can't be serialized, register them with registerPromptProvider
+  prompts?: Omit<PromptConfig, "providers">;
+  // Documents added over HTTP, indexed again when the agent is rebuilt
+  knowledge?: KnowledgeDocumentInput[];
+  // Models and token counters can't be serialized, the agent's model
+  // summarizes
+  history?: HistoryPolicy;
+  // Custom filters can't be serialized, use the built-in ones
+  guardrails?: Omit<GuardrailConfig, "input" | "output">;
+  createdAt: string;
+};
+
+export type ThreadRecord = {
+  threadId: string;
+  agentId: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Paging = { offset?: number; limit?: number };
+
+// Definitions without a tenantId belong to the default tenant
+export type AgentListOptions = Paging & { tenantId?: string };
+
+export type AgentStore = {
+  save: (definition: AgentDefinition) => Promise<void>;
+  get: (agentId: string) => Promise<AgentDefinition | null>;
+  // Deletes the definition and its thread records
+  delete: (agentId: string) => Promise<boolean>;
+  list: (options?: AgentListOptions) => Promise<{
+    total: number;
+    definitions: AgentDefinition[];
+  }>;
+  saveThread: (thread: ThreadRecord) => Promise<void>;
+  getThread: (threadId: string) => Promise<ThreadRecord | null>;
+  deleteThread: (threadId: string) => Promise<boolean>;
+  listThreads: (
+    agentId: string,
+    options?: Paging
+  ) => Promise<{ total: number; threads: ThreadRecord[] }>;
+};
+
+export type HistoryMessage = {
+  id?: string;
+  role: "human" | "ai" | "tool" | "system";
+  content: string;
+  toolCalls?: { id: string; name: string; args: Record<string, any> }[];
+  toolCallId?: string;
+  name?: string;
+  // Model that produced an AI message, as "provider:modelName"
+  model?: string;
+  // Time of the first checkpoint containing the message
+  timestamp?: string;
+};
+
+export type CheckpointSummary = {
+  checkpointId: string;
+  createdAt: string;
+  messageCount: number;
+  next: string[];
+};
+
+export type Permission = "read" | "chat" | "manage";
+
+export type Role = "viewer" | "member" | "admin";
+
+// Caller of a server request
+export type Principal = {
+  id: string;
+  tenantId: string;
+  role: Role;
+};
+
+export type ApiKey = {
+  key: string;
+  // Defaults to the default tenant and the member role
+  tenantId?: string;
+  role?: Role;
+  // Principal id, defaults to a prefix of the key
+  id?: string;
+};
+
+// Resolves the principal of a request, null when its credentials don't match
+export type Authenticator = (req: Request) => Promise<Principal | null>;
+
+// Options of the server's Express app, read from the environment by default
+export type AppOptions = {
+  // Defaults to the store selected by AGENT_STORE
+  agentStore?: AgentStore;
+  // Defaults to the store selected by MEMORY_STORE
+  memoryStore?: UserMemoryStore;
+  // Tried before the registered ones, defaults to API_KEYS and JWT_SECRET
+  authenticators?: Authenticator[];
+  // Let local requests in without an authenticator, defaults to AUTH_DISABLED
+  allowAnonymous?: boolean;
+  // Defaults to the shared `metrics` registry
+  metrics?: MetricsRegistry;
+  // Defaults to the tracer configured by OTEL_EXPORTER_OTLP_ENDPOINT or
+  // TRACES_FILE
+  tracer?: Tracer;
+};
+
+export type SecretsProvider = {
+  // Resolves a secret by name, undefined when it doesn't exist
+  get: (name: string) => Promise<string | undefined>;
+};
+
+export type Logger = {
+  debug: (message: string, ...meta: any[]) => void;
+  info: (message: string, ...meta: any[]) => void;
+  warn: (message: string, ...meta: any[]) => void;
+  error: (message: string, ...meta: any[]) => void;
+};
+
+// Payloads of the lifecycle events emitted by an agent
+export type AgentLifecycleEvents = {
+  initialized: { agentId: string; tools: string[] };
+  initialization_failed: { agentId: string; error: Error };
+  // One registry function (tool bundle) loaded, by its position
+  tools_loaded: { agentId: string; index: number; tools: string[] };
+  tools_load_failed: { agentId: string; index: number; error: Error };
+  orchestrated: {
+    agentId: string;
+    threadId: string;
+    message: string;
+    router: string;
+    tools: string[];
+    invalidTools: string[];
+    durationMs: number;
+    // Router that answered after the agent's router failed
+    fallback?: string;
+  };
+  model_start: {
+    agentId: string;
+    threadId: string;
+    kind: UsageKind;
+    runId: string;
+    model: string;
+  };
+  model_end: {
+    agentId: string;
+    threadId: string;
+    kind: UsageKind;
+    runId: string;
+    model: string;
+    durationMs: number;
+    inputTokens: number;
+    outputTokens: number;
+  };
+  model_error: {
+    agentId: string;
+    threadId: string;
+    kind: UsageKind;
+    runId: string;
+    model: string;
+    durationMs: number;
+    error: Error;
+  };
+  tool_start: {
+    agentId: string;
+    threadId: string;
+    toolCallId?: string;
+    name: string;
+    args: Record<string, any>;
+  };
+  tool_end: {
+    agentId: string;
+    threadId: string;
+    toolCallId?: string;
+    name: string;
+    args: Record<string, any>;
+    durationMs: number;
+    result: ToolResult;
+  };
+  // An executor run (a new message or a resumed one) started
+  run_started: { agentId: string; threadId: string };
+  approval_requested: {
+    agentId: string;
+    threadId: string;
+    toolCalls: PendingToolCall[];
+  };
+  run_completed: {
+    agentId: string;
+    threadId: string;
+    response: string;
+    durationMs: number;
+  };
+  run_failed: {
+    agentId: string;
+    threadId: string;
+    error: Error;
+    durationMs: number;
+  };
+  // A task handed to another agent finished (see createAgentTool)
+  delegated: {
+    agentId: string;
+    threadId: string;
+    toolCallId?: string;
+    childAgentId: string;
+    childThreadId: string;
+    // 1 for a delegation of the top-level agent
+    depth: number;
+    toolCalls: DelegatedToolCall[];
+    durationMs: number;
+    error?: Error;
+  };
+  // A guardrail blocked, redacted or held a message, response or tool call
+  guardrail_violation: {
+    agentId: string;
+    threadId: string;
+    violation: GuardrailViolation;
+  };
+  // Older messages of a thread were replaced by a summary
+  history_summarized: {
+    agentId: string;
+    threadId: string;
+    summarizedMessages: number;
+    keptMessages: number;
+    durationMs: number;
+  };
+};
+
+export type AgentLifecycleEventName = keyof AgentLifecycleEvents;
+
+export type AgentLifecycleListener<K extends AgentLifecycleEventName> = (
+  payload: AgentLifecycleEvents[K]
+) => void | Promise<void>;
+
+export type ToolCallHookContext = {
+  agent: Agent;
+  threadId: string;
+  toolCallId?: string;
+  name: string;
+  args: Record<string, any>;
+};
+
+// Returned by beforeToolCall: replacement args, or a reason to block the call
+export type ToolCallDecision = { args?: Record<string, any>; veto?: string };
+
+// Middleware-style hooks, run in the order they were added with agent.use()
+export type AgentHooks = {
+  beforeToolCall?: (
+    context: ToolCallHookContext
+  ) => void | ToolCallDecision | Promise<void | ToolCallDecision>;
+  // May return a replacement result
+  afterToolCall?: (
+    context: ToolCallHookContext & { result: ToolResult; durationMs: number }
+  ) => void | ToolResult | Promise<void | ToolResult>;
+};
+
+export type MetricLabels = Record<string, string>;
+
+export type SpanKind = "server" | "internal" | "client";
+
+// A finished span, exported in the OTLP trace format
+export type SpanData = {
+  // 32 hex characters
+  traceId: string;
+  // 16 hex characters
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  // Unix time in milliseconds
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, string | number | boolean>;
+  status: { code: "unset" | "ok" | "error"; message?: string };
+};
+
+export type SpanExporter = {
+  // Called with the spans of a trace once its root span ends
+  export: (spans: SpanData[]) => Promise<void>;
+};
+
+export type McpTransportConfig =
+  | {
+      // Runs the server as a subprocess speaking JSON-RPC over stdin/stdout
+      type: "stdio";
+      command: string;
+      args?: string[];
+      // Added to PATH, HOME, LANG and the like from the parent's environment
+      env?: Record<string, string>;
+      // Passes the parent's whole environment, secrets included
+      inheritEnv?: boolean;
+      cwd?: string;
+    }
+  | {
+      // Streamable HTTP endpoint, e.g. https://mcp.example.com/mcp
+      type: "http";
+      url: string;
+      headers?: Record<string, string>;
+    };
+
+export type McpServerConfig = {
+  name: string;
+  transport: McpTransportConfig;
+  // Only load these tools (by their MCP name), all of them by default
+  tools?: string[];
+  // Prepended to tool names as `${toolPrefix}_${name}` to avoid collisions
+  toolPrefix?: string;
+  // Every tool (true) or the listed tools (by their MCP name)
+  requiresApproval?: boolean | string[];
+  // Execution policy applied to every tool of the server
+  policy?: ToolPolicy;
+  // Fails requests that get no response in time, 60 seconds by default
+  requestTimeoutMs?: number;
+};
+
+export type JsonRpcMessage = {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+};
+
+// Carries JSON-RPC messages between the client and an MCP server
+export type McpTransport = {
+  // Receives every message from the server
+  onMessage?: (message: JsonRpcMessage) => void;
+  // Called once if the connection is lost
+  onClose?: (error: Error) => void;
+  start: () => Promise<void>;
+  send: (message: JsonRpcMessage) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+// A tool listed by an MCP server
+export type McpTool = {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+  annotations?: Record<string, any>;
+};
+
+export type McpToolCallResult = {
+  content: { type: string; text?: string; [key: string]: any }[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+};
+
+// Credentials sent with every request of an OpenAPI tool. Values can be
+// given directly or as the name of a secret (see resolveSecret)
+export type OpenApiAuth =
+  | { type: "bearer"; token?: string; tokenSecret?: string }
+  | {
+      type: "basic";
+      username: string;
+      password?: string;
+      passwordSecret?: string;
+    }
+  | {
+      type: "apiKey";
+      in: "header" | "query";
+      name: string;
+      value?: string;
+      valueSecret?: string;
+    };
+
+export type OpenApiToolsConfig = {
+  // OpenAPI 3 document, or the path of its JSON file
+  spec: string | Record<string, any>;
+  // Only generate these operations, by operationId or as "GET /items/{id}"
+  operations?: string[];
+  // Overrides the first server of the document
+  baseUrl?: string;
+  auth?: OpenApiAuth;
+  // Sent with every request
+  headers?: Record<string, string>;
+  // Prepended to tool names as `${toolPrefix}_${name}` to avoid collisions
+  toolPrefix?: string;
+  // Every tool (true), none (false) or the listed operations on top of the
+  // default. Operations other than GET require approval by default
+  requiresApproval?: boolean | string[];
+  // Execution policy applied to every tool of the document
+  policy?: ToolPolicy;
+};
+
+// Tool call made by an agent while running a delegated task
+export type DelegatedToolCall = {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result?: ToolResult;
+};
+
+export type AgentToolConfig = {
+  // Tool name the parent's model sees, e.g. "pricing_agent"
+  name: string;
+  // What the agent is for, its tools are listed by default
+  description?: string;
+  // Parent messages sent along with the task: none (default), all of them
+  // or the latest N
+  history?: "none" | "all" | number;
+  // Longest chain of nested delegations, 3 by default
+  maxDepth?: number;
+  requiresApproval?: boolean;
+  policy?: ToolPolicy;
+};
+
+export type KnowledgeFormat = "text" | "markdown" | "json";
+
+export type KnowledgeDocumentInput = {
+  // Generated when omitted, adding an existing id replaces the document
+  id?: string;
+  title?: string;
+  // JSON documents can also be given as objects or arrays
+  content: string | Record<string, any> | any[];
+  // "text" by default, "json" for objects and arrays
+  format?: KnowledgeFormat;
+  // Where the document comes from, e.g. a URL or a tool name
+  source?: string;
+};
+
+export type KnowledgeDocument = {
+  id: string;
+  title?: string;
+  format: KnowledgeFormat;
+  source?: string;
+  // Number of indexed chunks
+  chunks: number;
+  createdAt: string;
+};
+
+export type KnowledgeChunk = {
+  // `${documentId}#${index}`
+  id: string;
+  documentId: string;
+  // Document title and markdown headings above the chunk
+  title?: string;
+  text: string;
+};
+
+export type KnowledgeSearchResult = KnowledgeChunk & { score: number };
+
+export type KnowledgeConfig = {
+  // Longest chunk in characters, 1000 by default
+  chunkSize?: number;
+  // Chunks added to the prompts for each message, 5 by default
+  topK?: number;
+  // Adds semantic search, fused with the BM25 ranking
+  embeddings?: EmbeddingsInterface;
+  // Cosine similarity below which a chunk isn't a semantic match, 0.3 by
+  // default
+  minSimilarity?: number;
+};
+
+// Estimated tokens of the messages sent to the model
+export type TokenCounter = (messages: BaseMessage[]) => number;
+
+// Messages of a thread sent to the model on each call. Tool calls are never
+// separated from their results
+export type HistoryPolicy =
+  // Every message, the default
+  | { strategy: "all" }
+  // The latest messages only
+  | { strategy: "lastMessages"; maxMessages: number }
+  // The latest messages that fit in the budget
+  | { strategy: "tokenBudget"; maxTokens: number }
+  // Once the thread is over maxTokens, messages older than the latest
+  // keepTokens (half of maxTokens by default) are replaced by a stored summary
+  | {
+      strategy: "summarize";
+      maxTokens: number;
+      keepTokens?: number;
+      // Model writing the summaries, the agent's model by default
+      model?: BaseChatModel;
+      // Instructions for the summarizing model
+      prompt?: string;
+    };
+
+export type HistoryConfig = HistoryPolicy & {
+  // Estimates 4 characters per token by default
+  countTokens?: TokenCounter;
+};
+
+// A fact an agent remembers about a user across threads
+export type UserMemory = {
+  id: string;
+  agentId: string;
+  userId: string;
+  content: string;
+  // Topic of the fact, e.g. "preferred wallet". Remembering another fact
+  // under the same key replaces it
+  key?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UserMemoryStore = {
+  // Inserts or replaces the memory with the same id
+  save: (memory: UserMemory) => Promise<void>;
+  // Memories of the user, oldest first
+  list: (
+    agentId: string,
+    userId: string,
+    options?: Paging
+  ) => Promise<{ total: number; memories: UserMemory[] }>;
+  delete: (agentId: string, userId: string, id: string) => Promise<boolean>;
+  // Deletes every memory of the user kept by the agent
+  deleteUser: (agentId: string, userId: string) => Promise<number>;
+  // Binds a thread to a user unless it already belongs to one, and returns
+  // the user the thread belongs to
+  bindThread: (
+    agentId: string,
+    threadId: string,
+    userId: string
+  ) => Promise<string>;
+  getThreadUser: (agentId: string, threadId: string) => Promise<string | null>;
+  unbindThread: (agentId: string, threadId: string) => Promise<boolean>;
+};
+
+export type UserMemoryConfig = {
+  // MemoryUserMemoryStore by default
+  store?: UserMemoryStore;
+  // Memories added to the prompt for each message, 10 by default
+  topK?: number;
+};
+
+export type GuardrailStage = "input" | "output" | "tool";
+
+export type GuardrailViolation = {
+  // Name of the filter, or "toolArguments"
+  guardrail: string;
+  stage: GuardrailStage;
+  action: "block" | "redact" | "requireApproval";
+  reason: string;
+  tool?: string;
+  toolCallId?: string;
+};
+
+export type GuardrailContext = { agent: Agent; threadId: string };
+
+// Returned by a text guardrail that finds a problem
+export type TextGuardrailResult =
+  // Stops the message, or replaces the response with the blocked response
+  | { action: "block"; reason: string }
+  // Continues with the rewritten text
+  | { action: "redact"; reason: string; text: string };
+
+// Filter of the user's messages (input) or the agent's responses (output)
+export type TextGuardrail = {
+  name: string;
+  check: (
+    text: string,
+    context: GuardrailContext
+  ) =>
+    | void
+    | TextGuardrailResult
+    | Promise<void | TextGuardrailResult>;
+};
+
+export type PiiType = "email" | "phone" | "creditCard" | "ssn" | "secret";
+
+// Constraint on an argument of a tool's calls. Calls without the argument
+// break the policy unless it only has a deny list
+export type ToolArgumentPolicy = {
+  // Tool the policy applies to, "*" for every tool
+  tool: string;
+  // Dotted path of the argument, e.g. "amount" or "recipient.address"
+  argument: string;
+  min?: number;
+  max?: number;
+  // Values the argument must be one of
+  allow?: (string | number)[];
+  deny?: (string | number)[];
+  // Regular expression string arguments must match
+  pattern?: string;
+  // Block by default
+  action?: "block" | "requireApproval";
+  // Reason reported to the model and in violations
+  message?: string;
+};
+
+export type GuardrailConfig = {
+  // Blocks messages that try to override the agent's instructions
+  promptInjection?: boolean;
+  // Blocks messages mentioning these words or phrases
+  blockedTopics?: string[];
+  // Redacts personal data and credentials from responses, every type when true
+  redactPii?: boolean | PiiType[];
+  // Custom filters, run after the built-in ones
+  input?: TextGuardrail[];
+  output?: TextGuardrail[];
+  toolArguments?: ToolArgumentPolicy[];
+  // Answer to blocked messages and in place of blocked responses
+  blockedResponse?: string;
+};
@@ -0,0 +1,245 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { Serialized } from "@langchain/core/load/serializable";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { FALLBACK_ATTEMPT_TAG } from "../models";
+import {
+  ModelPricing,
+  UsageConfig,
+  UsageKind,
+  UsageSummary,
+  UsageTotals,
+} from "../types";
+
+// Run metadata keys identifying the thread and kind of a model call
+export const USAGE_THREAD_KEY = "axicov_usage_thread";
+export const USAGE_KIND_KEY = "axicov_usage_kind";
+
+/**
+ * Thrown when a thread has used up its token or cost budget
+ */
+export class BudgetExceededError extends Error {
+  threadId: string;
+
+  constructor(threadId: string, reason: string) {
+    super(`Budget exceeded for thread ${threadId}: ${reason}`);
+    this.name = "BudgetExceededError";
+    this.threadId = threadId;
+  }
+}
+
+// Helper function to create empty totals
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+});
+
+// Helper function to create an empty summary
+const emptySummary = (): UsageSummary => ({
+  ...emptyTotals(),
+  byKind: { orchestrator: emptyTotals(), agent: emptyTotals() },
+  byModel: {},
+});
+
+// Helper function to add one set of totals into another
+const addTotals = (target: UsageTotals, source: UsageTotals) => {
+  target.calls += source.calls;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.totalTokens += source.totalTokens;
+  target.costUsd += source.costUsd;
+};
+
+// Helper function to add a summary into another
+const addSummary = (target: UsageSummary, source: UsageSummary) => {
+  addTotals(target, source);
+  addTotals(target.byKind.orchestrator, source.byKind.orchestrator);
+  addTotals(target.byKind.agent, source.byKind.agent);
+  for (const [model, totals] of Object.entries(source.byModel)) {
+    target.byModel[model] ??= emptyTotals();
+    addTotals(target.byModel[model], totals);
+  }
+};
+
+/**
+ * Subtracts usage totals, e.g. to get the usage of a single request from
+ * thread totals taken before and after it
+ */
+export const subtractUsage = (
+  after: UsageTotals,
+  before: UsageTotals
+): UsageTotals => ({
+  calls: after.calls - before.calls,
+  inputTokens: after.inputTokens - before.inputTokens,
+  outputTokens: after.outputTokens - before.outputTokens,
+  totalTokens: after.totalTokens - before.totalTokens,
+  costUsd: after.costUsd - before.costUsd,
+});
+
+/**
+ * Callback handler that records the token usage of every model call made
+ * with its config, aggregated per thread, and enforces per-thread budgets.
+ * Usage is kept in memory for the lifetime of the agent instance and isn't
+ * persisted, so budgets are per process and best-effort: they start over
+ * when the agent is rebuilt after a restart
+ */
+export class UsageTracker extends BaseCallbackHandler {
+  name = "axicov_usage_tracker";
+  private pricing: ModelPricing;
+  private threadBudget: UsageConfig["threadBudget"];
+  private runs = new Map<
+    string,
+    { threadId: string; kind: UsageKind; model: string }
+  >();
+  private threads = new Map<string, UsageSummary>();
+
+  constructor({ pricing = {}, threadBudget }: UsageConfig = {}) {
+    // Awaited so usage is recorded before the run moves on
+    super({ _awaitHandler: true });
+    this.pricing = pricing;
+    this.threadBudget = threadBudget;
+  }
+
+  /**
+   * Builds the config that attributes model calls to a thread
+   *
+   * @param threadId thread the calls belong to
+   * @param kind orchestrator or agent (ReAct loop) calls
+   */
+  configFor(threadId: string, kind: UsageKind): RunnableConfig {
+    return {
+      callbacks: [this],
+      metadata: { [USAGE_THREAD_KEY]: threadId, [USAGE_KIND_KEY]: kind },
+    };
+  }
+
+  override handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    const threadId = metadata?.[USAGE_THREAD_KEY] as string | undefined;
+
+    // Attempts inside a FallbackChatModel are counted by the outer call
+    if (!threadId || tags?.includes(FALLBACK_ATTEMPT_TAG)) {
+      return;
+    }
+
+    const provider = metadata?.ls_provider;
+    const modelName = metadata?.ls_model_name;
+
+    this.runs.set(runId, {
+      threadId,
+      kind: (metadata?.[USAGE_KIND_KEY] as UsageKind) || "agent",
+      model:
+        provider && modelName
+          ? `${provider}:${modelName}`
+          : llm.id[llm.id.length - 1] || "unknown",
+    });
+  }
+
+  override handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+    this.runs.delete(runId);
+
+    const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+    const message = generation?.message as AIMessage | undefined;
+    const usage = message?.usage_metadata;
+    const tokenUsage = output.llmOutput?.tokenUsage;
+
+    // FallbackChatModel reports the model that actually served the call
+    const model = message?.response_metadata?.servedBy || run.model;
+    const inputTokens = usage?.input_tokens ?? tokenUsage?.promptTokens ?? 0;
+    const outputTokens =
+      usage?.output_tokens ?? tokenUsage?.completionTokens ?? 0;
+
+    this.record(run.threadId, run.kind, model, inputTokens, outputTokens);
+  }
+
+  override handleLLMError(_error: any, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  /**
+   * Adds the usage of a model call to a thread
+   *
+   * @param model "provider:modelName", priced by its model name
+   */
+  record(
+    threadId: string,
+    kind: UsageKind,
+    model: string,
+    inputTokens: number,
+    outputTokens: number
+  ) {
+    const price = this.pricing[model.slice(model.indexOf(":") + 1)];
+    const totals: UsageTotals = {
+      calls: 1,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      costUsd: price
+        ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+        : 0,
+    };
+
+    const summary = this.threads.get(threadId) || emptySummary();
+    addTotals(summary, totals);
+    addTotals(summary.byKind[kind], totals);
+    summary.byModel[model] ??= emptyTotals();
+    addTotals(summary.byModel[model], totals);
+    this.threads.set(threadId, summary);
+  }
+
+  getThreadUsage(threadId: string): UsageSummary {
+    const summary = emptySummary();
+    const usage = this.threads.get(threadId);
+    if (usage) {
+      addSummary(summary, usage);
+    }
+    return summary;
+  }
+
+  getAgentUsage(): UsageSummary & { threadCount: number } {
+    const summary = emptySummary();
+    for (const usage of this.threads.values()) {
+      addSummary(summary, usage);
+    }
+    return { ...summary, threadCount: this.threads.size };
+  }
+
+  /**
+   * Throws a BudgetExceededError when the thread has used up its budget
+   */
+  assertWithinBudget(threadId: string) {
+    const usage = this.threads.get(threadId);
+    if (!this.threadBudget || !usage) {
+      return;
+    }
+
+    const { maxTokens, maxCostUsd } = this.threadBudget;
+    if (maxTokens !== undefined && usage.totalTokens >= maxTokens) {
+      throw new BudgetExceededError(
+        threadId,
+        `${usage.totalTokens} of ${maxTokens} tokens used`
+      );
+    }
+    if (maxCostUsd !== undefined && usage.costUsd >= maxCostUsd) {
+      throw new BudgetExceededError(
+        threadId,
+        `$${usage.costUsd.toFixed(4)} of $${maxCostUsd} spent`
+      );
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectEvents, createTestAgent } from "../testing";
+
+test("usage is aggregated per thread, kind and model with costs", async () => {
+  const { agent } = await createTestAgent({
+    responses: [
+      { content: "[]", usage: { inputTokens: 100, outputTokens: 10 } },
+      { content: "Hi", usage: { inputTokens: 200, outputTokens: 20 } },
+      { content: "[]", usage: { inputTokens: 100, outputTokens: 10 } },
+      { content: "Yo", usage: { inputTokens: 300, outputTokens: 30 } },
+    ],
+    usage: { pricing: { ScriptedChatModel: { input: 1, output: 10 } } },
+  });
+
+  await collectEvents(agent.streamMessage("a", { threadId: "t1" }));
+  await collectEvents(agent.streamMessage("b", { threadId: "t2" }));
+
+  const t1 = agent.usage.getThreadUsage("t1");
+  assert.equal(t1.calls, 2);
+  assert.equal(t1.totalTokens, 330);
+  assert.deepEqual(t1.byKind.orchestrator, {
+    calls: 1,
+    inputTokens: 100,
+    outputTokens: 10,
+    totalTokens: 110,
+    costUsd: 0.0002,
+  });
+  assert.equal(t1.byModel.ScriptedChatModel?.calls, 2);
+
+  const total = agent.usage.getAgentUsage();
+  assert.equal(total.threadCount, 2);
+  assert.equal(total.totalTokens, 770);
+  assert.equal(total.byKind.agent.outputTokens, 50);
+});
+
+test("runs stop once the thread budget is exceeded", async () => {
+  const { agent, model } = await createTestAgent({
+    responses: [
+      { content: "[]", usage: { inputTokens: 10, outputTokens: 0 } },
+      { content: "Hi", usage: { inputTokens: 10, outputTokens: 0 } },
+    ],
+    usage: { threadBudget: { maxTokens: 15 } },
+  });
+
+  const first = await collectEvents(agent.streamMessage("a"));
+  assert.equal(first[first.length - 1]?.type, "error");
+
+  const second = await collectEvents(agent.streamMessage("b"));
+  assert.deepEqual(second.map((event) => event.type), ["error"]);
+  assert.equal(model.calls.length, 2);
+});
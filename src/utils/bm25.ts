@@ -0,0 +1,145 @@
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "can",
+  "do",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "me",
+  "my",
+  "of",
+  "on",
+  "or",
+  "please",
+  "that",
+  "the",
+  "this",
+  "to",
+  "what",
+  "with",
+  "you",
+]);
+
+/**
+ * Splits text into lowercase terms, breaking camelCase and snake_case words
+ *
+ * @param text text to tokenize
+ * @returns list of terms without stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * In-memory BM25 index over text documents
+ */
+export class BM25Index {
+  private documents = new Map<string, Map<string, number>>();
+  private lengths = new Map<string, number>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  get size() {
+    return this.documents.size;
+  }
+
+  add(id: string, text: string) {
+    this.remove(id);
+
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    terms.forEach((term) =>
+      frequencies.set(term, (frequencies.get(term) || 0) + 1)
+    );
+
+    frequencies.forEach((_, term) =>
+      this.documentFrequency.set(
+        term,
+        (this.documentFrequency.get(term) || 0) + 1
+      )
+    );
+
+    this.documents.set(id, frequencies);
+    this.lengths.set(id, terms.length);
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string) {
+    const frequencies = this.documents.get(id);
+    if (!frequencies) {
+      return false;
+    }
+
+    frequencies.forEach((_, term) => {
+      const count = (this.documentFrequency.get(term) || 1) - 1;
+      if (count === 0) {
+        this.documentFrequency.delete(term);
+      } else {
+        this.documentFrequency.set(term, count);
+      }
+    });
+
+    this.totalLength -= this.lengths.get(id) || 0;
+    this.documents.delete(id);
+    this.lengths.delete(id);
+    return true;
+  }
+
+  /**
+   *
+   * @param query free text query
+   * @param limit maximum number of results
+   * @returns matching document ids sorted by descending score
+   */
+  search(query: string, limit = 10): { id: string; score: number }[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const averageLength = this.totalLength / (this.documents.size || 1);
+    const results: { id: string; score: number }[] = [];
+
+    this.documents.forEach((frequencies, id) => {
+      const length = this.lengths.get(id) || 0;
+      let score = 0;
+
+      terms.forEach((term) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) {
+          return;
+        }
+
+        const documentFrequency = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(
+          1 +
+            (this.documents.size - documentFrequency + 0.5) /
+              (documentFrequency + 0.5)
+        );
+
+        score +=
+          (idf * frequency * (this.k1 + 1)) /
+          (frequency +
+            this.k1 * (1 - this.b + (this.b * length) / (averageLength || 1)));
+      });
+
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
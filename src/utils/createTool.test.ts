@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { createTestAgent } from "../testing";
+import { createTool } from "./createTool";
+import { parseToolResult } from "./toolResult";
+
+// Helper function to build a tool and call it
+async function invoke(registry: ReturnType<typeof createTool>, args: any) {
+  const { agent } = await createTestAgent();
+  const { tools } = await registry(agent);
+  return parseToolResult(await tools[0].invoke(args));
+}
+
+test("results are wrapped in an ok envelope and validated", async () => {
+  const getBalance = createTool(
+    {
+      name: "getBalance",
+      description: "Wallet balance",
+      schema: z.object({ address: z.string() }),
+      outputSchema: z.object({ balance: z.bigint(), symbol: z.string() }),
+    },
+    async ({ address }) => ({
+      balance: BigInt(address.length) * 10n ** 18n,
+      symbol: "ETH",
+    })
+  );
+
+  assert.deepEqual(await invoke(getBalance, { address: "0xabc" }), {
+    ok: true,
+    data: { balance: "5000000000000000000", symbol: "ETH" },
+  });
+});
+
+test("results that don't match the output schema are errors", async () => {
+  const getPrice = createTool(
+    {
+      name: "getPrice",
+      description: "Price lookup",
+      schema: z.object({}),
+      outputSchema: z.object({ price: z.number() }),
+    },
+    async () => ({ price: "unknown" } as any)
+  );
+
+  assert.deepEqual(await invoke(getPrice, {}), {
+    ok: false,
+    error: {
+      code: "INVALID_OUTPUT",
+      message:
+        "Tool result doesn't match its output schema: price: Expected number, received string",
+      retryable: false,
+    },
+  });
+});
+
+test("parseToolResult wraps plain text and tool node errors", () => {
+  assert.deepEqual(parseToolResult("Price in USA: 3.99"), {
+    ok: true,
+    data: "Price in USA: 3.99",
+  });
+  assert.deepEqual(parseToolResult("Error: bad input"), {
+    ok: false,
+    error: { code: "TOOL_ERROR", message: "bad input", retryable: false },
+  });
+});
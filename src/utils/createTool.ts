@@ -1,52 +1,95 @@
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
 import { Agent } from "../agent";
-import { Tools, toolType } from "../types";
+import {
+  ToolCallContext,
+  ToolPolicy,
+  ToolRegistryFunction,
+  ToolResult,
+  Tools,
+  toolType,
+} from "../types";
+import { ToolPolicyRunner } from "./toolPolicy";
+import { serializeToolResult, toToolError } from "./toolResult";
 
 /**
- * Creates a tool wrapper with access to agent state
+ * Creates a tool wrapper with access to agent state. Arguments are typed from
+ * the zod schema, and every result is returned to the model as a
+ * `{ ok: true, data }` or `{ ok: false, error: { code, message, retryable } }`
+ * JSON envelope
  *
- * @param schemaDefinition Object containing tool schema metadata
+ * @param schemaDefinition Object containing tool schema metadata, the optional
+ * output schema the result is validated against, and the optional execution
+ * policy (timeout, retries, concurrency and rate limits)
  * @param implementation Function implementing the tool's logic with access to agent
+ * and the call context (abort signal, thread and attempt)
  * @returns A registry-compatible tool exporter function
  */
 
-export function createTool<T extends z.ZodType>(
+export function createTool<
+  T extends z.ZodObject<any>,
+  O extends z.ZodTypeAny = z.ZodTypeAny
+>(
   schemaDefinition: {
     name: string;
     description: string;
-    schema: any;
+    schema: T;
+    outputSchema?: O;
     requiresApproval?: boolean;
+    policy?: ToolPolicy;
   },
-  implementation: (args: z.infer<T>, agentRef: Agent) => Promise<any>
-) {
-  return async (agent: Agent) => {
-    const tools: toolType[] = [];
-    const schema: Tools = {};
-
-    schema[schemaDefinition.name] = {
+  implementation: (
+    args: z.infer<T>,
+    agentRef: Agent,
+    context: ToolCallContext
+  ) => Promise<z.input<O>>
+): ToolRegistryFunction {
+  const schema: Tools = {
+    [schemaDefinition.name]: {
       name: schemaDefinition.name,
       description: schemaDefinition.description,
       schema: schemaDefinition.schema,
       requiresApproval: schemaDefinition.requiresApproval,
-    };
+      policy: schemaDefinition.policy,
+      outputSchema: schemaDefinition.outputSchema,
+    },
+  };
+
+  const registry = async (agent: Agent) => {
+    const tools: toolType[] = [];
+    const policyRunner = new ToolPolicyRunner(
+      schemaDefinition.name,
+      schemaDefinition.policy
+    );
 
     // Create LangChain tool with the implementation that has access to agent
-    const tool = new DynamicStructuredTool({
+    const tool = new DynamicStructuredTool<z.ZodObject<any>>({
       name: schemaDefinition.name,
       description: schemaDefinition.description,
       schema: schemaDefinition.schema,
-      func: async (args) => {
+      func: async (args: z.infer<T>, _runManager, config) => {
+        let result: ToolResult<z.infer<O>>;
+
         try {
-          // Pass both args and agent reference to the implementation
-          return await implementation(args, agent);
+          // Pass args, agent reference and call context to the implementation
+          const data = await policyRunner.run(
+            (context) => implementation(args, agent, context),
+            {
+              threadId: config?.configurable?.thread_id,
+              ...(config?.signal ? { signal: config.signal } : {}),
+            }
+          );
+
+          result = validateOutput(schemaDefinition.outputSchema, data);
         } catch (error: any) {
-          console.error(
+          agent.logger.error(
             `Error executing tool ${schemaDefinition.name}:`,
             error
           );
-          return `Error: ${error.message || "Unknown error occurred"}`;
+          result = { ok: false, error: toToolError(error) };
         }
+
+        return serializeToolResult(result);
       },
     });
 
@@ -58,4 +101,34 @@ export function createTool<T extends z.ZodType>(
       schema,
     };
   };
+
+  return Object.assign(registry, { describe: async () => schema });
+}
+
+// Helper function to validate a result against the tool's output schema
+function validateOutput<O extends z.ZodTypeAny>(
+  outputSchema: O | undefined,
+  data: unknown
+): ToolResult<z.infer<O>> {
+  if (!outputSchema) {
+    return { ok: true, data };
+  }
+
+  const parsed = outputSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "result"}: ${issue.message}`)
+      .join("; ");
+
+    return {
+      ok: false,
+      error: {
+        code: "INVALID_OUTPUT",
+        message: `Tool result doesn't match its output schema: ${issues}`,
+        retryable: false,
+      },
+    };
+  }
+
+  return { ok: true, data: parsed.data };
 }
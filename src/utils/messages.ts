@@ -0,0 +1,72 @@
+import { BaseMessage } from "@langchain/core/messages";
+import { HistoryMessage } from "../types";
+
+/**
+ * Extracts the text of a message content that might be a string,
+ * an array of content blocks or an object
+ *
+ * @param content message content
+ * @returns plain text of the content
+ */
+export function extractContent(content: any): string {
+  if (typeof content === "string") {
+    return content;
+  } else if (Array.isArray(content)) {
+    // If content is an array, extract text from each item
+    return content
+      .map((item: any) => (typeof item === "string" ? item : item.text || ""))
+      .join("");
+  } else if (content && typeof content === "object" && content.text) {
+    return content.text;
+  }
+  return "";
+}
+
+/**
+ * Converts a checkpointed message into its history representation
+ *
+ * @param message LangChain message
+ * @param timestamp time the message was first checkpointed
+ */
+export function toHistoryMessage(
+  message: BaseMessage,
+  timestamp?: string
+): HistoryMessage {
+  const type = message._getType();
+  const historyMessage: HistoryMessage = {
+    role:
+      type === "human" || type === "ai" || type === "tool" ? type : "system",
+    content: extractContent(message.content),
+  };
+
+  if (message.id) {
+    historyMessage.id = message.id;
+  }
+  if (timestamp) {
+    historyMessage.timestamp = timestamp;
+  }
+
+  const toolCalls = (message as any).tool_calls;
+  if (toolCalls && toolCalls.length > 0) {
+    historyMessage.toolCalls = toolCalls.map((toolCall: any) => ({
+      id: toolCall.id,
+      name: toolCall.name,
+      args: toolCall.args,
+    }));
+  }
+
+  // Set by FallbackChatModel
+  const servedBy = (message as any).response_metadata?.servedBy;
+  if (servedBy) {
+    historyMessage.model = servedBy;
+  }
+
+  if (type === "tool") {
+    historyMessage.toolCallId = (message as any).tool_call_id;
+    if (message.name) {
+      historyMessage.name = message.name;
+    }
+  }
+
+  return historyMessage;
+}
@@ -0,0 +1,192 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ToolPolicyRunner, isTransientError } from "./toolPolicy";
+import { createTestAgent, fakeTool } from "../testing";
+
+// Helper function to call the tool of a fake tool registry and parse its
+// result envelope
+async function invokeTool(
+  registry: ReturnType<typeof fakeTool>,
+  args: Record<string, any> = {},
+  threadId = "thread-1"
+) {
+  const { agent } = await createTestAgent();
+  const { tools } = await registry(agent);
+  const output = await tools[0].invoke(args, {
+    configurable: { thread_id: threadId },
+  });
+  return JSON.parse(output);
+}
+
+test("isTransientError classifies network, status and flagged errors", () => {
+  const reset = Object.assign(new Error("socket hang up"), {
+    code: "ECONNRESET",
+  });
+
+  assert.equal(isTransientError(reset), true);
+  assert.equal(isTransientError({ status: 503, message: "" }), true);
+  assert.equal(isTransientError({ status: 400, message: "" }), false);
+  assert.equal(isTransientError(new Error("Request timed out")), true);
+  assert.equal(isTransientError(new Error("Invalid address")), false);
+});
+
+test("timeouts abort the signal and return a structured error", async () => {
+  let aborted = false;
+  const slow = fakeTool({
+    name: "slow",
+    policy: { timeoutMs: 20 },
+    result: (_args, { signal }) =>
+      new Promise((resolve) => {
+        signal.addEventListener("abort", () => {
+          aborted = true;
+          resolve("late");
+        });
+      }),
+  });
+
+  assert.deepEqual(await invokeTool(slow), {
+    ok: false,
+    error: {
+      code: "TIMEOUT",
+      message: "slow timed out after 20ms",
+      retryable: true,
+    },
+  });
+  assert.equal(aborted, true);
+});
+
+test("timed out calls aren't retried and keep their slot until they settle", async () => {
+  const runner = new ToolPolicyRunner("stubborn", {
+    timeoutMs: 10,
+    retry: { attempts: 3, backoffMs: 1 },
+    maxConcurrency: 1,
+  });
+  let attempts = 0;
+  let release!: () => void;
+  // Ignores the abort signal and keeps running past the timeout
+  const stubborn = runner.run(() => {
+    attempts++;
+    return new Promise<void>((resolve) => (release = resolve));
+  });
+
+  await assert.rejects(stubborn, { code: "TIMEOUT" });
+  assert.equal(attempts, 1);
+  await assert.rejects(runner.run(async () => undefined), {
+    code: "CONCURRENCY_LIMIT",
+  });
+
+  release();
+  await new Promise((resolve) => setImmediate(resolve));
+  await runner.run(async () => undefined);
+});
+
+test("transient failures are retried with the attempt number", async () => {
+  const attempts: number[] = [];
+  const flaky = fakeTool({
+    name: "flaky",
+    policy: { retry: { attempts: 3, backoffMs: 1 } },
+    result: (_args, { attempt }) => {
+      attempts.push(attempt);
+      if (attempt < 3) {
+        throw Object.assign(new Error("Service unavailable"), { status: 503 });
+      }
+      return "done";
+    },
+  });
+
+  assert.deepEqual(await invokeTool(flaky), { ok: true, data: "done" });
+  assert.deepEqual(attempts, [1, 2, 3]);
+});
+
+test("exhausted retries and permanent errors are reported", async () => {
+  const down = fakeTool({
+    name: "down",
+    policy: { retry: { attempts: 2, backoffMs: 1 } },
+    result: () => {
+      throw Object.assign(new Error("Bad gateway"), { status: 502 });
+    },
+  });
+  const broken = fakeTool({
+    name: "broken",
+    policy: { retry: { attempts: 3, backoffMs: 1 } },
+    result: () => {
+      throw new Error("Invalid address");
+    },
+  });
+
+  assert.equal((await invokeTool(down)).error.code, "TRANSIENT_FAILURE");
+  assert.equal(down.calls.length, 2);
+  assert.deepEqual(await invokeTool(broken), {
+    ok: false,
+    error: { code: "TOOL_ERROR", message: "Invalid address", retryable: false },
+  });
+  assert.equal(broken.calls.length, 1);
+});
+
+test("per-thread rate limits are tracked separately", async () => {
+  const limited = fakeTool({
+    name: "limited",
+    policy: { rateLimit: { perThread: { limit: 1, windowMs: 60_000 } } },
+  });
+  // Policy state lives in the tools built for one agent
+  const { agent } = await createTestAgent();
+  const { tools } = await limited(agent);
+  const call = async (threadId: string) =>
+    JSON.parse(
+      await tools[0].invoke({}, { configurable: { thread_id: threadId } })
+    );
+
+  assert.equal((await call("a")).ok, true);
+  assert.equal((await call("a")).error.code, "RATE_LIMITED");
+  assert.equal((await call("b")).ok, true);
+});
+
+test("calls beyond the concurrency limit are rejected", async () => {
+  const runner = new ToolPolicyRunner("busy", { maxConcurrency: 1 });
+  let release!: () => void;
+  const first = runner.run(
+    () => new Promise<void>((resolve) => (release = resolve))
+  );
+
+  await assert.rejects(runner.run(async () => undefined), {
+    code: "CONCURRENCY_LIMIT",
+  });
+
+  release();
+  await first;
+  await runner.run(async () => undefined);
+});
+
+test("synchronous throws release their slot", async () => {
+  const runner = new ToolPolicyRunner("broken", { maxConcurrency: 1 });
+
+  await assert.rejects(
+    runner.run(() => {
+      throw new Error("Boom");
+    }),
+    /Boom/
+  );
+  assert.equal(await runner.run(async () => "ok"), "ok");
+});
+
+test("calls rejected for concurrency don't use up the rate limit", async () => {
+  const runner = new ToolPolicyRunner("busy", {
+    maxConcurrency: 1,
+    rateLimit: { perAgent: { limit: 2, windowMs: 60_000 } },
+  });
+  let release!: () => void;
+  const first = runner.run(
+    () => new Promise<void>((resolve) => (release = resolve))
+  );
+
+  await assert.rejects(runner.run(async () => undefined), {
+    code: "CONCURRENCY_LIMIT",
+  });
+
+  release();
+  await first;
+  await runner.run(async () => undefined);
+  await assert.rejects(runner.run(async () => undefined), {
+    code: "RATE_LIMITED",
+  });
+});
@@ -0,0 +1,282 @@
+import {
+  RateLimit,
+  ToolCallContext,
+  ToolError,
+  ToolErrorCode,
+  ToolPolicy,
+} from "../types";
+
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Error raised when a tool call violates its execution policy
+ */
+export class ToolPolicyError extends Error {
+  code: ToolErrorCode;
+  retryable: boolean;
+
+  constructor(code: ToolErrorCode, message: string, retryable: boolean) {
+    super(message);
+    this.name = "ToolPolicyError";
+    this.code = code;
+    this.retryable = retryable;
+  }
+
+  toToolError(): ToolError {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * Classifies errors worth retrying: timeouts, network failures, rate limits
+ * and server errors, or errors explicitly flagged as retryable
+ *
+ * @param error error thrown by a tool implementation
+ */
+export function isTransientError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+  if (typeof error.retryable === "boolean") {
+    return error.retryable;
+  }
+  if (error.code && TRANSIENT_ERROR_CODES.has(error.code)) {
+    return true;
+  }
+
+  const status = error.status ?? error.statusCode ?? error.response?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return /timed? ?out|rate limit|temporar|unavailable/i.test(
+    error.message || ""
+  );
+}
+
+// Helper function to pick the errors retried when the policy has no retryOn.
+// A timed out attempt may still be running, so timeouts aren't retried
+const retriedByDefault = (error: any) =>
+  !(error instanceof ToolPolicyError && error.code === "TIMEOUT") &&
+  isTransientError(error);
+
+// Helper function to wait, stopping early when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+/**
+ * Sliding window call counter
+ */
+class SlidingWindow {
+  private calls: number[] = [];
+
+  constructor(private rateLimit: RateLimit) {}
+
+  // Drops the calls that left the window and counts the others
+  count(now = Date.now()) {
+    this.calls = this.calls.filter(
+      (time) => now - time < this.rateLimit.windowMs
+    );
+    return this.calls.length;
+  }
+
+  hasRoom(now = Date.now()) {
+    return this.count(now) < this.rateLimit.limit;
+  }
+
+  record(now = Date.now()) {
+    this.calls.push(now);
+  }
+}
+
+/**
+ * Enforces a tool's policy. One instance holds the state (running calls and
+ * rate limit windows) of a tool on one agent. A call keeps its concurrency
+ * slot until its implementation settles, even after it timed out
+ */
+export class ToolPolicyRunner {
+  private running = 0;
+  private agentWindow: SlidingWindow | undefined;
+  private threadWindows = new Map<string, SlidingWindow>();
+
+  constructor(private toolName: string, private policy: ToolPolicy = {}) {
+    if (policy.rateLimit?.perAgent) {
+      this.agentWindow = new SlidingWindow(policy.rateLimit.perAgent);
+    }
+  }
+
+  /**
+   * Runs a tool call under the policy
+   *
+   * @param implementation tool logic, receiving the attempt's context
+   * @param threadId thread the call belongs to, for per-thread rate limits
+   * @param signal run's abort signal, forwarded to every attempt
+   */
+  async run<T>(
+    implementation: (context: ToolCallContext) => Promise<T>,
+    { threadId, signal }: { threadId?: string; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    // Rejected calls don't count against the rate limits
+    const { maxConcurrency } = this.policy;
+    if (maxConcurrency !== undefined && this.running >= maxConcurrency) {
+      throw new ToolPolicyError(
+        "CONCURRENCY_LIMIT",
+        `${this.toolName} is already running ${this.running} call(s), the limit is ${maxConcurrency}`,
+        true
+      );
+    }
+
+    this.checkRateLimits(threadId);
+
+    return this.runWithRetries(implementation, threadId, signal);
+  }
+
+  // Helper function to apply the per-agent and per-thread rate limits. A call
+  // is only recorded once it passes both
+  private checkRateLimits(threadId?: string) {
+    const { perThread, perAgent } = this.policy.rateLimit || {};
+    const now = Date.now();
+
+    // Windows of threads without recent calls are dropped
+    this.threadWindows.forEach((window, id) => {
+      if (window.count(now) === 0) {
+        this.threadWindows.delete(id);
+      }
+    });
+
+    if (this.agentWindow && !this.agentWindow.hasRoom(now)) {
+      throw new ToolPolicyError(
+        "RATE_LIMITED",
+        `${this.toolName} allows ${perAgent!.limit} call(s) per ${perAgent!.windowMs}ms for this agent`,
+        true
+      );
+    }
+
+    const threadWindow =
+      perThread && threadId
+        ? this.threadWindows.get(threadId) || new SlidingWindow(perThread)
+        : undefined;
+    if (threadWindow && !threadWindow.hasRoom(now)) {
+      throw new ToolPolicyError(
+        "RATE_LIMITED",
+        `${this.toolName} allows ${perThread!.limit} call(s) per ${perThread!.windowMs}ms for this thread`,
+        true
+      );
+    }
+
+    this.agentWindow?.record(now);
+    if (threadWindow) {
+      threadWindow.record(now);
+      this.threadWindows.set(threadId!, threadWindow);
+    }
+  }
+
+  // Helper function to retry transient failures with exponential backoff
+  private async runWithRetries<T>(
+    implementation: (context: ToolCallContext) => Promise<T>,
+    threadId: string | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    const {
+      attempts = 1,
+      backoffMs = 200,
+      maxBackoffMs = 5000,
+      retryOn = retriedByDefault,
+    } = this.policy.retry || {};
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runAttempt(implementation, attempt, threadId, signal);
+      } catch (error: any) {
+        if (signal?.aborted || !retryOn(error)) {
+          throw error;
+        }
+        if (attempt >= attempts) {
+          if (error instanceof ToolPolicyError) {
+            throw error;
+          }
+          throw new ToolPolicyError(
+            "TRANSIENT_FAILURE",
+            `${this.toolName} failed after ${attempt} attempt(s): ${error.message}`,
+            true
+          );
+        }
+
+        await sleep(
+          Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs),
+          signal
+        );
+      }
+    }
+  }
+
+  // Helper function to run a single attempt with the timeout applied
+  private async runAttempt<T>(
+    implementation: (context: ToolCallContext) => Promise<T>,
+    attempt: number,
+    threadId: string | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abort);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const { timeoutMs } = this.policy;
+
+    try {
+      // Started from a promise so that a synchronous throw releases the slot
+      this.running++;
+      const call = Promise.resolve()
+        .then(() =>
+          implementation({
+            signal: controller.signal,
+            attempt,
+            ...(threadId ? { threadId } : {}),
+          })
+        )
+        .finally(() => this.running--);
+
+      if (timeoutMs === undefined) {
+        return await call;
+      }
+
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new ToolPolicyError(
+            "TIMEOUT",
+            `${this.toolName} timed out after ${timeoutMs}ms`,
+            true
+          );
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      });
+
+      return await Promise.race([call, timeout]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+}
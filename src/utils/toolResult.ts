@@ -0,0 +1,66 @@
+import { ToolError, ToolResult } from "../types";
+import { isTransientError, ToolPolicyError } from "./toolPolicy";
+
+// Prefix of the errors ToolNode reports for tools that throw
+const TOOL_NODE_ERROR_PREFIX = "Error: ";
+
+/**
+ * Converts an error thrown while running a tool into a structured tool error
+ *
+ * @param error policy violation or error thrown by the implementation
+ */
+export function toToolError(error: any): ToolError {
+  if (error instanceof ToolPolicyError) {
+    return error.toToolError();
+  }
+
+  return {
+    code: "TOOL_ERROR",
+    message: error?.message || "Unknown error occurred",
+    retryable: isTransientError(error),
+  };
+}
+
+/**
+ * Serializes a tool result envelope for the model. BigInt values, common in
+ * on-chain amounts, are written as strings
+ */
+export function serializeToolResult(result: ToolResult): string {
+  return JSON.stringify(result, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+/**
+ * Reads the result envelope back from a tool message's content. Tools not
+ * built with createTool are wrapped: their text becomes `data`, and errors
+ * reported by the tool node become TOOL_ERROR
+ *
+ * @param content tool message content
+ */
+export function parseToolResult(content: string): ToolResult {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed?.ok === true && "data" in parsed) {
+      return parsed;
+    }
+    if (parsed?.ok === false && parsed.error) {
+      return parsed;
+    }
+  } catch {
+    // Plain text result
+  }
+
+  if (content.startsWith(TOOL_NODE_ERROR_PREFIX)) {
+    return {
+      ok: false,
+      error: {
+        code: "TOOL_ERROR",
+        message: content.slice(TOOL_NODE_ERROR_PREFIX.length),
+        retryable: false,
+      },
+    };
+  }
+
+  return { ok: true, data: content };
+}
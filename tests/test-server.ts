@@ -15,16 +15,25 @@ async function testServerEndpoints() {
     console.log("Health:", healthData);
     console.log();
 
+    // List available tool bundles
+    console.log("Listing Tool Bundles");
+    const toolsResponse = await fetch(`${API_BASE}/tools`);
+    const toolsData = await toolsResponse.json();
+    console.log("Tool Bundles:", toolsData);
+    console.log();
+
     // 2. Create Agent with Gemini
     console.log("Creating Agent with Gemini");
+    const agentId = `test-agent-${Date.now()}`;
     const threadId = `test-${Date.now()}`;
 
     const createAgentPayload = {
-      threadId,
+      agentId,
       modelConfig: {
         provider: "gemini",
         modelName: "gemini-2.5-flash",
-        apiKey: process.env.GEMINI_API_KEY,
+        // Resolved by the server's secrets provider (the environment)
+        apiKeySecret: "GEMINI_API_KEY",
         temperature: 0.7,
       },
       params: {
@@ -33,9 +42,7 @@ async function testServerEndpoints() {
           "You are a helpful AI assistant. Answer questions clearly and concisely.",
         toolKnowledge: [],
       },
-      toolNumbers: [], // No tools for simple test
-      clients: [],
-      allRegistry: [],
+      tools: [], // No tool bundles for simple test
       checkPointer: "local",
     };
 
@@ -50,7 +57,7 @@ async function testServerEndpoints() {
 
     // 3. Get Agent Info
     console.log("3️⃣ Getting Agent Info...");
-    const agentInfoResponse = await fetch(`${API_BASE}/agent/${threadId}`);
+    const agentInfoResponse = await fetch(`${API_BASE}/agent/${agentId}`);
     const agentInfoData = await agentInfoResponse.json();
     console.log("✅ Agent Info:", agentInfoData);
     console.log();
@@ -65,6 +72,7 @@ async function testServerEndpoints() {
     // 5. Send Message to Agent
     console.log("5️⃣ Sending Message to Agent...");
     const messagePayload = {
+      agentId,
       threadId,
       message: "Hello! What is 2 + 2? Please answer briefly.",
     };
@@ -83,6 +91,7 @@ async function testServerEndpoints() {
     // 6. Send Another Message (to test conversation continuity)
     console.log("6️⃣ Sending Follow-up Message...");
     const followUpPayload = {
+      agentId,
       threadId,
       message: "What was the answer I just asked about?",
     };
@@ -98,9 +107,16 @@ async function testServerEndpoints() {
     console.log(`   Response: "${followUpData.response}"`);
     console.log();
 
+    // List the agent's threads
+    console.log("Listing Agent Threads");
+    const threadsResponse = await fetch(`${API_BASE}/agent/${agentId}/threads`);
+    const threadsData = await threadsResponse.json();
+    console.log("Threads:", threadsData);
+    console.log();
+
     // 7. Delete Agent
     console.log("7️⃣ Deleting Agent...");
-    const deleteResponse = await fetch(`${API_BASE}/agent/${threadId}`, {
+    const deleteResponse = await fetch(`${API_BASE}/agent/${agentId}`, {
       method: "DELETE",
     });
     const deleteData = await deleteResponse.json();